@@ -5,43 +5,312 @@
  * @format
  */
 
-import React, { useState } from 'react';
-import { StatusBar } from 'react-native';
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { Alert, BackHandler, Linking, StatusBar } from 'react-native';
 import HomeScreen from './src/screens/HomeScreen';
 import NumClashScreen from './src/screens/NumClashScreen';
+import LeaderboardScreen from './src/screens/LeaderboardScreen';
+import SetupScreen from './src/screens/SetupScreen';
+import ResultsScreen, { DailyOutcome } from './src/screens/ResultsScreen';
+import LevelSelectScreen from './src/screens/LevelSelectScreen';
+import PuzzleScreen from './src/screens/PuzzleScreen';
+import SettingsScreen from './src/screens/SettingsScreen';
+import LanScreen from './src/screens/LanScreen';
+import { GameRules, GameState } from './src/types/gameTypes';
+import { loadSavedGame } from './src/services/storageService';
+import { DAILY_RULES } from './src/services/rulesService';
+import { createRematch } from './src/services/gameService';
+import { decodeGame } from './src/services/shareService';
+import {
+  DailyHistory,
+  createDailyGame,
+  createDailyResult,
+  getDailyDateKey,
+  getDailyStreak,
+  getDateKey,
+  isDailyGame,
+  loadDailyHistory,
+  recordDailyResult,
+} from './src/services/dailyService';
+import { PuzzleLevel } from './src/services/puzzleService';
+import {
+  CONFIRM_LEAVE_ROUTES,
+  INITIAL_NAVIGATION_STATE,
+  Route,
+  canGoBack,
+  getCurrentEntry,
+  navigationReducer,
+  parseDeepLink,
+} from './src/navigation';
+import { getErrorMessage } from './src/i18n';
+import { I18nProvider, useI18n } from './src/i18n/I18nContext';
+import { AccessibilityProvider } from './src/accessibility/AccessibilityContext';
+import { ThemeProvider, useTheme } from './src/theme/ThemeContext';
+import { FeedbackProvider } from './src/feedback/FeedbackContext';
+import { ToastHost, ToastProvider, useToast } from './src/components/Toast';
 
-type AppScreen = 'home' | 'game';
+// Lives inside ThemeProvider so the bar follows the active theme
+const ThemedStatusBar: React.FC = () => {
+  const { theme } = useTheme();
+  return (
+    <StatusBar
+      barStyle={theme.statusBar}
+      backgroundColor={theme.colors.background}
+      translucent={false}
+    />
+  );
+};
 
-const App: React.FC = () => {
-  const [currentScreen, setCurrentScreen] = useState<AppScreen>('home');
-  const [playerCount, setPlayerCount] = useState<number>(2);
+const gameRoute = (rules: GameRules, playerCount: number, initialGame: GameState | null): Route => ({
+  name: 'game',
+  playerCount,
+  rules,
+  initialGame,
+});
+
+// Ekranlar bir yığında tutulur; geri tuşu ve derin bağlantılar buradan yönetilir
+const AppNavigator: React.FC = () => {
+  const { t } = useI18n();
+  const { showToast } = useToast();
+  const [navigation, navigate] = useReducer(navigationReducer, INITIAL_NAVIGATION_STATE);
+  const [savedGame, setSavedGame] = useState<GameState | null>(null);
+  const [dailyHistory, setDailyHistory] = useState<DailyHistory>({});
+  const [dailyOutcome, setDailyOutcome] = useState<DailyOutcome | null>(null);
+
+  const { key, route } = getCurrentEntry(navigation);
 
-  const handleStartGame = (count: number) => {
-    setPlayerCount(count);
-    setCurrentScreen('game');
+  useEffect(() => {
+    if (route.name === 'home') {
+      loadSavedGame().then(setSavedGame);
+      loadDailyHistory().then(setDailyHistory);
+    }
+  }, [route.name]);
+
+  const goBack = () => navigate({ type: 'POP' });
+  const goHome = () => navigate({ type: 'RESET', route: { name: 'home' } });
+
+  const handleChoosePlayers = (count: number) => {
+    navigate({ type: 'PUSH', route: { name: 'setup', playerCount: count } });
   };
 
-  const handleBackToHome = () => {
-    setCurrentScreen('home');
+  // Kurulum ekranı oyunla değişir, geri tuşu ana sayfaya döner
+  const handleStartGame = (rules: GameRules, count: number) => {
+    navigate({ type: 'REPLACE', route: gameRoute(rules, count, null) });
+  };
+
+  const handleContinueGame = () => {
+    if (!savedGame) return;
+
+    navigate({
+      type: 'PUSH',
+      route: gameRoute(savedGame.rules, savedGame.players.length, savedGame),
+    });
   };
 
+  const dailyRoute = (playerName: string): Route => {
+    return gameRoute(DAILY_RULES, 1, createDailyGame(getDateKey(new Date()), playerName));
+  };
+
+  const handleStartDaily = (playerName: string) => {
+    navigate({ type: 'PUSH', route: dailyRoute(playerName) });
+  };
+
+  // Günlük oyunlar sonuç ekranından önce kaydedilir; günün ilk sonucu sayılır
+  const recordDaily = async (game: GameState) => {
+    const dateKey = getDailyDateKey(game);
+    if (!dateKey) return;
+
+    const result = createDailyResult(game, dateKey);
+    const history = await recordDailyResult(result);
+    setDailyHistory(history);
+    setDailyOutcome({
+      result,
+      streak: getDailyStreak(history, getDateKey(new Date())),
+      counted: history[dateKey] === result,
+    });
+  };
+
+  // Oyun sonuç ekranıyla değişir; geri tuşu biten oyuna dönmez.
+  // Başkasının kodundan açılan günlük oyun seriye sayılmaz
+  const handleGameOver = (game: GameState) => {
+    setDailyOutcome(null);
+    if (isDailyGame(game) && !game.imported) {
+      recordDaily(game);
+    }
+    navigate({ type: 'REPLACE', route: { name: 'results', game } });
+  };
+
+  // Aynı oyuncular ve kurallarla yeni bir oyun
+  const handleRematch = (finishedGame: GameState) => {
+    navigate({
+      type: 'REPLACE',
+      route: gameRoute(finishedGame.rules, finishedGame.players.length, createRematch(finishedGame)),
+    });
+  };
+
+  // Bitmiş oyunlar sonuç ekranında açılır, günlük seriye sayılmaz;
+  // süren oyunlar kaldığı yerden devam eder
+  const importRoute = (game: GameState): Route => {
+    if (game.winner) {
+      setDailyOutcome(null);
+      return { name: 'results', game };
+    }
+    return gameRoute(game.rules, game.players.length, game);
+  };
+
+  const handleImportGame = (game: GameState) => {
+    navigate({ type: 'PUSH', route: importRoute(game) });
+  };
+
+  const handleSelectLevel = (levels: PuzzleLevel[], index: number) => {
+    navigate({ type: 'PUSH', route: { name: 'puzzle', levels, index } });
+  };
+
+  // Oyundan geri tuşuyla çıkmadan önce sorulur; oyun zaten kayıtlı
+  const handleHardwareBack = (): boolean => {
+    if (CONFIRM_LEAVE_ROUTES.includes(route.name)) {
+      Alert.alert(t('game.leaveTitle'), t('game.leaveMessage'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('game.leave'), style: 'destructive', onPress: goBack },
+      ]);
+      return true;
+    }
+    if (canGoBack(navigation)) {
+      goBack();
+      return true;
+    }
+    // Ana sayfada geri tuşu uygulamayı kapatır
+    return false;
+  };
+
+  // Bağlantılar her zaman ana sayfanın üstünde açılır
+  const openLink = (url: string) => {
+    const link = parseDeepLink(url);
+    if (!link) return;
+
+    if (link.type === 'daily') {
+      navigate({ type: 'RESET', route: dailyRoute(t('game.defaultPlayerName', { number: 1 })) });
+      return;
+    }
+    try {
+      navigate({ type: 'RESET', route: importRoute(decodeGame(link.code)) });
+    } catch (error) {
+      showToast(getErrorMessage(t, error), 'error');
+    }
+  };
+
+  // Dinleyiciler bir kez kurulur; güncel yığını ref üzerinden görürler
+  const handlersRef = useRef({ back: handleHardwareBack, openLink });
+  handlersRef.current = { back: handleHardwareBack, openLink };
+
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () =>
+      handlersRef.current.back(),
+    );
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    Linking.getInitialURL().then(url => {
+      if (url) handlersRef.current.openLink(url);
+    });
+    const subscription = Linking.addEventListener('url', ({ url }) => handlersRef.current.openLink(url));
+    return () => subscription.remove();
+  }, []);
+
+  const renderRoute = () => {
+    switch (route.name) {
+      case 'home':
+        return (
+          <HomeScreen
+            onStartGame={handleChoosePlayers}
+            savedGame={savedGame}
+            onContinueGame={handleContinueGame}
+            onOpenLeaderboard={() => navigate({ type: 'PUSH', route: { name: 'stats' } })}
+            onOpenPuzzles={() => navigate({ type: 'PUSH', route: { name: 'levels' } })}
+            onOpenSettings={() => navigate({ type: 'PUSH', route: { name: 'settings' } })}
+            onOpenLan={() => navigate({ type: 'PUSH', route: { name: 'lan' } })}
+            onImportGame={handleImportGame}
+            onStartDaily={handleStartDaily}
+            dailyStreak={getDailyStreak(dailyHistory, getDateKey(new Date()))}
+            dailyPlayed={Boolean(dailyHistory[getDateKey(new Date())])}
+          />
+        );
+      case 'setup':
+        return (
+          <SetupScreen
+            initialPlayerCount={route.playerCount}
+            onStartGame={handleStartGame}
+            onBack={goBack}
+          />
+        );
+      case 'game':
+        return (
+          <NumClashScreen
+            playerCount={route.playerCount}
+            rules={route.rules}
+            initialGame={route.initialGame}
+            onBackToHome={goHome}
+            onGameOver={handleGameOver}
+          />
+        );
+      case 'results': {
+        const { game } = route;
+        return (
+          <ResultsScreen
+            game={game}
+            daily={isDailyGame(game) ? dailyOutcome : null}
+            onHome={goHome}
+            onRematch={isDailyGame(game) ? undefined : () => handleRematch(game)}
+          />
+        );
+      }
+      case 'stats':
+        return <LeaderboardScreen onBack={goBack} />;
+      case 'settings':
+        return <SettingsScreen onBack={goBack} />;
+      case 'lan':
+        return <LanScreen onBack={goBack} />;
+      case 'levels':
+        return <LevelSelectScreen onBack={goBack} onSelectLevel={handleSelectLevel} />;
+      case 'puzzle': {
+        const { levels, index } = route;
+        const nextRoute: Route = { name: 'puzzle', levels, index: index + 1 };
+        return (
+          <PuzzleScreen
+            level={levels[index]}
+            levelNumber={index + 1}
+            onBack={goBack}
+            onNext={
+              index + 1 < levels.length
+                ? () => navigate({ type: 'REPLACE', route: nextRoute })
+                : undefined
+            }
+          />
+        );
+      }
+    }
+  };
+
+  // Her yığın girdisi kendi anahtarıyla çizilir, yeni açılan ekran temiz başlar
+  return <React.Fragment key={key}>{renderRoute()}</React.Fragment>;
+};
+
+const App: React.FC = () => {
   return (
-    <>
-      <StatusBar 
-        barStyle="dark-content" 
-        backgroundColor="#f8f9fa" 
-        translucent={false}
-      />
-      
-      {currentScreen === 'home' ? (
-        <HomeScreen onStartGame={handleStartGame} />
-      ) : (
-        <NumClashScreen 
-          playerCount={playerCount} 
-          onBackToHome={handleBackToHome} 
-        />
-      )}
-    </>
+    <I18nProvider>
+      <AccessibilityProvider>
+        <ThemeProvider>
+          <FeedbackProvider>
+            <ToastProvider>
+              <ThemedStatusBar />
+              <AppNavigator />
+              <ToastHost />
+            </ToastProvider>
+          </FeedbackProvider>
+        </ThemeProvider>
+      </AccessibilityProvider>
+    </I18nProvider>
   );
 };
 
@@ -0,0 +1,48 @@
+/**
+ * @format
+ */
+
+import {
+  COLOR_BLIND_TEAM_COLORS,
+  MAX_FONT_SCALE,
+  describeDice,
+  describePlayer,
+  getPlayerAppearance,
+  scaleSize,
+  withPlayerAppearance,
+} from '../src/accessibility';
+import { createTranslator } from '../src/i18n';
+import { initializeGame } from '../src/services/gameService';
+
+const t = createTranslator('en');
+
+test('color-blind mode swaps colors on screen only and adds a shape per seat', () => {
+  const game = initializeGame(4, ['Ada', 'Bora', 'Cem', 'Deniz'], { seed: 3 });
+  const [ada, bora] = game.players;
+  expect(getPlayerAppearance(ada, false)).toEqual({ color: ada.color, shape: null });
+
+  const colorBlind = game.players.map(player => getPlayerAppearance(player, true));
+  expect(new Set(colorBlind.map(look => look.color)).size).toBe(4);
+  expect(new Set(colorBlind.map(look => look.shape)).size).toBe(4);
+  expect(getPlayerAppearance(bora, true).color).not.toBe(bora.color);
+  expect(withPlayerAppearance(bora, true)).toEqual({ ...bora, ...getPlayerAppearance(bora, true) });
+
+  const teams = initializeGame(4, [], { seed: 3, teams: true });
+  expect(getPlayerAppearance(teams.players[2], true).color).toBe(COLOR_BLIND_TEAM_COLORS[0]);
+});
+
+test('sizes follow the system font scale within limits', () => {
+  expect(scaleSize(70, 0.8)).toBe(70);
+  expect(scaleSize(70, 1.2)).toBe(84);
+  expect(scaleSize(70, 3)).toBe(Math.round(70 * MAX_FONT_SCALE));
+});
+
+test('screen reader labels describe dice and players', () => {
+  expect(describeDice(t, [3, 5])).toBe('Dice: 3 and 5');
+
+  const [ada] = initializeGame(2, ['Ada', 'Bora'], { seed: 3 }).players;
+  expect(describePlayer(t, ada, false)).toBe('Ada, number 5');
+  expect(describePlayer(t, { ...ada, eliminated: true, targetsWon: 1 }, true)).toBe(
+    'Ada, number 5, Out, 1 target, their turn',
+  );
+});
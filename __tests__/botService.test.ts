@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import {
+  dispatch,
+  getValidOperations,
+  initializeGame,
+  listTurnOutcomes,
+} from '../src/services/gameService';
+import { chooseBotOperation, planBotTurn } from '../src/services/botService';
+import { createDieFaces } from '../src/services/diceService';
+import { OPERATIONS } from '../src/services/operationService';
+import { CLASSIC_RULES } from '../src/services/rulesService';
+import { DiceResults, GameState } from '../src/types/gameTypes';
+
+const rolledState = (
+  currentNumber: number,
+  diceResults: DiceResults,
+  targetNumber: number,
+): GameState => {
+  const game = initializeGame(2, [], { seed: 1, bots: ['medium', null] });
+  return {
+    ...game,
+    currentPlayerIndex: 0,
+    targetNumber,
+    diceResults,
+    gamePhase: 'dice-operation',
+    players: game.players.map(p => ({ ...p, currentNumber })),
+  };
+};
+
+test('bot seats get a difficulty and a default name', () => {
+  const game = initializeGame(2, [], { seed: 1, bots: [null, 'hard'] });
+
+  expect(game.players[0].bot).toBeUndefined();
+  expect(game.players[1]).toMatchObject({ bot: 'hard', name: 'Bot Zor' });
+});
+
+test('listTurnOutcomes skips illegal divisions', () => {
+  const outcomes = listTurnOutcomes(7, [5, 2]);
+
+  expect(outcomes.some(o => o.diceOperations.includes('/'))).toBe(false);
+  expect(outcomes.some(o => o.finalOperation === '/' && o.diceCalculationResult === 3)).toBe(false);
+  expect(outcomes).toContainEqual({
+    diceOperations: ['*'],
+    diceCalculationResult: 10,
+    finalOperation: '+',
+    result: 17,
+  });
+});
+
+test('medium bots take the move closest to the target', () => {
+  // 5 + (6 × 6) = 41 is the closest to 40
+  const plan = planBotTurn(rolledState(5, [6, 6], 40), 'medium');
+
+  expect(plan?.result).toBe(41);
+});
+
+test('hard bots take a winning move when there is one', () => {
+  const plan = planBotTurn(rolledState(10, [3, 4], 22), 'hard');
+
+  expect(plan?.result).toBe(22);
+});
+
+test('bots follow their plan through both phases', () => {
+  let game = rolledState(5, [6, 6], 40);
+
+  game = dispatch(game, {
+    type: 'SELECT_DICE_OPERATION',
+    operation: chooseBotOperation(game, 'medium')!,
+  });
+  game = dispatch(game, {
+    type: 'SELECT_FINAL_OPERATION',
+    operation: chooseBotOperation(game, 'medium')!,
+  });
+
+  expect(game.players[0].currentNumber).toBe(41);
+});
+
+test('easy bots only pick valid operations', () => {
+  const game = rolledState(5, [5, 2], 40);
+  const valid = getValidOperations(game);
+
+  for (let i = 0; i < 20; i++) {
+    expect(valid).toContain(chooseBotOperation(game, 'easy'));
+  }
+});
+
+test('hard bots decide quickly with four big dice and every operation', () => {
+  const rules = { ...CLASSIC_RULES, operations: OPERATIONS, dice: { count: 4, faces: createDieFaces(20) } };
+  let game: GameState = {
+    ...initializeGame(2, [], { seed: 9, bots: ['hard', null], rules }),
+    currentPlayerIndex: 0,
+  };
+  game = dispatch(game, { type: 'ROLL_DICE' });
+
+  const started = Date.now();
+  while (game.gamePhase !== 'roll' && !game.winner) {
+    const operation = chooseBotOperation(game, 'hard');
+    expect(operation).not.toBeNull();
+    game = dispatch(game, {
+      type: game.gamePhase === 'dice-operation' ? 'SELECT_DICE_OPERATION' : 'SELECT_FINAL_OPERATION',
+      operation: operation!,
+    });
+  }
+  // Every phase of the turn together, on the JS thread
+  expect(Date.now() - started).toBeLessThan(1000);
+});
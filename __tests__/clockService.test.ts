@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { dispatch, initializeGame } from '../src/services/gameService';
+import { isTimeUp } from '../src/services/clockService';
+import { CLASSIC_RULES } from '../src/services/rulesService';
+import { GameState } from '../src/types/gameTypes';
+
+const SEED = 20240601;
+
+const rolledGame = (timeBank = 0): GameState =>
+  dispatch(
+    initializeGame(2, ['Ada', 'Bora'], {
+      seed: SEED,
+      rules: { ...CLASSIC_RULES, timeBank },
+    }),
+    { type: 'ROLL_DICE' },
+  );
+
+test('each phase starts with its own budget', () => {
+  const game = rolledGame();
+  expect(game.clock.phaseTimeLeft).toBe(CLASSIC_RULES.diceOperationTime * 1000);
+
+  const next = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  expect(next.clock.phaseTimeLeft).toBe(CLASSIC_RULES.finalOperationTime * 1000);
+});
+
+test('ticks count down and stop at zero', () => {
+  let game = dispatch(rolledGame(), { type: 'TICK', elapsed: 2000 });
+  expect(game.clock.phaseTimeLeft).toBe(3000);
+  expect(isTimeUp(game)).toBe(false);
+
+  game = dispatch(game, { type: 'TICK', elapsed: 9000 });
+  expect(game.clock.phaseTimeLeft).toBe(0);
+  expect(isTimeUp(game)).toBe(true);
+});
+
+test('a paused clock does not move and blocks moves', () => {
+  const paused = dispatch(rolledGame(), { type: 'PAUSE_CLOCK' });
+
+  expect(dispatch(paused, { type: 'TICK', elapsed: 2000 })).toBe(paused);
+  expect(() =>
+    dispatch(paused, { type: 'SELECT_DICE_OPERATION', operation: '+' }),
+  ).toThrow();
+
+  const resumed = dispatch(paused, { type: 'RESUME_CLOCK' });
+  expect(dispatch(resumed, { type: 'TICK', elapsed: 2000 }).clock.phaseTimeLeft).toBe(3000);
+});
+
+test('the bank is spent only after the phase budget runs out', () => {
+  let game = rolledGame(10);
+  const player = game.currentPlayerIndex;
+
+  game = dispatch(game, { type: 'TICK', elapsed: 8000 });
+  expect(game.clock.bankTimeLeft?.[player]).toBe(7000);
+  expect(game.clock.bankTimeLeft?.[1 - player]).toBe(10000);
+  expect(isTimeUp(game)).toBe(false);
+
+  game = dispatch(game, { type: 'TICK', elapsed: 7000 });
+  expect(isTimeUp(game)).toBe(true);
+});
+
+test('time up plays exactly one forced operation', () => {
+  const expired = dispatch(rolledGame(), { type: 'TICK', elapsed: 5000 });
+  const forced = dispatch(expired, { type: 'TIME_UP' });
+
+  expect(forced.gamePhase).toBe('final-operation');
+  expect(forced.turnForced).toBe(true);
+  expect(forced.rngState).not.toBe(expired.rngState);
+  expect(dispatch(forced, { type: 'TIME_UP' })).toBe(forced);
+  // Same state, same forced choice
+  expect(dispatch(expired, { type: 'TIME_UP' })).toEqual(forced);
+});
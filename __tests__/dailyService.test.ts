@@ -0,0 +1,118 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createTranslator } from '../src/i18n';
+import { chooseBotOperation } from '../src/services/botService';
+import {
+  DailyResult,
+  createDailyGame,
+  createDailyResult,
+  formatDailySummary,
+  getDailyDateKey,
+  getDailyDice,
+  getDailyStreak,
+  getDateKey,
+  loadDailyHistory,
+  recordDailyResult,
+} from '../src/services/dailyService';
+import { dispatch } from '../src/services/gameService';
+import { findFewestTurns } from '../src/services/solverService';
+import { GameState } from '../src/types/gameTypes';
+
+const result = (date: string, turns = 5): DailyResult => ({
+  date,
+  turns,
+  optimalTurns: 4,
+  turnsLost: [0, 0, 1, 0, 0],
+});
+
+const playTurn = (game: GameState): GameState => {
+  let next = dispatch(game, { type: 'ROLL_DICE' });
+  next = dispatch(next, {
+    type: 'SELECT_DICE_OPERATION',
+    operation: chooseBotOperation(next, 'hard')!,
+  });
+  return dispatch(next, {
+    type: 'SELECT_FINAL_OPERATION',
+    operation: chooseBotOperation(next, 'hard')!,
+  });
+};
+
+test('everyone gets the same target and dice on the same day', () => {
+  const game = createDailyGame('2026-10-18', 'Ada');
+  expect(createDailyGame('2026-10-18', 'Bora').targetNumber).toBe(game.targetNumber);
+  expect(createDailyGame('2026-10-19', 'Ada').seed).not.toBe(game.seed);
+  expect(getDailyDateKey(game, new Date(2026, 9, 19, 0, 5))).toBe('2026-10-18');
+  expect(getDailyDateKey(game, new Date(2026, 9, 21))).toBeNull();
+
+  const dice = getDailyDice(game.seed, 3);
+  let played = game;
+  dice.forEach(roll => {
+    expect(dispatch(played, { type: 'ROLL_DICE' }).diceResults).toEqual(roll);
+    played = playTurn(played);
+  });
+});
+
+test('the result is compared against the fewest turns the rolls allow', () => {
+  expect(findFewestTurns(5, 11, [[3, 3]], ['+'])).toBe(1);
+  expect(findFewestTurns(5, 13, [[1, 1], [3, 3]], ['+'])).toBe(2);
+  expect(findFewestTurns(5, 100, [[1, 1]], ['+'])).toBeNull();
+
+  let game = createDailyGame('2026-10-18', 'Ada');
+  while (!game.winner && game.moves.length < 40) {
+    game = playTurn(game);
+  }
+  const daily = createDailyResult(game, '2026-10-18');
+  expect(daily.turns).toBe(game.moves.length);
+  expect(daily.optimalTurns).not.toBeNull();
+  expect(daily.optimalTurns!).toBeLessThanOrEqual(daily.turns);
+  expect(daily.turnsLost).toHaveLength(game.moves.length);
+
+  const summary = formatDailySummary(createTranslator('en'), daily, 2);
+  expect(summary.split('\n')[0]).toBe('NumClash Daily 2026-10-18');
+  expect(summary).toContain('🔥 2');
+  expect([...summary.split('\n')[2]]).toHaveLength(game.moves.length + 1);
+});
+
+test('the result is scored against the rolls actually played', () => {
+  // A timed-out phase draws from the same stream as the dice, so later rolls
+  // no longer match a fresh read of the day's dice
+  let game = dispatch(createDailyGame('2026-10-18', 'Ada'), { type: 'ROLL_DICE' });
+  game = dispatch(game, { type: 'TICK', elapsed: 60 * 60 * 1000 });
+  game = dispatch(game, { type: 'TIME_UP' });
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  while (!game.winner && game.moves.length < 40) {
+    game = playTurn(game);
+  }
+  expect(game.winner).not.toBeNull();
+  expect(game.moves[1].diceResults).not.toEqual(getDailyDice(game.seed, 2)[1]);
+
+  // Measured against its own rolls no move can beat the best line
+  const { turnsLost } = createDailyResult(game, '2026-10-18');
+  expect(turnsLost.every(lost => lost !== null && lost >= 0)).toBe(true);
+});
+
+test('the streak counts days in a row and only the first try of a day', async () => {
+  const history = {
+    '2026-10-15': result('2026-10-15'),
+    '2026-10-17': result('2026-10-17'),
+    '2026-10-18': result('2026-10-18'),
+  };
+  expect(getDailyStreak(history, '2026-10-18')).toBe(2);
+  expect(getDailyStreak(history, '2026-10-19')).toBe(2);
+  expect(getDailyStreak(history, '2026-10-20')).toBe(0);
+  expect(getDateKey(new Date(2026, 0, 5))).toBe('2026-01-05');
+
+  await AsyncStorage.clear();
+  await recordDailyResult(result('2026-10-18', 7));
+  await recordDailyResult(result('2026-10-18', 4));
+  expect((await loadDailyHistory())['2026-10-18'].turns).toBe(7);
+
+  await AsyncStorage.setItem(
+    '@numclash/dailyHistory',
+    JSON.stringify({ '2026-10-17': { date: '2026-10-17' }, '2026-10-18': result('2026-10-18') }),
+  );
+  expect(Object.keys(await loadDailyHistory())).toEqual(['2026-10-18']);
+});
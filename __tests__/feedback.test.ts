@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Sound from 'react-native-sound';
+import {
+  DEFAULT_FEEDBACK_SETTINGS,
+  DEVICE_PLAYER,
+  FeedbackCue,
+  FeedbackPlayer,
+  HAPTIC_PATTERNS,
+  getStateCues,
+  playCue,
+} from '../src/feedback';
+import { dispatch, initializeGame } from '../src/services/gameService';
+import { loadFeedbackSettings, saveFeedbackSettings } from '../src/services/settingsService';
+import { GameAction, GameState } from '../src/types/gameTypes';
+
+const createMockPlayer = (): jest.Mocked<FeedbackPlayer> => ({
+  playSound: jest.fn(),
+  vibrate: jest.fn(),
+});
+
+// Dispatches the action and returns the cues the move produced
+const step = (game: GameState, action: GameAction): [GameState, FeedbackCue[]] => {
+  const next = dispatch(game, action);
+  return [next, getStateCues(game, next)];
+};
+
+test('each game event fires its own cue', () => {
+  let game: GameState = {
+    ...initializeGame(2, ['Ada', 'Bora'], { seed: 5 }),
+    targetNumber: 17,
+  };
+  let cues: FeedbackCue[];
+
+  [game, cues] = step(game, { type: 'ROLL_DICE' });
+  expect(cues).toEqual(['land']);
+  [game, cues] = step(game, { type: 'TICK', elapsed: 1000 });
+  expect(cues).toEqual([]);
+  [game, cues] = step(game, { type: 'TICK', elapsed: 1000 });
+  expect(cues).toEqual(['tick']);
+
+  game = { ...game, diceResults: [6, 6] };
+  [game, cues] = step(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  expect(cues).toEqual(['operation']);
+  [game, cues] = step(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  expect(cues).toEqual(['operation', 'win']);
+});
+
+test('the device player loads each sound once and plays it at the chosen volume', async () => {
+  DEVICE_PLAYER.playSound('tick', 0.5);
+  await Promise.resolve();
+  DEVICE_PLAYER.playSound('tick', 0.25);
+
+  const SoundMock = Sound as unknown as jest.Mock;
+  expect(SoundMock).toHaveBeenCalledTimes(1);
+  const sound = SoundMock.mock.results[0].value;
+  expect(sound.setVolume.mock.calls).toEqual([[0.5], [0.25]]);
+  expect(sound.play).toHaveBeenCalledTimes(2);
+});
+
+test('cues respect the volume and mute settings', () => {
+  const player = createMockPlayer();
+
+  playCue('roll', { volume: 0.5, muted: false }, player);
+  expect(player.playSound).toHaveBeenCalledWith('roll', 0.5);
+  expect(player.vibrate).toHaveBeenCalledWith(HAPTIC_PATTERNS.roll);
+
+  playCue('win', { volume: 0, muted: false }, player);
+  expect(player.playSound).toHaveBeenCalledTimes(1);
+  expect(player.vibrate).toHaveBeenCalledTimes(2);
+
+  playCue('invalid', { volume: 1, muted: true }, player);
+  expect(player.playSound).toHaveBeenCalledTimes(1);
+  expect(player.vibrate).toHaveBeenCalledTimes(2);
+});
+
+test('sound settings are saved between launches', async () => {
+  await AsyncStorage.clear();
+  expect(await loadFeedbackSettings()).toEqual(DEFAULT_FEEDBACK_SETTINGS);
+  await saveFeedbackSettings({ volume: 0.25, muted: true });
+  expect(await loadFeedbackSettings()).toEqual({ volume: 0.25, muted: true });
+  await AsyncStorage.setItem('@numclash/feedback', '{"volume":3}');
+  expect(await loadFeedbackSettings()).toEqual(DEFAULT_FEEDBACK_SETTINGS);
+});
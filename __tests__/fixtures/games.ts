@@ -0,0 +1,37 @@
+import { dispatch, initializeGame } from '../../src/services/gameService';
+import { CLASSIC_RULES } from '../../src/services/rulesService';
+import { DiceResults, GameState, WinCondition } from '../../src/types/gameTypes';
+
+export const NAMES = ['Ada', 'Bora', 'Cem', 'Deniz'];
+
+// Classic rules with the given win condition, Ada to move and 20 as the target
+export const gameWith = (
+  winCondition: WinCondition,
+  playerCount = 2,
+  overrides: Partial<GameState> = {},
+  teams = false,
+): GameState => ({
+  ...initializeGame(playerCount, NAMES.slice(0, playerCount), {
+    seed: 11,
+    rules: { ...CLASSIC_RULES, winCondition },
+    teams,
+  }),
+  currentPlayerIndex: 0,
+  targetNumber: 20,
+  ...overrides,
+});
+
+// Ada and Cem against Bora and Deniz
+export const teamGame = (
+  winCondition: WinCondition = { type: 'exact' },
+  overrides: Partial<GameState> = {},
+): GameState => gameWith(winCondition, 4, overrides, true);
+
+// Plays dice [a, b] as a + b, then adds the result to the current number
+export const playAdd = (game: GameState, diceResults: DiceResults): GameState => {
+  const next = dispatch({ ...game, diceResults, gamePhase: 'dice-operation' }, {
+    type: 'SELECT_DICE_OPERATION',
+    operation: '+',
+  });
+  return dispatch(next, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+};
@@ -0,0 +1,62 @@
+// The app itself talks over TCP (see tcpConnection); the tests also run the
+// sessions over WebSockets to show they do not depend on one transport
+
+import { PeerConnection } from '../../src/services/multiplayerProtocol';
+
+const WEB_SOCKET_OPEN = 1;
+
+// Written as a method so its parameter is checked both ways, which lets the
+// event types of React Native, browsers and `ws` all fit
+type SocketHandler<E> = { handle(event: E): void }['handle'];
+
+// The part of the WebSocket API shared by React Native, browsers and the `ws` package
+export interface WebSocketLike {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  onopen: SocketHandler<unknown> | null;
+  onmessage: SocketHandler<{ data?: unknown }> | null;
+  onclose: SocketHandler<unknown> | null;
+}
+
+// Messages sent before the socket opens are queued instead of throwing
+export const wrapWebSocket = (socket: WebSocketLike): PeerConnection => {
+  const messageHandlers: ((data: string) => void)[] = [];
+  const closeHandlers: (() => void)[] = [];
+  const pending: string[] = [];
+
+  socket.onopen = () => {
+    pending.splice(0).forEach(data => socket.send(data));
+  };
+  socket.onmessage = event => {
+    messageHandlers.forEach(handler => handler(String(event.data)));
+  };
+  socket.onclose = () => {
+    closeHandlers.forEach(handler => handler());
+  };
+
+  return {
+    send: data => {
+      if (socket.readyState === WEB_SOCKET_OPEN) {
+        socket.send(data);
+      } else {
+        pending.push(data);
+      }
+    },
+    close: () => socket.close(),
+    onMessage: handler => {
+      messageHandlers.push(handler);
+    },
+    onClose: handler => {
+      closeHandlers.push(handler);
+    },
+  };
+};
+
+export const connectToHost = (
+  host: string,
+  port: number,
+  createSocket: (url: string) => WebSocketLike = url => new WebSocket(url),
+): PeerConnection => {
+  return wrapWebSocket(createSocket(`ws://${host}:${port}`));
+};
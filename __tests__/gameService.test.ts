@@ -0,0 +1,277 @@
+/**
+ * @format
+ */
+
+import {
+  applyOperation,
+  canApplyOperation,
+  canUseFinalOperation,
+  dispatch,
+  formatDiceChain,
+  formatMoveEquation,
+  getDiceOperands,
+  getOperationPreviews,
+  getValidOperations,
+  initializeGame,
+} from '../src/services/gameService';
+import { createTranslator, formatOperationPreview } from '../src/i18n';
+import { GameError } from '../src/services/gameError';
+import { BLITZ_RULES, CLASSIC_RULES, MARATHON_RULES, validateRules } from '../src/services/rulesService';
+import { DiceResults, GameState, Operation, WinCondition } from '../src/types/gameTypes';
+
+const SEED = 20240601;
+
+const playingState = (overrides: Partial<GameState> = {}): GameState => ({
+  ...initializeGame(2, ['Ada', 'Bora'], { seed: SEED }),
+  currentPlayerIndex: 0,
+  ...overrides,
+});
+
+// Skips the roll so tests can pick the dice
+const rolledState = (
+  diceResults: DiceResults,
+  overrides: Partial<GameState> = {},
+): GameState =>
+  playingState({ diceResults, gamePhase: 'dice-operation', ...overrides });
+
+const playTurn = (game: GameState): GameState => {
+  let next = dispatch(game, { type: 'ROLL_DICE' });
+  next = dispatch(next, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  return dispatch(next, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+};
+
+test('initializeGame creates players with the starting number', () => {
+  const game = initializeGame(3, ['Ada', ' ', 'Cem'], { seed: SEED });
+
+  expect(game.players.map(p => p.name)).toEqual(['Ada', 'Oyuncu 2', 'Cem']);
+  expect(game.players.every(p => p.currentNumber === CLASSIC_RULES.initialNumber)).toBe(true);
+  expect(game.seed).toBe(SEED);
+  expect(game.rules).toBe(CLASSIC_RULES);
+  expect(game.gamePhase).toBe('roll');
+});
+
+test('the selected rules decide the start and the target range', () => {
+  const rules = { ...BLITZ_RULES, initialNumber: 9, minTarget: 30, maxTarget: 30 };
+  const game = initializeGame(2, [], { seed: SEED, rules });
+
+  expect(game.rules).toBe(rules);
+  expect(game.targetNumber).toBe(30);
+  expect(game.players[0].currentNumber).toBe(9);
+});
+
+test('the same seed and moves reproduce the same game', () => {
+  let first = initializeGame(2, [], { seed: SEED });
+  let second = initializeGame(2, [], { seed: SEED });
+  expect(second).toEqual(first);
+
+  for (let turn = 0; turn < 5; turn++) {
+    first = playTurn(first);
+    second = playTurn(second);
+  }
+  expect(second).toEqual(first);
+  expect(initializeGame(2, [], { seed: SEED + 1 })).not.toEqual(initializeGame(2, [], { seed: SEED }));
+});
+
+test('rolling advances the stored generator state', () => {
+  const game = playingState();
+  const rolled = dispatch(game, { type: 'ROLL_DICE' });
+
+  expect(rolled.rngState).not.toBe(game.rngState);
+  expect(rolled.seed).toBe(game.seed);
+  rolled.diceResults!.forEach(value => {
+    expect(value).toBeGreaterThanOrEqual(1);
+    expect(value).toBeLessThanOrEqual(6);
+  });
+});
+
+test('engine errors carry a code instead of a message', () => {
+  expect(() => applyOperation(6, 0, '/')).toThrow(GameError);
+  expect(() => applyOperation(7, 2, '/')).toThrow(new GameError('INEXACT_DIVISION'));
+});
+
+test('applyOperation only allows whole division', () => {
+  expect(applyOperation(6, 3, '/')).toBe(2);
+  expect(() => applyOperation(5, 2, '/')).toThrow();
+  expect(() => applyOperation(5, 0, '/')).toThrow();
+});
+
+test('subtraction keeps the sign and the extra operations follow their checks', () => {
+  expect(applyOperation(2, 6, '-')).toBe(-4);
+  expect(applyOperation(2, 5, '^')).toBe(32);
+  expect(applyOperation(-7, 3, '%')).toBe(-1);
+  expect(applyOperation(12, 5, '||')).toBe(125);
+  expect(() => applyOperation(2, -1, '^')).toThrow(new GameError('NEGATIVE_OPERAND'));
+  expect(() => applyOperation(10, 60, '^')).toThrow(new GameError('RESULT_TOO_LARGE'));
+  expect(() => applyOperation(4, 0, '%')).toThrow(new GameError('DIVISION_BY_ZERO'));
+});
+
+test('no operation can leave the safe integer range', () => {
+  const large = 2 ** 52;
+  expect(canApplyOperation(large, 36, '*')).toBe(false);
+  expect(() => applyOperation(Number.MAX_SAFE_INTEGER, 1, '+')).toThrow(
+    new GameError('RESULT_TOO_LARGE'),
+  );
+  expect(() => applyOperation(-Number.MAX_SAFE_INTEGER, 1, '-')).toThrow(
+    new GameError('RESULT_TOO_LARGE'),
+  );
+  expect(applyOperation(large, 1, '*')).toBe(large);
+});
+
+test('only the operations of the rule set can be played', () => {
+  const game = rolledState([3, 2]);
+  expect(getValidOperations(game)).not.toContain('^');
+  expect(() => dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '^' })).toThrow(
+    new GameError('OPERATION_DISABLED'),
+  );
+
+  const marathon = rolledState([3, 2], { rules: MARATHON_RULES });
+  expect(getValidOperations(marathon)).toEqual(['+', '-', '*', '^', '%', '||']);
+  expect(validateRules({ ...CLASSIC_RULES, operations: ['/', '%'] })).toBe('INVALID_OPERATIONS');
+});
+
+test('dice rules allow 2 to 4 dice with distinct faces', () => {
+  const withDice = (count: number, faces: number[]) => ({ ...CLASSIC_RULES, dice: { count, faces } });
+
+  expect(validateRules(withDice(4, [0, 1, 2, 3, 5, 8]))).toBeNull();
+  expect(validateRules(withDice(5, [1, 2, 3]))).toBe('INVALID_DICE');
+  expect(validateRules(withDice(2, [1]))).toBe('INVALID_DICE');
+  expect(validateRules(withDice(2, [1, 1, 2]))).toBe('INVALID_DICE');
+  expect(validateRules(withDice(2, [1, NaN]))).toBe('INVALID_DICE');
+});
+
+test('only known win conditions with valid settings are accepted', () => {
+  const withWinCondition = (winCondition: unknown) => ({
+    ...CLASSIC_RULES,
+    winCondition: winCondition as WinCondition,
+  });
+
+  expect(validateRules(withWinCondition({ type: 'bust' }))).toBeNull();
+  expect(validateRules(withWinCondition({ type: 'closest', rounds: 0 }))).toBe('INVALID_WIN_CONDITION');
+  expect(validateRules(withWinCondition({ type: 'sudden-death' }))).toBe('INVALID_WIN_CONDITION');
+});
+
+test('dispatch plays a full turn and passes to the next player', () => {
+  let game = rolledState([4, 2]);
+  expect(getValidOperations(game)).toEqual(['+', '-', '*', '/']);
+
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '*' });
+  expect(game.diceCalculationResult).toBe(8);
+  expect(canUseFinalOperation(game, '/')).toBe(false);
+
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  expect(game.players[0].currentNumber).toBe(13);
+  expect(game.currentPlayerIndex).toBe(1);
+  expect(game.gamePhase).toBe('roll');
+});
+
+test('a zero dice result can still be used', () => {
+  let game = rolledState([4, 4]);
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '-' });
+  expect(game.diceCalculationResult).toBe(0);
+
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '*' });
+  expect(game.players[0].currentNumber).toBe(0);
+});
+
+test('reaching the target ends the game', () => {
+  let game = rolledState([4, 2], { targetNumber: 11 });
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+
+  expect(game.winner?.name).toBe('Ada');
+  expect(() => dispatch(game, { type: 'ROLL_DICE' })).toThrow();
+});
+
+test('each completed turn is appended to the move log', () => {
+  let game = rolledState([3, 4], {
+    players: playingState().players.map(p => ({ ...p, currentNumber: 17 })),
+  });
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '*' });
+  game = dispatch(game, {
+    type: 'SELECT_FINAL_OPERATION',
+    operation: '+',
+    forced: true,
+  });
+
+  expect(game.moves).toHaveLength(1);
+  expect(game.moves[0]).toMatchObject({
+    turn: 1,
+    playerId: 1,
+    diceResults: [3, 4],
+    diceOperations: ['*'],
+    previousNumber: 17,
+    newNumber: 29,
+    forced: true,
+  });
+  expect(formatMoveEquation(game.moves[0])).toBe('3 × 4 = 12 → 17 + 12 = 29');
+  expect(game.turnForced).toBe(false);
+});
+
+test('a turn with no playable operation is skipped when the clock runs out', () => {
+  const rules = { ...CLASSIC_RULES, operations: ['+', '*'] as Operation[] };
+  let game = rolledState([2, 3], {
+    rules,
+    players: playingState().players.map(p => ({ ...p, currentNumber: Number.MAX_SAFE_INTEGER })),
+  });
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  expect(getValidOperations(game)).toEqual([]);
+
+  game = dispatch(game, { type: 'TICK', elapsed: 60 * 60 * 1000 });
+  game = dispatch(game, { type: 'TIME_UP' });
+
+  expect(game.gamePhase).toBe('roll');
+  expect(game.currentPlayerIndex).toBe(1);
+  expect(game.players[0].currentNumber).toBe(Number.MAX_SAFE_INTEGER);
+  expect(game.moves).toHaveLength(1);
+  expect(game.moves[0]).toMatchObject({ finalOperation: null, forced: true });
+  expect(formatMoveEquation(game.moves[0])).toBe(
+    `2 + 3 = 5 → ${Number.MAX_SAFE_INTEGER} ⏭`,
+  );
+});
+
+test('three dice are combined by a chain of two dice operations', () => {
+  const rules = { ...CLASSIC_RULES, dice: { count: 3, faces: [1, 2, 3, 4, 5, 6] } };
+  let game = rolledState([3, 4, 2], { rules });
+  expect(getDiceOperands(game)).toEqual([3, 4]);
+
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  expect(game.gamePhase).toBe('dice-operation');
+  expect(game.diceCalculationResult).toBe(7);
+  expect(getDiceOperands(game)).toEqual([7, 2]);
+
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '*' });
+  expect(game.gamePhase).toBe('final-operation');
+  expect(game.diceCalculationResult).toBe(14);
+  expect(formatDiceChain([3, 4, 2], game.diceOperations)).toBe('(3 + 4) × 2');
+
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  expect(game.moves[0].diceOperations).toEqual(['+', '*']);
+  expect(game.diceOperations).toEqual([]);
+  expect(formatMoveEquation(game.moves[0])).toBe('(3 + 4) × 2 = 14 → 5 + 14 = 19');
+});
+
+test('actions out of phase are rejected', () => {
+  const game = playingState();
+  expect(() =>
+    dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' }),
+  ).toThrow();
+});
+
+test('operation previews show every result and why the rest cannot be played', () => {
+  const t = createTranslator('en');
+  const game = rolledState([3, 2]);
+  const previews = getOperationPreviews(game);
+  expect(previews.map(preview => preview.operation)).toEqual(game.rules.operations);
+  expect(previews.map(preview => formatOperationPreview(t, preview))).toEqual([
+    '3 + 2 → 5',
+    '3 − 2 → 1',
+    '3 × 2 → 6',
+    '3 ÷ 2 → not whole',
+  ]);
+  expect(previews.filter(preview => preview.error === null).map(preview => preview.operation))
+    .toEqual(getValidOperations(game));
+
+  const final = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '-' });
+  expect(getOperationPreviews(final)[3]).toMatchObject({ number1: 5, number2: 1, result: 5 });
+  expect(getOperationPreviews(playingState())).toEqual([]);
+});
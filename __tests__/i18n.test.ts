@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createTranslator,
+  getDefaultPlayerName,
+  getErrorMessage,
+  interpolate,
+  translate,
+} from '../src/i18n';
+import { en } from '../src/i18n/en';
+import { tr } from '../src/i18n/tr';
+import { GameError } from '../src/services/gameError';
+import { loadLanguage, saveLanguage } from '../src/services/settingsService';
+
+test('both catalogs translate the same keys', () => {
+  expect(Object.keys(en).sort()).toEqual(Object.keys(tr).sort());
+});
+
+test('messages are interpolated in the chosen language', () => {
+  expect(translate('tr', 'game.winnerMessage', { name: 'Ada' })).toBe('Ada oyunu kazandı!');
+  expect(translate('en', 'game.winnerMessage', { name: 'Ada' })).toBe('Ada won the game!');
+  expect(interpolate('{a} + {b}', { a: 1 })).toBe('1 + {b}');
+});
+
+test('plural messages follow the count', () => {
+  expect(translate('en', 'history.turnsLost', { count: 1 })).toBe('+1 turn');
+  expect(translate('en', 'history.turnsLost', { count: 3 })).toBe('+3 turns');
+  expect(translate('tr', 'history.turnsLost', { count: 3 })).toBe('+3 tur');
+});
+
+test('unnamed seats are named in the chosen language', () => {
+  const t = createTranslator('en');
+  expect(getDefaultPlayerName(t, 1)).toBe('Player 2');
+  expect(getDefaultPlayerName(t, 1, 'hard')).toBe('Hard Bot');
+  expect(getDefaultPlayerName(createTranslator('tr'), 0, null)).toBe('Oyuncu 1');
+});
+
+test('engine errors are translated by code', () => {
+  const t = createTranslator('en');
+  expect(getErrorMessage(t, new GameError('DIVISION_BY_ZERO'))).toBe('Cannot divide by zero!');
+  expect(getErrorMessage(t, new Error('boom'))).toBe(t('errors.unknown'));
+});
+
+test('the chosen language is remembered', async () => {
+  await AsyncStorage.clear();
+  expect(await loadLanguage()).toBeNull();
+
+  await saveLanguage('en');
+  expect(await loadLanguage()).toBe('en');
+});
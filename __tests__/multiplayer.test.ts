@@ -0,0 +1,282 @@
+/**
+ * @format
+ */
+
+import net from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { initializeGame } from '../src/services/gameService';
+import { createClientSession } from '../src/services/clientService';
+import { HostSession, SEAT_RELEASE_DELAY, createHostSession } from '../src/services/hostService';
+import {
+  HostMessage,
+  PeerConnection,
+  RejectReason,
+  applyPatch,
+  diffState,
+  parseClientMessage,
+} from '../src/services/multiplayerProtocol';
+import { connectToLanHost, startLanServer } from '../src/services/tcpConnection';
+import { GameState } from '../src/types/gameTypes';
+import { connectToHost, wrapWebSocket } from './fixtures/webSocketConnection';
+
+const hostGame = (overrides: Partial<GameState> = {}): GameState => ({
+  ...initializeGame(2, ['Ada', 'Bora'], { seed: 99 }),
+  currentPlayerIndex: 0,
+  ...overrides,
+});
+
+// Two in-memory connection ends, delivering synchronously
+const createPipe = (): [PeerConnection, PeerConnection] => {
+  const handlers: ((data: string) => void)[][] = [[], []];
+  const closeHandlers: (() => void)[][] = [[], []];
+  const end = (self: number, other: number): PeerConnection => ({
+    send: data => handlers[other].forEach(handler => handler(data)),
+    close: () => closeHandlers.forEach(list => list.forEach(handler => handler())),
+    onMessage: handler => {
+      handlers[self].push(handler);
+    },
+    onClose: handler => {
+      closeHandlers[self].push(handler);
+    },
+  });
+  return [end(0, 1), end(1, 0)];
+};
+
+const playHostTurn = (host: HostSession) => {
+  host.dispatchLocal({ type: 'ROLL_DICE' });
+  host.dispatchLocal({ type: 'SELECT_DICE_OPERATION', operation: '+' });
+  host.dispatchLocal({ type: 'SELECT_FINAL_OPERATION', operation: '+' });
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+test('patches only carry what changed and rebuild the same state', () => {
+  const before = hostGame();
+  const after = { ...before, currentPlayerIndex: 1, moves: [] };
+  const patch = diffState(before, after, 1);
+
+  expect(Object.keys(patch.changes)).toEqual(['currentPlayerIndex']);
+  expect(applyPatch(before, patch)).toEqual(after);
+  expect(applyPatch(null, diffState(null, after, 1))).toEqual(after);
+});
+
+test('the host rejects moves out of turn and illegal operations', () => {
+  const host = createHostSession(
+    hostGame({ currentPlayerIndex: 1, diceResults: [4, 3], gamePhase: 'dice-operation' }),
+  );
+  const [hostEnd, clientEnd] = createPipe();
+  host.addConnection(hostEnd);
+
+  const rejections: RejectReason[] = [];
+  const client = createClientSession(clientEnd, { onRejected: reason => rejections.push(reason) });
+  expect(client.getPlayerId()).toBe(2);
+
+  client.sendIntent({ type: 'SELECT_DICE_OPERATION', operation: '/' });
+  expect(rejections).toEqual(['INEXACT_DIVISION']);
+
+  client.sendIntent({ type: 'SELECT_DICE_OPERATION', operation: '+' });
+  expect(host.getState().diceCalculationResult).toBe(7);
+  expect(client.getState()).toEqual(host.getState());
+
+  client.sendIntent({ type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  client.sendIntent({ type: 'ROLL_DICE' });
+  expect(rejections).toEqual(['INEXACT_DIVISION', 'NOT_YOUR_TURN']);
+});
+
+test('clients cannot force moves or join a full table', () => {
+  const host = createHostSession(hostGame({ currentPlayerIndex: 1 }));
+  const [hostEnd, clientEnd] = createPipe();
+  host.addConnection(hostEnd);
+  createClientSession(clientEnd);
+
+  clientEnd.send(
+    JSON.stringify({ type: 'INTENT', action: { type: 'ROLL_DICE', forced: true } }),
+  );
+  expect(host.getState().gamePhase).toBe('dice-operation');
+  expect(host.getState().turnForced).toBe(false);
+
+  expect(
+    parseClientMessage(
+      JSON.stringify({ type: 'INTENT', action: { type: 'SELECT_DICE_OPERATION', operation: '√' } }),
+    ),
+  ).toBeNull();
+  expect(parseClientMessage('[1, 2]')).toBeNull();
+
+  const [secondHostEnd, secondClientEnd] = createPipe();
+  host.addConnection(secondHostEnd);
+  const rejections: RejectReason[] = [];
+  createClientSession(secondClientEnd, { onRejected: reason => rejections.push(reason) });
+  expect(rejections).toEqual(['NO_FREE_SEAT']);
+});
+
+test('a connection that already has a seat cannot take another', () => {
+  const host = createHostSession(initializeGame(3, ['Ada', 'Bora', 'Cem'], { seed: 99 }));
+  const [hostEnd, clientEnd] = createPipe();
+  host.addConnection(hostEnd);
+  const rejections: RejectReason[] = [];
+  const client = createClientSession(clientEnd, { onRejected: reason => rejections.push(reason) });
+
+  clientEnd.send(JSON.stringify({ type: 'JOIN' }));
+  expect(rejections).toEqual(['ALREADY_SEATED']);
+  expect(client.getPlayerId()).toBe(2);
+
+  const [secondHostEnd, secondClientEnd] = createPipe();
+  host.addConnection(secondHostEnd);
+  expect(createClientSession(secondClientEnd).getPlayerId()).toBe(3);
+});
+
+test('a reconnecting client only receives the moves it missed', () => {
+  const seatChanges: number[][] = [];
+  const host = createHostSession(hostGame(), { onSeatsChange: seats => seatChanges.push(seats) });
+  const [hostEnd, clientEnd] = createPipe();
+  host.addConnection(hostEnd);
+  const client = createClientSession(clientEnd);
+
+  playHostTurn(host);
+  expect(client.getState()?.moves).toHaveLength(1);
+
+  hostEnd.close();
+  expect(host.getConnectedSeats()).toEqual([]);
+
+  // The game goes on while the client is away
+  host.dispatchLocal({ type: 'ROLL_DICE' });
+  host.dispatchLocal({ type: 'SELECT_DICE_OPERATION', operation: '+' });
+  host.dispatchLocal({ type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  playHostTurn(host);
+
+  const [newHostEnd, newClientEnd] = createPipe();
+  const received: HostMessage[] = [];
+  newClientEnd.onMessage(data => received.push(JSON.parse(data)));
+  host.addConnection(newHostEnd);
+  client.reconnect(newClientEnd);
+
+  const welcome = received[0];
+  expect(welcome.type).toBe('WELCOME');
+  expect(welcome.type === 'WELCOME' && welcome.patch.newMoves).toHaveLength(2);
+  expect(client.getState()).toEqual(host.getState());
+  expect(host.getConnectedSeats()).toEqual([1]);
+  expect(seatChanges).toEqual([[1], [], [1]]);
+
+  host.close();
+  expect(host.getConnectedSeats()).toEqual([]);
+});
+
+test('a seat left empty for too long goes to the next client', () => {
+  jest.useFakeTimers();
+  try {
+    const host = createHostSession(hostGame());
+    const [hostEnd, clientEnd] = createPipe();
+    host.addConnection(hostEnd);
+    const client = createClientSession(clientEnd);
+    hostEnd.close();
+
+    // Still held for the dropped client a moment later
+    jest.advanceTimersByTime(SEAT_RELEASE_DELAY - 1);
+    const [waitingHostEnd, waitingClientEnd] = createPipe();
+    host.addConnection(waitingHostEnd);
+    const rejections: RejectReason[] = [];
+    createClientSession(waitingClientEnd, { onRejected: reason => rejections.push(reason) });
+    expect(rejections).toEqual(['NO_FREE_SEAT']);
+
+    // After the delay the seat is free for anyone, including a restarted client
+    jest.advanceTimersByTime(1);
+    const [newHostEnd, newClientEnd] = createPipe();
+    host.addConnection(newHostEnd);
+    expect(createClientSession(newClientEnd).getPlayerId()).toBe(2);
+
+    const [oldHostEnd, oldClientEnd] = createPipe();
+    host.addConnection(oldHostEnd);
+    const oldRejections: RejectReason[] = [];
+    oldClientEnd.onMessage(data => oldRejections.push(JSON.parse(data).reason));
+    client.reconnect(oldClientEnd);
+    expect(oldRejections).toEqual(['UNKNOWN_TOKEN', 'NO_FREE_SEAT']);
+    expect(client.getPlayerId()).toBeNull();
+    host.close();
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+test('a game can be played over a local WebSocket server', async () => {
+  const host = createHostSession(hostGame());
+  const server = await new Promise<WebSocketServer>(resolve => {
+    const started: WebSocketServer = new WebSocketServer({ port: 0 }, () => resolve(started));
+  });
+  server.on('connection', socket => host.addConnection(wrapWebSocket(socket)));
+  const { port } = server.address() as { port: number };
+
+  const sockets: WebSocket[] = [];
+  const openSocket = (url: string) => {
+    const socket = new WebSocket(url);
+    sockets.push(socket);
+    return socket;
+  };
+
+  try {
+    const client = createClientSession(connectToHost('127.0.0.1', port, openSocket));
+    await waitFor(() => client.getPlayerId() === 2);
+
+    playHostTurn(host);
+    await waitFor(() => client.isMyTurn());
+
+    client.sendIntent({ type: 'ROLL_DICE' });
+    await waitFor(() => host.getState().gamePhase === 'dice-operation');
+
+    // Drop the socket, then resync on a new one
+    sockets[0].terminate();
+    await waitFor(() => host.getConnectedSeats().length === 0);
+    host.dispatchLocal({ type: 'TICK', elapsed: 1000 });
+
+    client.reconnect(connectToHost('127.0.0.1', port, openSocket));
+    await waitFor(() => host.getConnectedSeats().length === 1);
+    await waitFor(() => client.getState()?.clock.phaseTimeLeft === host.getState().clock.phaseTimeLeft);
+    expect(client.getState()).toEqual(host.getState());
+  } finally {
+    host.close();
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+test('devices play over TCP with one message per line', async () => {
+  const host = createHostSession(hostGame());
+  const server = await startLanServer(connection => host.addConnection(connection), 0, onSocket =>
+    net.createServer(onSocket),
+  );
+
+  const sockets: net.Socket[] = [];
+  const openSocket = (options: { host: string; port: number }) => {
+    const socket = net.createConnection(options);
+    sockets.push(socket);
+    return socket;
+  };
+
+  try {
+    const client = createClientSession(connectToLanHost('127.0.0.1', server.port, openSocket));
+    await waitFor(() => client.getPlayerId() === 2);
+
+    // Several patches in a row arrive in one chunk and are split again
+    playHostTurn(host);
+    await waitFor(() => client.isMyTurn());
+    expect(client.getState()).toEqual(host.getState());
+
+    client.sendIntent({ type: 'ROLL_DICE' });
+    await waitFor(() => host.getState().gamePhase === 'dice-operation');
+
+    sockets[0].destroy();
+    await waitFor(() => host.getConnectedSeats().length === 0);
+    client.reconnect(connectToLanHost('127.0.0.1', server.port, openSocket));
+    await waitFor(() => host.getConnectedSeats().length === 1);
+    await waitFor(() => client.getState()?.gamePhase === 'dice-operation');
+    expect(client.getState()).toEqual(host.getState());
+  } finally {
+    host.close();
+    sockets.forEach(socket => socket.destroy());
+    server.close();
+  }
+});
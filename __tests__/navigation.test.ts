@@ -0,0 +1,61 @@
+/**
+ * @format
+ */
+
+import {
+  INITIAL_NAVIGATION_STATE,
+  NavigationAction,
+  NavigationState,
+  canGoBack,
+  createJoinLink,
+  getCurrentEntry,
+  navigationReducer,
+  parseDeepLink,
+} from '../src/navigation';
+import { initializeGame } from '../src/services/gameService';
+import { CLASSIC_RULES } from '../src/services/rulesService';
+import { decodeGame, encodeGame } from '../src/services/shareService';
+
+const run = (...actions: NavigationAction[]): NavigationState => {
+  return actions.reduce(navigationReducer, INITIAL_NAVIGATION_STATE);
+};
+
+const routeNames = (state: NavigationState) => state.entries.map(entry => entry.route.name);
+
+test('the stack keeps home at the bottom and back skips replaced screens', () => {
+  const game = initializeGame(2, ['Ada', 'Bora'], { seed: 1 });
+  const state = run(
+    { type: 'PUSH', route: { name: 'setup', playerCount: 2 } },
+    { type: 'REPLACE', route: { name: 'game', playerCount: 2, rules: CLASSIC_RULES, initialGame: null } },
+    { type: 'REPLACE', route: { name: 'results', game } },
+  );
+  expect(routeNames(state)).toEqual(['home', 'results']);
+  expect(canGoBack(state)).toBe(true);
+
+  const home = navigationReducer(state, { type: 'POP' });
+  expect(routeNames(home)).toEqual(['home']);
+  expect(canGoBack(home)).toBe(false);
+  expect(navigationReducer(home, { type: 'POP' })).toBe(home);
+});
+
+test('every opened screen gets a new key, even over one of the same kind', () => {
+  const route = { name: 'game', playerCount: 2, rules: CLASSIC_RULES, initialGame: null } as const;
+  const first = run({ type: 'PUSH', route: { name: 'settings' } }, { type: 'RESET', route });
+  const second = navigationReducer(first, { type: 'RESET', route });
+  expect(routeNames(second)).toEqual(['home', 'game']);
+  expect(getCurrentEntry(second).key).not.toBe(getCurrentEntry(first).key);
+  expect(routeNames(navigationReducer(second, { type: 'RESET', route: { name: 'home' } }))).toEqual(['home']);
+});
+
+test('deep links open a shared game or the daily challenge', () => {
+  const code = encodeGame(initializeGame(2, ['Ada', 'Bora'], { seed: 42 }));
+  const link = parseDeepLink(createJoinLink(code));
+  expect(link).toEqual({ type: 'join', code });
+  expect(link?.type === 'join' && decodeGame(link.code).seed).toBe(42);
+
+  expect(parseDeepLink('numclash://daily')).toEqual({ type: 'daily' });
+  expect(parseDeepLink('numclash://daily/?ref=share')).toEqual({ type: 'daily' });
+  expect(parseDeepLink('numclash://join/')).toBeNull();
+  expect(parseDeepLink('numclash://settings')).toBeNull();
+  expect(parseDeepLink('https://example.com/join/abc')).toBeNull();
+});
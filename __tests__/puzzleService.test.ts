@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { dispatch } from '../src/services/gameService';
+import {
+  PUZZLE_PACKS,
+  createPuzzleGame,
+  getGeneratedLevel,
+  getPuzzleStars,
+  getPuzzleStatus,
+  isLevelUnlocked,
+  loadPuzzleProgress,
+  parsePuzzleLevel,
+  parsePuzzlePack,
+  recordPuzzleResult,
+} from '../src/services/puzzleService';
+import { findFewestTurns } from '../src/services/solverService';
+
+test('bundled levels parse and can all be solved with their rolls', () => {
+  expect(PUZZLE_PACKS.map(pack => pack.id)).toContain('basics');
+  PUZZLE_PACKS.forEach(pack => {
+    pack.levels.forEach(level => {
+      expect(level.par).toBeLessThanOrEqual(level.dice.length);
+    });
+  });
+
+  expect(parsePuzzleLevel({ id: 'easy', start: 5, target: 11, dice: [[3, 3]] })?.par).toBe(1);
+  expect(parsePuzzleLevel({ id: 'far', start: 5, target: 100, dice: [[1, 1]] })).toBeNull();
+  expect(parsePuzzleLevel({ id: 'bad', start: 5, target: 11, dice: [[3, 7]] })).toBeNull();
+  expect(parsePuzzleLevel({ id: 'ops', start: 5, target: 11, dice: [[3, 3]], operations: [] })).toBeNull();
+  expect(parsePuzzleLevel({ id: 'ops', start: 5, target: 11, dice: [[3, 3]], operations: ['+', '?'] })).toBeNull();
+  expect(parsePuzzleLevel({ id: 'ops', start: 5, target: 11, dice: [[3, 3]], operations: '+' })).toBeNull();
+  expect(parsePuzzleLevel([5, 11])).toBeNull();
+
+  const pack = parsePuzzlePack({
+    id: 'pack',
+    name: { en: 'Pack', de: 'Paket', tr: 7 },
+    levels: [{ id: 'easy', start: 5, target: 11, dice: [[3, 3]] }],
+  });
+  expect(pack?.name).toEqual({ en: 'Pack' });
+  expect(parsePuzzlePack({ id: 'pack', levels: [{ id: 'bad' }] })).toBeNull();
+});
+
+test('generated levels are the same every time and need exactly their turn count', () => {
+  const level = getGeneratedLevel(12);
+  expect(getGeneratedLevel(12)).toEqual(level);
+  expect(level.id).toBe('generated-13');
+  expect(level.par).toBe(3);
+  expect(findFewestTurns(level.start, level.target, level.dice, level.operations)).toBe(3);
+  expect(getGeneratedLevel(0).par).toBe(2);
+});
+
+test('a puzzle game rolls the level dice in order until they run out', () => {
+  const level = parsePuzzleLevel({ id: 'fixed', start: 5, target: 13, dice: [[1, 1], [3, 3]] })!;
+  let game = createPuzzleGame(level, 'Ada');
+
+  game = dispatch(game, { type: 'ROLL_DICE' });
+  expect(game.diceResults).toEqual([1, 1]);
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '*' });
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  expect(getPuzzleStatus(game, level)).toBe('playing');
+
+  game = dispatch(game, { type: 'ROLL_DICE' });
+  expect(game.diceResults).toEqual([3, 3]);
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '-' });
+  game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: '+' });
+  expect(getPuzzleStatus(game, level)).toBe('failed');
+  expect(() => dispatch(game, { type: 'ROLL_DICE' })).toThrow('NO_ROLLS_LEFT');
+});
+
+test('stars drop with extra turns and unlock the next level', async () => {
+  const [first, second] = PUZZLE_PACKS[0].levels;
+  expect(getPuzzleStars(first.par, first)).toBe(3);
+  expect(getPuzzleStars(first.par + 1, first)).toBe(2);
+  expect(getPuzzleStars(first.par + 5, first)).toBe(1);
+
+  await AsyncStorage.clear();
+  expect(isLevelUnlocked([first, second], 1, await loadPuzzleProgress())).toBe(false);
+  await recordPuzzleResult(first.id, 3);
+  await recordPuzzleResult(first.id, 1);
+  const progress = await loadPuzzleProgress();
+  expect(progress[first.id]).toBe(3);
+  expect(isLevelUnlocked([first, second], 1, progress)).toBe(true);
+
+  await AsyncStorage.setItem('@numclash/puzzleProgress', JSON.stringify({ [first.id]: '3', [second.id]: 2 }));
+  expect(await loadPuzzleProgress()).toEqual({ [second.id]: 2 });
+});
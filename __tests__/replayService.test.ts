@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import { buildReplayFrames, getNumberPaths } from '../src/services/replayService';
+import { getStandings } from '../src/services/winConditionService';
+import { gameWith, playAdd, teamGame } from './fixtures/games';
+
+test('frames rebuild every number from the move log', () => {
+  let game = gameWith({ type: 'exact' });
+  game = playAdd(game, [6, 6]); // Ada 17
+  game = playAdd(game, [1, 2]); // Bora 8
+  game = playAdd(game, [1, 2]); // Ada 20, wins
+
+  const frames = buildReplayFrames(game);
+  expect(frames).toHaveLength(game.moves.length + 1);
+  expect(frames[0].move).toBeNull();
+  expect(frames[frames.length - 1].players.map(p => p.currentNumber)).toEqual(
+    game.players.map(p => p.currentNumber),
+  );
+  expect(getNumberPaths(frames)).toEqual([
+    [5, 17, 17, 20],
+    [5, 5, 8, 8],
+  ]);
+});
+
+test('frames show knock-outs and target changes where they happened', () => {
+  let bust = gameWith({ type: 'bust' }, 3, { targetNumber: 8 });
+  bust = playAdd(bust, [6, 6]); // Ada 17, out
+  bust = playAdd(bust, [1, 1]); // Bora 7
+  const bustFrames = buildReplayFrames(bust);
+  expect(bustFrames[0].players[0].eliminated).toBe(false);
+  expect(bustFrames[1].players[0].eliminated).toBe(true);
+
+  let targets = gameWith({ type: 'targets', targets: 2 }, 2, { targetNumber: 9 });
+  targets = playAdd(targets, [2, 2]); // Ada hits 9, numbers reset
+  const targetFrames = buildReplayFrames(targets);
+  expect(targetFrames[0].targetNumber).toBe(9);
+  expect(targetFrames[1].targetNumber).toBe(targets.targetNumber);
+  expect(targetFrames[1].players[0]).toMatchObject({ currentNumber: 5, targetsWon: 1 });
+});
+
+test('teammates share their number in every frame', () => {
+  let game = teamGame();
+  game = playAdd(game, [3, 3]); // Ada and Cem 11
+  game = playAdd(game, [1, 1]); // Bora and Deniz 7
+
+  const frames = buildReplayFrames(game);
+  expect(getNumberPaths(frames)).toEqual([
+    [5, 11, 11],
+    [5, 5, 7],
+    [5, 11, 11],
+    [5, 5, 7],
+  ]);
+  expect(frames[frames.length - 1].players.map(p => p.currentNumber)).toEqual(
+    game.players.map(p => p.currentNumber),
+  );
+});
+
+test('standings put the winner first and knocked-out players last', () => {
+  let game = gameWith({ type: 'bust' }, 3);
+  game = playAdd(game, [6, 6]); // Ada 17
+  game = playAdd(game, [6, 6]); // Bora 17
+  game = playAdd(game, [2, 2]); // Cem 9
+  game = playAdd(game, [6, 6]); // Ada 29, out
+  game = playAdd(game, [1, 2]); // Bora 20, wins
+
+  expect(getStandings(game).map(p => p.name)).toEqual(['Bora', 'Cem', 'Ada']);
+});
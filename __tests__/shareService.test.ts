@@ -0,0 +1,140 @@
+/**
+ * @format
+ */
+
+import { chooseBotOperation } from '../src/services/botService';
+import { dispatch, getValidOperations, initializeGame } from '../src/services/gameService';
+import { hashString } from '../src/services/randomService';
+import { CLASSIC_RULES, MARATHON_RULES } from '../src/services/rulesService';
+import { SHARE_CODE_VERSION, decodeGame, encodeGame } from '../src/services/shareService';
+import { GameState } from '../src/types/gameTypes';
+
+// Plays what a medium bot would, or lets the clock run out on the phases
+// listed in `timeOut`
+const playTurn = (game: GameState, timeOut: string[] = []): GameState => {
+  let next = dispatch(game, { type: 'ROLL_DICE' });
+  while (!next.winner && next.gamePhase !== 'roll') {
+    const phase = next.gamePhase;
+    if (timeOut.includes(phase)) {
+      next = dispatch(next, { type: 'TICK', elapsed: 60 * 60 * 1000 });
+      next = dispatch(next, { type: 'TIME_UP' });
+    } else {
+      const operation = chooseBotOperation(next, 'medium') ?? getValidOperations(next)[0];
+      next = dispatch(next, {
+        type: phase === 'dice-operation' ? 'SELECT_DICE_OPERATION' : 'SELECT_FINAL_OPERATION',
+        operation,
+      });
+    }
+  }
+  return next;
+};
+
+const comparable = (game: GameState) => ({ ...game, clock: null });
+
+test('a shared game is rebuilt move for move, timed-out phases included', () => {
+  let game = initializeGame(3, ['Ada', 'Şule', ''], {
+    seed: 42,
+    bots: [null, null, 'hard'],
+    rules: { ...MARATHON_RULES, presetId: 'custom', maxTarget: 500 },
+  });
+  const plan = [[], ['final-operation'], ['dice-operation'], ['dice-operation', 'final-operation'], []];
+  plan.forEach(timeOut => {
+    game = playTurn(game, timeOut);
+  });
+  // An unfinished turn: rolled and combined, waiting for the final operation
+  game = dispatch(game, { type: 'ROLL_DICE' });
+  game = dispatch(game, { type: 'TICK', elapsed: 60 * 60 * 1000 });
+  game = dispatch(game, { type: 'TIME_UP' });
+
+  const code = encodeGame(game);
+  expect(code.startsWith(`NC${SHARE_CODE_VERSION}.`)).toBe(true);
+  expect(comparable(decodeGame(code))).toEqual({ ...comparable(game), imported: true });
+});
+
+test('games with more and custom dice travel with their dice chains', () => {
+  let game = initializeGame(2, ['Ada', 'Bora'], {
+    seed: 11,
+    rules: { ...CLASSIC_RULES, presetId: 'custom', dice: { count: 3, faces: [0, 1, 2, 3, 5, 8] } },
+  });
+  const plan = [[], ['dice-operation'], ['final-operation'], []];
+  plan.forEach(timeOut => {
+    game = playTurn(game, timeOut);
+  });
+  // Halfway through the chain: one dice operation played, one to go
+  game = dispatch(game, { type: 'ROLL_DICE' });
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: getValidOperations(game)[0] });
+  expect(game.diceOperations).toHaveLength(1);
+
+  expect(comparable(decodeGame(encodeGame(game)))).toEqual({ ...comparable(game), imported: true });
+});
+
+test('turns skipped by the clock survive the share code', () => {
+  let game = initializeGame(2, ['Ada', 'Bora'], {
+    seed: 5,
+    rules: {
+      ...CLASSIC_RULES,
+      presetId: 'custom',
+      initialNumber: Number.MAX_SAFE_INTEGER,
+      operations: ['+', '*'],
+      dice: { count: 2, faces: [2, 3, 5] },
+    },
+  });
+  game = playTurn(game, ['final-operation']);
+  game = playTurn(game, ['dice-operation', 'final-operation']);
+  expect(game.moves.map(move => move.finalOperation)).toEqual([null, null]);
+
+  expect(comparable(decodeGame(encodeGame(game)))).toEqual({ ...comparable(game), imported: true });
+});
+
+test('a finished game keeps its winner and preset rules stay short', () => {
+  let game = initializeGame(2, ['Ada', 'Bora'], { seed: 7 });
+  while (!game.winner && game.moves.length < 200) {
+    game = playTurn(game);
+  }
+  expect(game.winner).not.toBeNull();
+
+  const code = encodeGame(game);
+  expect(decodeGame(code).winner).toEqual(game.winner);
+  // The classic rules travel as their preset id; moves are two letters each
+  expect(code.length).toBeLessThan(game.moves.length * 3 + 200);
+});
+
+test('edited codes, other versions and garbage are rejected', () => {
+  const game = playTurn(initializeGame(2, ['Ada', 'Bora'], { seed: 3 }));
+  const code = encodeGame(game);
+  const [prefix, body, sum] = code.split('.');
+  const edited = body.slice(0, 10) + (body[10] === 'A' ? 'B' : 'A') + body.slice(11);
+
+  expect(() => decodeGame(`${prefix}.${edited}.${sum}`)).toThrow('SHARE_CODE_TAMPERED');
+  expect(() => decodeGame(`NC${SHARE_CODE_VERSION + 1}.${body}.${sum}`)).toThrow('SHARE_CODE_VERSION');
+  expect(() => decodeGame('hello')).toThrow('INVALID_SHARE_CODE');
+  expect(() => decodeGame(` ${code}\n`)).not.toThrow();
+});
+
+test('signed codes with rules of the wrong shape are rejected', () => {
+  const game = playTurn(
+    initializeGame(2, ['Ada', 'Bora'], { seed: 3, rules: { ...CLASSIC_RULES, presetId: 'custom' } }),
+  );
+  const [prefix, body] = encodeGame(game).split('.');
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  // Re-signs an edited payload the way encodeGame does
+  const withRules = (rules: unknown) => {
+    const signed = `${prefix}.${Buffer.from(JSON.stringify({ ...payload, rules })).toString('base64url')}`;
+    return `${signed}.${hashString(signed).toString(16).padStart(8, '0')}`;
+  };
+
+  expect(() => decodeGame(withRules(payload.rules))).not.toThrow();
+  expect(() => decodeGame(withRules('unknown'))).toThrow('INVALID_SHARE_CODE');
+  expect(() => decodeGame(withRules({ ...payload.rules, initialNumber: '5' }))).toThrow(
+    'INVALID_SHARE_CODE',
+  );
+  expect(() => decodeGame(withRules({ ...payload.rules, dice: { count: 2, faces: null } }))).toThrow(
+    'INVALID_SHARE_CODE',
+  );
+  expect(() => decodeGame(withRules({ ...payload.rules, winCondition: { type: 'sudden-death' } }))).toThrow(
+    'INVALID_SHARE_CODE',
+  );
+  expect(() => decodeGame(withRules({ ...payload.rules, operations: 'all' }))).toThrow(
+    'INVALID_SHARE_CODE',
+  );
+});
@@ -0,0 +1,43 @@
+/**
+ * @format
+ */
+
+import {
+  formatSimulationReport,
+  parseBotList,
+  simulateGame,
+  simulateGames,
+} from '../src/cli/simulate';
+import { parseSeatList } from '../src/cli/play';
+
+test('bot names accept strategy aliases and reject unknown bots', () => {
+  expect(parseBotList('greedy, random,LOOKAHEAD')).toEqual(['medium', 'easy', 'hard']);
+  expect(parseSeatList('human,hard')).toEqual([null, 'hard']);
+  expect(() => parseBotList('greedy,smart')).toThrow('Unknown bot "smart"');
+});
+
+test('simulations are reproducible from the seed', () => {
+  const first = simulateGames({ games: 20, seed: 42, bots: ['medium', 'easy'] });
+  const second = simulateGames({ games: 20, seed: 42, bots: ['medium', 'easy'] });
+
+  expect(second).toEqual(first);
+  expect(first.finished).toBe(20);
+  expect(first.winsBySeat[0] + first.winsBySeat[1]).toBe(20);
+  expect(simulateGame(7, ['hard', 'hard'])).toEqual(simulateGame(7, ['hard', 'hard']));
+});
+
+test('the report lists win rates and the starting player advantage', () => {
+  const report = formatSimulationReport({
+    games: 4,
+    finished: 4,
+    bots: ['medium', 'easy'],
+    winsBySeat: [3, 1],
+    starterWins: 2,
+    totalMoves: 40,
+  });
+
+  expect(report).toContain('Seat 1 (medium): 3 wins, 75.0%');
+  expect(report).toContain('Average game length: 10.0 moves (5.0 rounds)');
+  expect(report).toContain('Starting player won: 50.0% (fair share 50.0%)');
+  expect(() => simulateGames({ games: 1, seed: 1, bots: ['easy'] })).toThrow();
+});
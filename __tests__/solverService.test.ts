@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import {
+  analyzeTurn,
+  estimateTurnsToTarget,
+  findBestMove,
+  rateMove,
+} from '../src/services/solverService';
+import { GameMove } from '../src/types/gameTypes';
+
+test('values one move away need a single turn', () => {
+  expect(estimateTurnsToTarget(100, 100)).toBe(0);
+  // 64 + 6 × 6 = 100
+  expect(estimateTurnsToTarget(64, 100)).toBe(1);
+  expect(estimateTurnsToTarget(5, 400)).toBeGreaterThan(1);
+});
+
+test('numbers below zero are searched too', () => {
+  expect(estimateTurnsToTarget(-3, 100)).toBeGreaterThan(1);
+  // -36 - 6 × 6 = -72
+  expect(estimateTurnsToTarget(-36, -72)).toBe(1);
+  // -34 + 6 × 6 = 2
+  expect(estimateTurnsToTarget(-34, 2)).toBe(1);
+});
+
+test('analyzeTurn lists every legal move, best first', () => {
+  const analysis = analyzeTurn(10, [3, 4], 22);
+
+  expect(analysis[0]).toMatchObject({ result: 22, turnsLeft: 0, distance: 0 });
+  expect(analysis.length).toBeGreaterThan(8);
+  analysis.slice(1).forEach(entry => {
+    expect(entry.turnsLeft === null || entry.turnsLeft >= 0).toBe(true);
+  });
+});
+
+test('findBestMove respects an already chosen dice operation', () => {
+  // 3 + 4 = 7 is already fixed; 10 + 7 is the closest from there
+  const best = findBestMove(10, [3, 4], 22, ['+']);
+
+  expect(best?.diceCalculationResult).toBe(7);
+  expect(best?.result).toBe(17);
+});
+
+test('rateMove reports turns lost against the best move', () => {
+  const winningMove: GameMove = {
+    turn: 1,
+    playerId: 1,
+    targetNumber: 22,
+    diceResults: [3, 4],
+    diceOperations: ['*'],
+    diceCalculationResult: 12,
+    finalOperation: '+',
+    previousNumber: 10,
+    newNumber: 22,
+    forced: false,
+  };
+  const slowMove: GameMove = {
+    ...winningMove,
+    diceOperations: ['-'],
+    diceCalculationResult: 1,
+    finalOperation: '/',
+    newNumber: 10,
+  };
+
+  expect(rateMove(winningMove).turnsLost).toBe(0);
+  expect(rateMove(slowMove).turnsLost).toBeGreaterThan(0);
+});
@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { initializeGame } from '../src/services/gameService';
+import {
+  addGameToStats,
+  getAverageTurnsToWin,
+  loadPlayerStats,
+  recordFinishedGame,
+  sortLeaderboard,
+} from '../src/services/statsService';
+import { GameMove, GameState } from '../src/types/gameTypes';
+
+const move = (turn: number, playerId: number, forced = false): GameMove => ({
+  turn,
+  playerId,
+  targetNumber: 25,
+  diceResults: [2, 3],
+  diceOperations: ['+'],
+  diceCalculationResult: 5,
+  finalOperation: '*',
+  previousNumber: 5,
+  newNumber: 25,
+  forced,
+});
+
+const finishedGame = (winnerIndex: number, moves: GameMove[]): GameState => {
+  const game = initializeGame(2, ['Ada', 'Bora'], { seed: 3 });
+  return { ...game, moves, winner: game.players[winnerIndex] };
+};
+
+test('a finished game updates every player by name', () => {
+  const table = addGameToStats({}, finishedGame(0, [move(1, 1), move(2, 2, true), move(3, 1)]));
+
+  expect(table.ada).toMatchObject({ gamesPlayed: 1, wins: 1, turnsToWinTotal: 2, forcedMoves: 0 });
+  expect(table.bora).toMatchObject({ gamesPlayed: 1, wins: 0, forcedMoves: 1 });
+  expect(table.ada.operationCounts).toMatchObject({ '+': 2, '*': 2, '-': 0, '/': 0 });
+  expect(getAverageTurnsToWin(table.ada)).toBe(2);
+  expect(getAverageTurnsToWin(table.bora)).toBeNull();
+});
+
+test('the leaderboard sorts by the chosen metric', () => {
+  let table = addGameToStats({}, finishedGame(0, [move(1, 1), move(2, 2), move(3, 1)]));
+  table = addGameToStats(table, finishedGame(1, [move(1, 2)]));
+
+  expect(sortLeaderboard(table, 'averageTurnsToWin').map(s => s.name)).toEqual(['Bora', 'Ada']);
+  expect(sortLeaderboard(table, '+').map(s => s.name)).toEqual(['Ada', 'Bora']);
+});
+
+test('finished games are stored between launches', async () => {
+  await AsyncStorage.clear();
+  await recordFinishedGame(finishedGame(1, [move(1, 2)]));
+  await recordFinishedGame(finishedGame(1, [move(1, 2)]));
+
+  const table = await loadPlayerStats();
+  expect(table.bora.wins).toBe(2);
+});
+
+test('games opened from a share code stay out of the stats', async () => {
+  await AsyncStorage.clear();
+  await recordFinishedGame({ ...finishedGame(1, [move(1, 2)]), imported: true });
+
+  expect(await loadPlayerStats()).toEqual({});
+});
+
+test('stored entries that are not player stats are dropped', async () => {
+  await AsyncStorage.setItem(
+    '@numclash/playerStats',
+    JSON.stringify({ ada: { name: 'Ada', wins: 3, operationCounts: { '+': 2 } }, bora: 'x', cem: null }),
+  );
+  const table = await loadPlayerStats();
+
+  expect(Object.keys(table)).toEqual(['ada']);
+  expect(table.ada).toMatchObject({ wins: 3, gamesPlayed: 0 });
+  expect(table.ada.operationCounts).toMatchObject({ '+': 2, '*': 0 });
+});
@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { initializeGame } from '../src/services/gameService';
+import { CLASSIC_RULES } from '../src/services/rulesService';
+import { GameState } from '../src/types/gameTypes';
+import {
+  SAVE_SCHEMA_VERSION,
+  clearSavedGame,
+  loadSavedGame,
+  migrateSavedGame,
+  saveGame,
+} from '../src/services/storageService';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('a saved game can be loaded back', async () => {
+  const game = initializeGame(3, ['Ada', 'Bora', 'Cem'], { seed: 42 });
+  await saveGame(game);
+
+  expect(await loadSavedGame()).toEqual(game);
+
+  await clearSavedGame();
+  expect(await loadSavedGame()).toBeNull();
+});
+
+test('finished games are not offered for resuming', async () => {
+  const game = initializeGame(2, [], { seed: 42 });
+  await saveGame({ ...game, winner: game.players[0] });
+
+  expect(await loadSavedGame()).toBeNull();
+});
+
+test('saves from unknown versions are rejected', () => {
+  const state = initializeGame(2, [], { seed: 42 });
+
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state })?.state).toBe(state);
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION + 1, state })).toBeNull();
+  expect(migrateSavedGame({ version: 0, state })).toBeNull();
+  expect(migrateSavedGame(null)).toBeNull();
+  expect(migrateSavedGame('{"version":5}')).toBeNull();
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state: [] })).toBeNull();
+});
+
+test('version 1 saves are upgraded to the classic rules', () => {
+  const legacyState: Partial<GameState> = initializeGame(2, [], { seed: 42 });
+  delete legacyState.rules;
+  const migrated = migrateSavedGame({ version: 1, state: legacyState });
+
+  expect(migrated?.version).toBe(SAVE_SCHEMA_VERSION);
+  expect(migrated?.state.rules).toEqual(CLASSIC_RULES);
+});
+
+test('version 2 saves get a fresh clock for the interrupted phase', () => {
+  const { clock, ...legacyState } = initializeGame(2, [], { seed: 42 });
+  const migrated = migrateSavedGame({
+    version: 2,
+    state: { ...legacyState, gamePhase: 'final-operation' },
+  });
+
+  expect(migrated?.state.rules.timeBank).toBe(0);
+  expect(migrated?.state.clock).toEqual({
+    ...clock,
+    phaseTimeLeft: CLASSIC_RULES.finalOperationTime * 1000,
+  });
+});
+
+test('version 3 saves keep the four basic operations', () => {
+  const state = initializeGame(2, [], { seed: 42 });
+  const { operations, ...legacyRules } = state.rules;
+  const migrated = migrateSavedGame({ version: 3, state: { ...state, rules: legacyRules } });
+
+  expect(migrated?.state.rules.operations).toEqual(['+', '-', '*', '/']);
+  expect(migrated?.state.rules).toEqual({ ...legacyRules, operations });
+});
+
+test('version 4 saves were exact-hit games on a single target', () => {
+  const game = initializeGame(2, [], { seed: 42 });
+  const { winCondition, ...legacyRules } = game.rules;
+  const move = { turn: 1, playerId: 1, diceResults: [1, 2], newNumber: 8 };
+  const migrated = migrateSavedGame({
+    version: 4,
+    state: { ...game, rules: legacyRules, winReason: undefined, moves: [move] },
+  });
+
+  expect(migrated?.state.rules.winCondition).toEqual(winCondition);
+  expect(migrated?.state.winReason).toBeNull();
+  expect(migrated?.state.moves[0].targetNumber).toBe(game.targetNumber);
+});
+
+test('version 5 saves rolled two d6 and joined them with one operation', () => {
+  const game = initializeGame(2, [], { seed: 42 });
+  const { dice, ...legacyRules } = game.rules;
+  const move = { turn: 1, playerId: 1, diceResults: [1, 2], diceOperation: '+', newNumber: 8 };
+  const legacyState: Record<string, unknown> = {
+    ...game,
+    rules: legacyRules,
+    diceOperation: '*',
+    moves: [move],
+  };
+  delete legacyState.diceOperations;
+  const migrated = migrateSavedGame({ version: 5, state: legacyState });
+
+  expect(migrated?.state.rules.dice).toEqual(dice);
+  expect(migrated?.state.diceOperations).toEqual(['*']);
+  expect(migrated?.state.moves[0]).toEqual({
+    turn: 1,
+    playerId: 1,
+    diceResults: [1, 2],
+    diceOperations: ['+'],
+    newNumber: 8,
+  });
+  expect(migrated?.state).not.toHaveProperty('diceOperation');
+});
+
+test('saves that do not hold a game are rejected', () => {
+  const state = initializeGame(2, [], { seed: 42 });
+
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state: { ...state, players: 'Ada' } })).toBeNull();
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state: { ...state, gamePhase: 'done' } })).toBeNull();
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state: { ...state, clock: null } })).toBeNull();
+  expect(migrateSavedGame({ version: SAVE_SCHEMA_VERSION, state: { ...state, rules: 7 } })).toBeNull();
+});
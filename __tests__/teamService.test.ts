@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import { suggestTeammateOperation } from '../src/services/botService';
+import { dispatch, initializeGame } from '../src/services/gameService';
+import { decodeGame, encodeGame } from '../src/services/shareService';
+import { addGameToStats } from '../src/services/statsService';
+import { getSideName, groupSeatsByTeam } from '../src/services/teamService';
+import { getStandings } from '../src/services/winConditionService';
+import { NAMES, playAdd, teamGame } from './fixtures/games';
+
+test('teammates share a number and turns alternate between the teams', () => {
+  let game = teamGame();
+  expect(game.players.map(player => player.team)).toEqual([0, 1, 0, 1]);
+  expect(game.players[0].color).toBe(game.players[2].color);
+  expect(groupSeatsByTeam(game.players)).toEqual([[0, 2], [1, 3]]);
+  expect(getSideName(game.players, game.players[1])).toBe('Bora & Deniz');
+
+  game = playAdd(game, [2, 1]); // Ada and Cem 8
+  expect(game.players.map(player => player.currentNumber)).toEqual([8, 5, 8, 5]);
+  expect(game.currentPlayerIndex).toBe(1);
+  game = playAdd(game, [1, 1]); // Bora and Deniz 7
+  game = playAdd(game, [6, 6]); // Cem, for Ada too: 20
+  expect(game.winner?.name).toBe('Cem');
+  expect(getStandings(game).slice(0, 2).map(player => player.name).sort()).toEqual(['Ada', 'Cem']);
+
+  const stats = addGameToStats({}, game);
+  expect(stats.ada.wins).toBe(1);
+  expect(stats.bora.wins).toBe(0);
+
+  expect(() => initializeGame(3, NAMES, { teams: true })).toThrow('INVALID_TEAMS');
+  expect(groupSeatsByTeam(initializeGame(3).players)).toEqual([[0, 1, 2]]);
+});
+
+test('a team goes out together in bust games', () => {
+  let game = teamGame({ type: 'bust' });
+  game = playAdd(game, [6, 6]); // Ada and Cem 17
+  game = playAdd(game, [6, 6]); // Bora and Deniz 17
+  expect(game.winner).toBeNull();
+  game = playAdd(game, [6, 6]); // Cem busts and takes Ada out too
+  expect(game.players.map(player => Boolean(player.eliminated))).toEqual([true, false, true, false]);
+  expect(game.winner?.team).toBe(1);
+  expect(game.winReason).toBe('lastStanding');
+});
+
+test('team games survive a share code and bot teammates offer a tip', () => {
+  // The seed picks who starts; that player's teammate is the bot
+  const start = initializeGame(4, NAMES, { seed: 99, teams: true }).currentPlayerIndex;
+  const bots = NAMES.map((_, index) => (index === (start + 2) % 4 ? 'hard' as const : null));
+  let game = initializeGame(4, NAMES, { seed: 99, teams: true, bots });
+  expect(decodeGame(encodeGame(game)).players.map(player => player.team)).toEqual([0, 1, 0, 1]);
+
+  game = dispatch(game, { type: 'ROLL_DICE' });
+  expect(suggestTeammateOperation(game)).toBeNull();
+  game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: '+' });
+  const suggestion = suggestTeammateOperation(game);
+  expect(suggestion?.teammate.name).toBe(NAMES[(start + 2) % 4]);
+  expect(suggestTeammateOperation(game)).toEqual(suggestion);
+});
@@ -0,0 +1,38 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadThemePreference, saveThemePreference } from '../src/services/settingsService';
+import {
+  DARK_THEME,
+  HIGH_CONTRAST_THEME,
+  LIGHT_THEME,
+  THEMES,
+  resolveTheme,
+} from '../src/theme';
+
+test('the system scheme is followed until a theme is picked', () => {
+  expect(resolveTheme('system', 'dark')).toBe(DARK_THEME);
+  expect(resolveTheme('system', 'light')).toBe(LIGHT_THEME);
+  expect(resolveTheme('system', null)).toBe(LIGHT_THEME);
+  expect(resolveTheme('light', 'dark')).toBe(LIGHT_THEME);
+  expect(resolveTheme('highContrast', 'light')).toBe(HIGH_CONTRAST_THEME);
+});
+
+test('every theme defines the same tokens', () => {
+  const tokens = Object.keys(LIGHT_THEME.colors).sort();
+  Object.values(THEMES).forEach(theme => {
+    expect(Object.keys(theme.colors).sort()).toEqual(tokens);
+  });
+  expect(DARK_THEME.statusBar).toBe('light-content');
+});
+
+test('the picked theme is saved and unknown values are ignored', async () => {
+  await AsyncStorage.clear();
+  expect(await loadThemePreference()).toBeNull();
+  await saveThemePreference('dark');
+  expect(await loadThemePreference()).toBe('dark');
+  await AsyncStorage.setItem('@numclash/theme', 'neon');
+  expect(await loadThemePreference()).toBeNull();
+});
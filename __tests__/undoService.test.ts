@@ -0,0 +1,79 @@
+/**
+ * @format
+ */
+
+import { dispatch, initializeGame } from '../src/services/gameService';
+import {
+  canRedo,
+  canUndo,
+  createUndoHistory,
+  pushState,
+  redo,
+  replacePresent,
+  undo,
+} from '../src/services/undoService';
+import { GameAction, GameMode } from '../src/types/gameTypes';
+
+const play = (mode: GameMode, ...actions: GameAction[]) => {
+  let history = createUndoHistory(initializeGame(2, [], { seed: 7, mode }));
+  actions.forEach(action => {
+    history = pushState(history, dispatch(history.present, action));
+  });
+  return history;
+};
+
+const ROLL: GameAction = { type: 'ROLL_DICE' };
+const DICE_PLUS: GameAction = { type: 'SELECT_DICE_OPERATION', operation: '+' };
+const FINAL_PLUS: GameAction = { type: 'SELECT_FINAL_OPERATION', operation: '+' };
+
+test('undo and redo step through the current turn', () => {
+  const history = play('casual', ROLL, DICE_PLUS);
+  expect(canUndo(history)).toBe(true);
+
+  const undone = undo(history);
+  expect(undone.present.gamePhase).toBe('dice-operation');
+  expect(undone.present.diceOperations).toHaveLength(0);
+  expect(canRedo(undone)).toBe(true);
+
+  expect(redo(undone).present).toBe(history.present);
+});
+
+test('the final operation locks in the turn for the next player', () => {
+  const history = play('casual', ROLL, DICE_PLUS, FINAL_PLUS);
+
+  expect(history.present.currentPlayerIndex).toBe(1);
+  expect(history.past).toHaveLength(0);
+  expect(canUndo(history)).toBe(false);
+});
+
+test('the next roll locks in the previous turn', () => {
+  const history = play('casual', ROLL, DICE_PLUS, FINAL_PLUS, ROLL);
+
+  expect(history.past).toHaveLength(0);
+  expect(canUndo(history)).toBe(false);
+});
+
+test('a new action clears the redo stack', () => {
+  const history = undo(play('casual', ROLL, DICE_PLUS));
+  const branched = pushState(
+    history,
+    dispatch(history.present, { type: 'SELECT_DICE_OPERATION', operation: '*' }),
+  );
+
+  expect(canRedo(branched)).toBe(false);
+});
+
+test('competitive games never allow undo', () => {
+  const history = play('competitive', ROLL, DICE_PLUS);
+
+  expect(canUndo(history)).toBe(false);
+  expect(undo(history)).toBe(history);
+});
+
+test('clock updates do not add undo steps', () => {
+  const history = play('casual', ROLL, DICE_PLUS);
+  const ticked = replacePresent(history, dispatch(history.present, { type: 'TICK', elapsed: 1000 }));
+
+  expect(ticked.past).toBe(history.past);
+  expect(ticked.present.clock.phaseTimeLeft).toBe(history.present.clock.phaseTimeLeft - 1000);
+});
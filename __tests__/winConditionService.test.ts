@@ -0,0 +1,49 @@
+/**
+ * @format
+ */
+
+import { CLASSIC_RULES } from '../src/services/rulesService';
+import { getNextPlayerIndex } from '../src/services/winConditionService';
+import { gameWith, playAdd } from './fixtures/games';
+
+test('closest ends after the last round and the nearest player wins', () => {
+  let game = gameWith({ type: 'closest', rounds: 2 });
+  game = playAdd(game, [6, 6]); // Ada 17
+  game = playAdd(game, [1, 1]); // Bora 7
+  game = playAdd(game, [1, 1]); // Ada 19
+  expect(game.winner).toBeNull();
+
+  game = playAdd(game, [6, 6]); // Bora 19, tied: Ada moved first in the round
+  expect(game.winner?.name).toBe('Ada');
+  expect(game.winReason).toBe('closest');
+});
+
+test('bust knocks out players who overshoot and the last one standing wins', () => {
+  let game = gameWith({ type: 'bust' }, 3, {
+    players: gameWith({ type: 'bust' }, 3).players.map(p => ({ ...p, currentNumber: 15 })),
+  });
+  game = playAdd(game, [6, 6]); // Ada 27, out
+  expect(game.players[0].eliminated).toBe(true);
+  expect(game.currentPlayerIndex).toBe(1);
+
+  game = playAdd(game, [1, 1]); // Bora 17
+  game = playAdd(game, [6, 5]); // Cem 26, out
+  expect(game.winner?.name).toBe('Bora');
+  expect(game.winReason).toBe('lastStanding');
+  expect(getNextPlayerIndex(game.players, 1)).toBe(1);
+});
+
+test('hitting one of several targets scores and draws a new target', () => {
+  const start = gameWith({ type: 'targets', targets: 2 }, 2, { targetNumber: 9 });
+  let game = playAdd(start, [2, 2]); // Ada hits 9
+
+  expect(game.winner).toBeNull();
+  expect(game.players[0].targetsWon).toBe(1);
+  expect(game.players.every(p => p.currentNumber === CLASSIC_RULES.initialNumber)).toBe(true);
+  expect(game.rngState).not.toBe(start.rngState);
+  expect(game.moves[0].targetNumber).toBe(9);
+
+  game = playAdd({ ...game, targetNumber: 9, currentPlayerIndex: 0 }, [2, 2]);
+  expect(game.winner?.name).toBe('Ada');
+  expect(game.winReason).toBe('targets');
+});
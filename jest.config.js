@@ -1,3 +1,13 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js'],
+  // The preset only treats images and video as assets; sounds are bundled too
+  transform: {
+    '^.+\\.wav$': require.resolve('react-native/jest/assetFileTransformer.js'),
+  },
+  // Shared helpers for the tests, not tests themselves
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/fixtures/'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|react-native-linear-gradient)/)',
+  ],
 };
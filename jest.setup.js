@@ -0,0 +1,34 @@
+/* eslint-env jest */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock'),
+);
+// Tests pass Node's `net` to the TCP adapter instead of the native module
+jest.mock('react-native-tcp-socket', () => ({
+  createServer: jest.fn(),
+  createConnection: jest.fn(),
+}));
+jest.mock('@react-native-clipboard/clipboard', () =>
+  require('@react-native-clipboard/clipboard/jest/clipboard-mock'),
+);
+// Sounds load and play as no-ops; FeedbackPlayer tests use their own player
+jest.mock('react-native-sound', () => {
+  const Sound = jest.fn((file, onLoad) => {
+    const sound = {
+      isLoaded: () => true,
+      setVolume: jest.fn(() => sound),
+      play: jest.fn(() => sound),
+      stop: callback => {
+        callback?.();
+        return sound;
+      },
+    };
+    // Loading finishes after the constructor returns, as on a device
+    Promise.resolve().then(() => onLoad?.());
+    return sound;
+  });
+  Sound.setCategory = jest.fn();
+  return Sound;
+});
@@ -0,0 +1,31 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { loadColorBlindMode, saveColorBlindMode } from '../services/settingsService';
+
+interface AccessibilityContextValue {
+  colorBlind: boolean;
+  setColorBlind: (enabled: boolean) => void;
+}
+
+const AccessibilityContext = createContext<AccessibilityContextValue>({
+  colorBlind: false,
+  setColorBlind: () => {},
+});
+
+export const AccessibilityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [colorBlind, setColorBlindState] = useState(false);
+
+  useEffect(() => {
+    loadColorBlindMode().then(setColorBlindState);
+  }, []);
+
+  const setColorBlind = useCallback((enabled: boolean) => {
+    setColorBlindState(enabled);
+    saveColorBlindMode(enabled);
+  }, []);
+
+  const value = useMemo(() => ({ colorBlind, setColorBlind }), [colorBlind, setColorBlind]);
+
+  return <AccessibilityContext.Provider value={value}>{children}</AccessibilityContext.Provider>;
+};
+
+export const useAccessibility = (): AccessibilityContextValue => useContext(AccessibilityContext);
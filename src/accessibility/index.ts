@@ -0,0 +1,84 @@
+import { AccessibilityInfo } from 'react-native';
+import { DiceResults, Player } from '../types/gameTypes';
+import { Translate } from '../i18n';
+
+// Text grows with the system font size up to this factor; past it the game
+// board no longer fits on a phone screen
+export const MAX_FONT_SCALE = 1.6;
+
+// Seconds left in a phase at which screen readers hear a warning
+export const TIME_WARNING_SECONDS = [10, 3];
+
+// One shape per seat, so players can be told apart without their color
+export const PLAYER_SHAPES = ['●', '▲', '■', '◆', '★', '✚'];
+
+// Okabe–Ito colors, distinguishable with the common kinds of color blindness
+export const COLOR_BLIND_COLORS = [
+  '#D55E00',
+  '#0072B2',
+  '#E69F00',
+  '#009E73',
+  '#CC79A7',
+  '#56B4E9',
+];
+
+export const COLOR_BLIND_TEAM_COLORS = ['#D55E00', '#0072B2'];
+
+export interface PlayerAppearance {
+  color: string;
+  // Only shown in color-blind mode
+  shape: string | null;
+}
+
+// Display only: the game state keeps the regular colors, so saved and shared
+// games look the same for everyone
+export const getPlayerAppearance = (player: Player, colorBlind: boolean): PlayerAppearance => {
+  if (!colorBlind) {
+    return { color: player.color, shape: null };
+  }
+  const seat = player.id - 1;
+  return {
+    color:
+      player.team === undefined
+        ? COLOR_BLIND_COLORS[seat % COLOR_BLIND_COLORS.length]
+        : COLOR_BLIND_TEAM_COLORS[player.team],
+    shape: PLAYER_SHAPES[seat % PLAYER_SHAPES.length],
+  };
+};
+
+// The player as drawn on screen, for lists that keep the other fields too
+export const withPlayerAppearance = <T extends Player>(
+  player: T,
+  colorBlind: boolean,
+): T & PlayerAppearance => ({
+  ...player,
+  ...getPlayerAppearance(player, colorBlind),
+});
+
+// Fixed boxes around text (dice, buttons) grow with the font, within limits
+export const scaleSize = (size: number, fontScale: number): number => {
+  return Math.round(size * Math.min(Math.max(fontScale, 1), MAX_FONT_SCALE));
+};
+
+export const announce = (message: string) => {
+  AccessibilityInfo.announceForAccessibility(message);
+};
+
+// "Dice: 3, 5 and 2"
+export const describeDice = (t: Translate, diceResults: DiceResults): string => {
+  return t('a11y.dice', {
+    dice: diceResults.slice(0, -1).join(', '),
+    last: diceResults[diceResults.length - 1],
+  });
+};
+
+export const describePlayer = (t: Translate, player: Player, isCurrent: boolean): string => {
+  return [
+    t('a11y.player', { name: player.name, number: player.currentNumber }),
+    player.eliminated ? t('game.eliminated') : null,
+    player.targetsWon ? t('a11y.targetsWon', { count: player.targetsWon }) : null,
+    isCurrent ? t('a11y.currentTurn') : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+};
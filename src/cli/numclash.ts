@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { GameRules, RulePresetId, WinCondition, WinConditionType } from '../types/gameTypes';
+import { getRulePreset, validateRules } from '../services/rulesService';
+import { WIN_CONDITION_DEFAULTS, WIN_CONDITION_TYPES } from '../services/winConditionService';
+import { parseSeatList, playInteractive } from './play';
+import { formatSimulationReport, parseBotList, simulateGames } from './simulate';
+
+const USAGE = `Usage:
+  numclash play [--seats human,greedy] [--seed N] [--rules classic|blitz|marathon] [--win exact]
+  numclash simulate [--games 1000] [--bots greedy,random] [--seed N] [--rules classic|blitz|marathon] [--win exact]
+
+Bots: random (easy), greedy (medium), lookahead (hard)
+Win conditions: exact, closest[:rounds], bust, targets[:count]`;
+
+// "closest:8" plays eight rounds, a bare "closest" uses the app's default
+const readWinCondition = (value: string): WinCondition => {
+  const [type, count] = value.split(':') as [WinConditionType, string | undefined];
+  if (!WIN_CONDITION_TYPES.includes(type)) {
+    throw new Error(`Unknown win condition "${value}"`);
+  }
+  const winCondition = WIN_CONDITION_DEFAULTS[type];
+  if (count === undefined) return winCondition;
+  if (winCondition.type === 'closest') return { ...winCondition, rounds: Number(count) };
+  if (winCondition.type === 'targets') return { ...winCondition, targets: Number(count) };
+  throw new Error(`"${type}" does not take a count`);
+};
+
+const readRules = (value: string | undefined, win: string | undefined): GameRules => {
+  const preset = getRulePreset((value ?? 'classic') as RulePresetId);
+  if (!preset) {
+    throw new Error(`Unknown rules "${value}"`);
+  }
+  const rules = win ? { ...preset, winCondition: readWinCondition(win) } : preset;
+  const error = validateRules(rules);
+  if (error) {
+    throw new Error(`Invalid rules: ${error}`);
+  }
+  return rules;
+};
+
+const readNumber = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`--${name} must be a whole number`);
+  }
+  return number;
+};
+
+const main = async (argv: string[]) => {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      seats: { type: 'string' },
+      bots: { type: 'string' },
+      games: { type: 'string' },
+      seed: { type: 'string' },
+      rules: { type: 'string' },
+      win: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const rules = readRules(values.rules, values.win);
+  const seed = values.seed === undefined ? undefined : readNumber('seed', values.seed, 0);
+
+  switch (command) {
+    case 'play':
+      await playInteractive({
+        seats: parseSeatList(values.seats ?? 'human,greedy'),
+        seed,
+        rules,
+      });
+      break;
+    case 'simulate': {
+      const games = readNumber('games', values.games, 1000);
+      const simulationSeed = seed ?? Date.now();
+      const startedAt = Date.now();
+      console.log(`Seed: ${simulationSeed}`);
+      const summary = simulateGames({
+        games,
+        seed: simulationSeed,
+        bots: parseBotList(values.bots ?? 'greedy,greedy'),
+        rules,
+      });
+      console.log(formatSimulationReport(summary));
+      console.log(`\nDone in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,147 @@
+import * as readline from 'node:readline/promises';
+import { BotDifficulty, GameRules, GameState, Operation } from '../types/gameTypes';
+import { planBotTurn } from '../services/botService';
+import {
+  dispatch,
+  formatMoveEquation,
+  getCurrentPlayer,
+  getDiceOperands,
+  getValidOperations,
+  initializeGame,
+} from '../services/gameService';
+import { OPERATIONS, getOperationSymbol } from '../services/operationService';
+import { createSeededRandom } from '../services/randomService';
+import { CLASSIC_RULES } from '../services/rulesService';
+import { createTranslator, getDefaultPlayerName, getErrorMessage } from '../i18n';
+import { BOT_ALIASES } from './simulate';
+
+export interface PlayOptions {
+  // One entry per seat, null for a human at the keyboard
+  seats: (BotDifficulty | null)[];
+  seed?: number;
+  rules?: GameRules;
+}
+
+const t = createTranslator('en');
+
+// Each operation can be typed as its id or its symbol; the extra keys are
+// easier to type than "×" or "‖"
+const OPERATION_INPUTS: Record<string, Operation> = {
+  ...Object.fromEntries(OPERATIONS.map(operation => [operation, operation])),
+  ...Object.fromEntries(OPERATIONS.map(operation => [getOperationSymbol(operation), operation])),
+  x: '*',
+  '|': '||',
+};
+
+type Ask = (prompt: string) => Promise<string>;
+
+// Reads answers line by line so piped input works as well as a terminal;
+// end of input counts as quitting.
+const createAsk = (rl: readline.Interface): Ask => {
+  const lines = rl[Symbol.asyncIterator]();
+  return async prompt => {
+    process.stdout.write(prompt);
+    const { value, done } = await lines.next();
+    return done ? 'q' : value;
+  };
+};
+
+export const parseSeatList = (value: string): (BotDifficulty | null)[] => {
+  return value.split(',').map(name => {
+    const seat = name.trim().toLowerCase();
+    if (seat === 'human') return null;
+    const bot = BOT_ALIASES[seat];
+    if (!bot) {
+      throw new Error(`Unknown seat "${name}". Use human or one of: ${Object.keys(BOT_ALIASES).join(', ')}`);
+    }
+    return bot;
+  });
+};
+
+const describePlayers = (game: GameState): string => {
+  return game.players
+    .map((player, index) => `${index === game.currentPlayerIndex ? '>' : ' '} ${player.name}: ${player.currentNumber}`)
+    .join('\n');
+};
+
+const askOperation = async (
+  ask: Ask,
+  prompt: string,
+  game: GameState,
+): Promise<Operation | null> => {
+  const symbols = getValidOperations(game).map(getOperationSymbol).join(' ');
+  for (;;) {
+    const answer = (await ask(`${prompt} [${symbols}] `)).trim().toLowerCase();
+    if (answer === 'q') return null;
+    const operation = OPERATION_INPUTS[answer];
+    if (operation && getValidOperations(game).includes(operation)) {
+      return operation;
+    }
+    console.log('  Not allowed here, pick one of the listed operations (q to quit).');
+  }
+};
+
+// Plays one game in the terminal. The turn clock is not used here.
+export const playInteractive = async (options: PlayOptions): Promise<void> => {
+  const rules = options.rules ?? CLASSIC_RULES;
+  const names = options.seats.map((bot, index) => getDefaultPlayerName(t, index, bot));
+  let game = initializeGame(options.seats.length, names, {
+    seed: options.seed,
+    rules,
+    bots: options.seats,
+  });
+  const botRandom = createSeededRandom(game.seed + 1);
+  const rl = readline.createInterface({ input: process.stdin });
+  const ask = createAsk(rl);
+
+  console.log(`NumClash #${game.seed}, target ${game.targetNumber}. Type q to quit.\n`);
+
+  try {
+    while (!game.winner) {
+      const player = getCurrentPlayer(game);
+      console.log(describePlayers(game));
+
+      if (player.bot) {
+        game = dispatch(game, { type: 'ROLL_DICE' });
+        const plan = planBotTurn(game, player.bot, botRandom);
+        if (!plan) break;
+        plan.diceOperations.forEach(operation => {
+          game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation });
+        });
+        game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: plan.finalOperation });
+      } else {
+        const answer = await ask(`${player.name}, press Enter to roll `);
+        if (answer.trim().toLowerCase() === 'q') return;
+        game = dispatch(game, { type: 'ROLL_DICE' });
+
+        console.log(`  Dice ${game.diceResults!.join(' ')}`);
+        // One operation per die after the first, worked left to right
+        while (game.gamePhase === 'dice-operation') {
+          const [left, right] = getDiceOperands(game)!;
+          const diceOperation = await askOperation(ask, `  ${left} ? ${right}`, game);
+          if (!diceOperation) return;
+          game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation: diceOperation });
+        }
+
+        const finalOperation = await askOperation(
+          ask,
+          `  ${player.currentNumber} ? ${game.diceCalculationResult}`,
+          game,
+        );
+        if (!finalOperation) return;
+        game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: finalOperation });
+      }
+
+      const lastMove = game.moves[game.moves.length - 1];
+      console.log(`  ${player.name}: ${formatMoveEquation(lastMove)}\n`);
+    }
+
+    if (game.winner) {
+      console.log(t('game.winnerMessage', { name: game.winner.name }));
+    }
+  } catch (error) {
+    console.error(getErrorMessage(t, error));
+  } finally {
+    rl.close();
+  }
+};
@@ -0,0 +1,139 @@
+import { BotDifficulty, GameRules, GameState } from '../types/gameTypes';
+import { planBotTurn } from '../services/botService';
+import { dispatch, getCurrentPlayer, initializeGame } from '../services/gameService';
+import { createSeededRandom, normalizeSeed } from '../services/randomService';
+import { CLASSIC_RULES } from '../services/rulesService';
+
+// Games that run this long are counted as unfinished instead of looping forever
+export const MAX_SIMULATED_MOVES = 2000;
+
+// The CLI speaks in strategies, the app in difficulty levels
+export const BOT_ALIASES: Record<string, BotDifficulty> = {
+  random: 'easy',
+  greedy: 'medium',
+  lookahead: 'hard',
+  easy: 'easy',
+  medium: 'medium',
+  hard: 'hard',
+};
+
+export const parseBotList = (value: string): BotDifficulty[] => {
+  return value.split(',').map(name => {
+    const bot = BOT_ALIASES[name.trim().toLowerCase()];
+    if (!bot) {
+      throw new Error(`Unknown bot "${name}". Use one of: ${Object.keys(BOT_ALIASES).join(', ')}`);
+    }
+    return bot;
+  });
+};
+
+export interface SimulationOptions {
+  games: number;
+  seed: number;
+  bots: BotDifficulty[];
+  rules?: GameRules;
+}
+
+export interface SimulatedGame {
+  seed: number;
+  startingPlayerIndex: number;
+  // Null when the game hit MAX_SIMULATED_MOVES
+  winnerIndex: number | null;
+  moves: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  finished: number;
+  bots: BotDifficulty[];
+  winsBySeat: number[];
+  starterWins: number;
+  totalMoves: number;
+}
+
+// Plays one bot-only game to the end. Bots plan the whole turn right after the roll.
+export const simulateGame = (
+  seed: number,
+  bots: BotDifficulty[],
+  rules: GameRules = CLASSIC_RULES,
+): SimulatedGame => {
+  let game: GameState = initializeGame(bots.length, [], { seed, rules, bots });
+  const startingPlayerIndex = game.currentPlayerIndex;
+  const botRandom = createSeededRandom(seed + 1);
+
+  while (!game.winner && game.moves.length < MAX_SIMULATED_MOVES) {
+    game = dispatch(game, { type: 'ROLL_DICE' });
+    const plan = planBotTurn(game, bots[game.currentPlayerIndex], botRandom);
+    if (!plan) {
+      throw new Error(`No legal move for ${getCurrentPlayer(game).name} in game ${seed}`);
+    }
+    plan.diceOperations.forEach(operation => {
+      game = dispatch(game, { type: 'SELECT_DICE_OPERATION', operation });
+    });
+    game = dispatch(game, { type: 'SELECT_FINAL_OPERATION', operation: plan.finalOperation });
+  }
+
+  return {
+    seed,
+    startingPlayerIndex,
+    winnerIndex: game.winner ? game.players.findIndex(p => p.id === game.winner!.id) : null,
+    moves: game.moves.length,
+  };
+};
+
+export const simulateGames = (
+  options: SimulationOptions,
+  onGame?: (game: SimulatedGame, index: number) => void,
+): SimulationSummary => {
+  if (options.bots.length < 2) {
+    throw new Error('A simulation needs at least two bots');
+  }
+
+  const seeds = createSeededRandom(options.seed);
+  const summary: SimulationSummary = {
+    games: options.games,
+    finished: 0,
+    bots: options.bots,
+    winsBySeat: options.bots.map(() => 0),
+    starterWins: 0,
+    totalMoves: 0,
+  };
+
+  for (let index = 0; index < options.games; index++) {
+    const game = simulateGame(normalizeSeed(seeds() * 4294967296), options.bots, options.rules);
+    if (game.winnerIndex !== null) {
+      summary.finished += 1;
+      summary.totalMoves += game.moves;
+      summary.winsBySeat[game.winnerIndex] += 1;
+      if (game.winnerIndex === game.startingPlayerIndex) {
+        summary.starterWins += 1;
+      }
+    }
+    onGame?.(game, index);
+  }
+
+  return summary;
+};
+
+const percent = (count: number, total: number): string => {
+  return total === 0 ? '-' : `${((count / total) * 100).toFixed(1)}%`;
+};
+
+export const formatSimulationReport = (summary: SimulationSummary): string => {
+  const { finished, bots } = summary;
+  const lines = [
+    `Games: ${summary.games} (${finished} finished, ${summary.games - finished} hit the move limit)`,
+    '',
+    'Win rate by seat:',
+    ...bots.map(
+      (bot, seat) =>
+        `  Seat ${seat + 1} (${bot}): ${summary.winsBySeat[seat]} wins, ${percent(summary.winsBySeat[seat], finished)}`,
+    ),
+    '',
+    `Average game length: ${finished === 0 ? '-' : (summary.totalMoves / finished).toFixed(1)} moves` +
+      ` (${finished === 0 ? '-' : (summary.totalMoves / finished / bots.length).toFixed(1)} rounds)`,
+    `Starting player won: ${percent(summary.starterWins, finished)}` +
+      ` (fair share ${percent(1, bots.length)})`,
+  ];
+  return lines.join('\n');
+};
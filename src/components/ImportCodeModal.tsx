@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import { GameState } from '../types/gameTypes';
+import { decodeGame } from '../services/shareService';
+import { getErrorMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface ImportCodeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onImport: (game: GameState) => void;
+}
+
+const ImportCodeModal: React.FC<ImportCodeModalProps> = ({ visible, onClose, onImport }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setCode('');
+    setError(null);
+    onClose();
+  };
+
+  const handlePaste = async () => {
+    setCode(await Clipboard.getString());
+    setError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      const game = decodeGame(code);
+      setCode('');
+      setError(null);
+      onImport(game);
+    } catch (importError) {
+      setError(getErrorMessage(t, importError));
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={close}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title} accessibilityRole="header">{t('share.importTitle')}</Text>
+          <Text style={styles.subtitle}>{t('share.importSubtitle')}</Text>
+
+          <TextInput
+            style={[styles.input, error !== null && styles.inputError]}
+            value={code}
+            onChangeText={text => {
+              setCode(text);
+              setError(null);
+            }}
+            placeholder="NC1.…"
+            placeholderTextColor={theme.colors.textDisabled}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            accessibilityLabel={t('a11y.shareCode')}
+            accessibilityHint={t('share.importSubtitle')}
+          />
+          {error && (
+            <Text style={styles.errorText} accessibilityRole="alert" accessibilityLiveRegion="polite">
+              {error}
+            </Text>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={close} accessibilityRole="button">
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePaste} accessibilityRole="button">
+              <Text style={styles.secondaryButtonText}>{t('share.paste')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.importButton, code.trim() === '' && styles.importButtonDisabled]}
+              onPress={handleImport}
+              disabled={code.trim() === ''}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: code.trim() === '' }}
+            >
+              <Text style={styles.importButtonText}>{t('share.import')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: 25,
+    borderTopRightRadius: 25,
+    padding: 30,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 10,
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 20,
+    color: theme.colors.textSecondary,
+    fontWeight: '500',
+  },
+  input: {
+    minHeight: 90,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: 12,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    backgroundColor: theme.colors.background,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: theme.colors.danger,
+  },
+  errorText: {
+    fontSize: 14,
+    color: theme.colors.danger,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  importButton: {
+    flex: 1,
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 14,
+    borderRadius: 15,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: theme.colors.onPrimary,
+  },
+});
+
+export default ImportCodeModal;
@@ -0,0 +1,295 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { GameState } from '../types/gameTypes';
+import {
+  canUseDiceOperation,
+  canUseFinalOperation,
+  formatDiceChain,
+  formatMoveEquation,
+  getCurrentPlayer,
+  getOperationPreviews,
+} from '../services/gameService';
+import { getBankTimeLeft } from '../services/clockService';
+import { OPERATION_REGISTRY } from '../services/operationService';
+import { IntentAction } from '../services/multiplayerProtocol';
+import { formatOperationPreview } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { describeDice, describePlayer, getPlayerAppearance } from '../accessibility';
+import { useAccessibility } from '../accessibility/AccessibilityContext';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface LanGameBoardProps {
+  game: GameState;
+  // This device's seat; null until the host has given one
+  myPlayerId: number | null;
+  // False while waiting for players or a lost connection
+  canPlay: boolean;
+  onAction: (action: IntentAction) => void;
+}
+
+// Ağ oyununun tahtası: kurucu ve katılanlar aynı görünümü kullanır,
+// hamleler sadece niyet olarak gönderilir
+const LanGameBoard: React.FC<LanGameBoardProps> = ({ game, myPlayerId, canPlay, onAction }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const { colorBlind } = useAccessibility();
+  const styles = useThemedStyles(createStyles);
+
+  const currentPlayer = getCurrentPlayer(game);
+  const isMyTurn = canPlay && !game.winner && currentPlayer.id === myPlayerId;
+  const lastMove = game.moves[game.moves.length - 1];
+  const diceChain =
+    game.diceResults && game.diceOperations.length > 0
+      ? formatDiceChain(game.diceResults, game.diceOperations)
+      : null;
+  const secondsLeft = Math.ceil((game.clock.phaseTimeLeft + (getBankTimeLeft(game) ?? 0)) / 1000);
+
+  const renderOperations = () => {
+    const canUse = game.gamePhase === 'dice-operation' ? canUseDiceOperation : canUseFinalOperation;
+    const type = game.gamePhase === 'dice-operation' ? 'SELECT_DICE_OPERATION' : 'SELECT_FINAL_OPERATION';
+    return (
+      <View style={styles.operationRow}>
+        {getOperationPreviews(game).map(preview => {
+          const { operation } = preview;
+          const playable = canUse(game, operation);
+          const previewText = formatOperationPreview(t, preview);
+          return (
+            <TouchableOpacity
+              key={operation}
+              style={[styles.operationButton, !playable && styles.operationButtonDisabled]}
+              onPress={() => onAction({ type, operation })}
+              disabled={!playable}
+              accessibilityRole="button"
+              accessibilityLabel={`${t(OPERATION_REGISTRY[operation].labelKey)}, ${previewText}`}
+              accessibilityState={{ disabled: !playable }}
+            >
+              <Text style={styles.operationText}>{OPERATION_REGISTRY[operation].symbol}</Text>
+              <Text style={styles.operationPreview} numberOfLines={1}>
+                {preview.result ?? '—'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderTurn = () => {
+    if (game.winner) {
+      return (
+        <Text style={styles.statusText} accessibilityRole="header">
+          {t('game.winnerMessage', { name: game.winner.name })}
+        </Text>
+      );
+    }
+    if (!isMyTurn) {
+      return (
+        <Text style={styles.statusText}>{t('lan.waitingForTurn', { name: currentPlayer.name })}</Text>
+      );
+    }
+    if (game.gamePhase === 'roll') {
+      return (
+        <TouchableOpacity
+          style={styles.mainButton}
+          onPress={() => onAction({ type: 'ROLL_DICE' })}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.rollDice')}
+        >
+          <Text style={styles.mainButtonText}>{t('puzzle.roll')}</Text>
+        </TouchableOpacity>
+      );
+    }
+    return (
+      <>
+        <Text style={styles.sectionTitle}>
+          {game.gamePhase === 'dice-operation' ? t('game.diceTitle') : t('game.finalTitle')}
+        </Text>
+        {renderOperations()}
+      </>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.card}>
+        <View style={styles.targetRow}>
+          <Text
+            style={styles.targetText}
+            accessibilityLabel={t('a11y.target', { number: game.targetNumber })}
+          >
+            {t('game.target')} {game.targetNumber}
+          </Text>
+          {!game.winner && game.gamePhase !== 'roll' && (
+            <Text style={styles.clockText}>⏱️ {secondsLeft}</Text>
+          )}
+        </View>
+        {game.diceResults && game.gamePhase !== 'roll' && (
+          <Text style={styles.diceText} accessibilityLabel={describeDice(t, game.diceResults)}>
+            🎲 {game.diceResults.join(' · ')}
+            {diceChain ? ` → ${diceChain} = ${game.diceCalculationResult}` : ''}
+          </Text>
+        )}
+        {lastMove && <Text style={styles.equationText}>{formatMoveEquation(lastMove)}</Text>}
+      </View>
+
+      <View style={styles.card}>
+        {game.players.map(player => {
+          const appearance = getPlayerAppearance(player, colorBlind);
+          const isCurrent = player.id === currentPlayer.id && !game.winner;
+          const name = player.id === myPlayerId ? t('lan.you', { name: player.name }) : player.name;
+          return (
+            <View
+              key={player.id}
+              style={[styles.playerRow, isCurrent && { borderColor: appearance.color }]}
+              accessible
+              accessibilityLabel={describePlayer(t, player, isCurrent)}
+            >
+              <View style={[styles.playerBadge, { backgroundColor: appearance.color }]}>
+                <Text style={styles.playerBadgeText}>{appearance.shape ?? player.id}</Text>
+              </View>
+              <Text style={styles.playerName} numberOfLines={1}>{name}</Text>
+              <Text style={[styles.playerNumber, { color: isCurrent ? appearance.color : theme.colors.text }]}>
+                {player.currentNumber}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      <View style={styles.card}>{renderTurn()}</View>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginVertical: 6,
+    borderWidth: theme.name === 'highContrast' ? 1 : 0,
+    borderColor: theme.colors.border,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  targetText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: theme.colors.danger,
+  },
+  clockText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  diceText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginTop: 8,
+  },
+  equationText: {
+    fontSize: 15,
+    color: theme.colors.textSecondary,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  statusText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  // Players
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    marginVertical: 2,
+  },
+  playerBadge: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  playerBadgeText: {
+    color: theme.colors.onPrimary,
+    fontWeight: 'bold',
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  playerNumber: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+
+  // Operations
+  operationRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  operationButton: {
+    minWidth: 60,
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: theme.colors.accent,
+    alignItems: 'center',
+  },
+  operationButtonDisabled: {
+    borderColor: theme.colors.border,
+    opacity: 0.5,
+  },
+  operationText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  operationPreview: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+  },
+  mainButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: 25,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  mainButtonText: {
+    color: theme.colors.onPrimary,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+});
+
+export default LanGameBoard;
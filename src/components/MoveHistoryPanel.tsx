@@ -0,0 +1,162 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { GameMove, Player } from '../types/gameTypes';
+import { formatMoveEquation } from '../services/gameService';
+import { MoveRating } from '../services/solverService';
+import { Translate } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { getPlayerAppearance } from '../accessibility';
+import { useAccessibility } from '../accessibility/AccessibilityContext';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface MoveHistoryPanelProps {
+  moves: GameMove[];
+  players: Player[];
+  // Çözücü değerlendirmesi; verilirse her hamlenin yanında gösterilir
+  ratings?: MoveRating[];
+}
+
+const getRatingLabel = (t: Translate, rating: MoveRating): string => {
+  if (rating.turnsLost === 0) return '✓';
+  if (rating.turnsLost === null) return '?';
+  return t('history.turnsLost', { count: rating.turnsLost });
+};
+
+const MoveHistoryPanel: React.FC<MoveHistoryPanelProps> = ({ moves, players, ratings }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const { colorBlind } = useAccessibility();
+  const styles = useThemedStyles(createStyles);
+  // En yeni hamle en üstte
+  const orderedMoves = [...moves].reverse();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('history.title')}</Text>
+
+      {orderedMoves.length === 0 ? (
+        <Text style={styles.emptyText}>{t('history.empty')}</Text>
+      ) : (
+        <ScrollView style={styles.list} nestedScrollEnabled>
+          {orderedMoves.map(move => {
+            const player = players.find(p => p.id === move.playerId);
+            const appearance = player ? getPlayerAppearance(player, colorBlind) : null;
+            const color = appearance?.color ?? theme.colors.textMuted;
+            const rating = ratings?.[move.turn - 1];
+
+            return (
+              <View key={move.turn} style={styles.moveRow}>
+                <Text style={styles.turnText}>{move.turn}.</Text>
+                <View style={[styles.playerDot, { backgroundColor: color }]} />
+                <View style={styles.moveContent}>
+                  <Text style={[styles.playerName, { color }]}>
+                    {appearance?.shape ? `${appearance.shape} ` : ''}
+                    {player?.name ?? t('game.defaultPlayerName', { number: move.playerId })}
+                  </Text>
+                  <Text style={styles.equationText}>{formatMoveEquation(move)}</Text>
+                </View>
+                {move.forced && <Text style={styles.forcedBadge}>⏱️</Text>}
+                {rating && (
+                  <Text
+                    style={[
+                      styles.ratingBadge,
+                      rating.turnsLost === 0 ? styles.ratingOptimal : styles.ratingMissed,
+                    ]}
+                  >
+                    {getRatingLabel(t, rating)}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    padding: 12,
+    marginTop: 10,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '800',
+    color: theme.colors.textMuted,
+    letterSpacing: 1.5,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textDisabled,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  list: {
+    maxHeight: 160,
+  },
+  moveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  turnText: {
+    width: 28,
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textDisabled,
+  },
+  playerDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  moveContent: {
+    flex: 1,
+  },
+  playerName: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  equationText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.colors.textSecondary,
+  },
+  forcedBadge: {
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  ratingBadge: {
+    fontSize: 12,
+    fontWeight: '800',
+    marginLeft: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  ratingOptimal: {
+    color: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '20',
+  },
+  ratingMissed: {
+    color: theme.colors.highlightText,
+    backgroundColor: theme.colors.highlight,
+  },
+});
+
+export default MoveHistoryPanel;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface NumberPathChartProps {
+  // One line per player, one value per replay frame
+  paths: number[][];
+  colors: string[];
+  // Marks each line's end in color-blind mode; null draws no mark
+  shapes?: (string | null)[];
+  // The target at every frame; it only moves in multi-target games
+  targets: number[];
+  // Frame to mark with a vertical line
+  cursor?: number;
+  height?: number;
+  // Screen readers hear this instead of the lines
+  accessibilityLabel?: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const LINE_WIDTH = 3;
+const SHAPE_SIZE = 14;
+
+// Lines are drawn as thin rotated views, so no drawing library is needed
+const Segment: React.FC<{ from: Point; to: Point; color: string; width?: number }> = ({
+  from,
+  to,
+  color,
+  width = LINE_WIDTH,
+}) => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View
+      style={[
+        styles.segment,
+        {
+          left: (from.x + to.x) / 2 - length / 2,
+          top: (from.y + to.y) / 2 - width / 2,
+          width: length,
+          height: width,
+          backgroundColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+};
+
+const NumberPathChart: React.FC<NumberPathChartProps> = ({
+  paths,
+  colors,
+  shapes,
+  targets,
+  cursor,
+  height = 140,
+  accessibilityLabel,
+}) => {
+  const { theme } = useTheme();
+  const [width, setWidth] = useState(0);
+  const styles = useThemedStyles(createStyles);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const values = [...paths.flat(), ...targets];
+  const minValue = Math.min(0, ...values);
+  const maxValue = Math.max(1, ...values) * 1.05;
+  const frameCount = Math.max(targets.length, 2);
+
+  const toPoint = (frame: number, value: number): Point => ({
+    x: (frame / (frameCount - 1)) * width,
+    y: height - ((value - minValue) / (maxValue - minValue)) * height,
+  });
+
+  const renderPath = (path: number[], color: string, key: string, lineWidth?: number) =>
+    path.slice(1).map((value, index) => (
+      <Segment
+        key={`${key}-${index}`}
+        from={toPoint(index, path[index])}
+        to={toPoint(index + 1, value)}
+        color={color}
+        width={lineWidth}
+      />
+    ));
+
+  const renderShape = (path: number[], seat: number) => {
+    const shape = shapes?.[seat];
+    if (!shape || path.length === 0) return null;
+    const end = toPoint(path.length - 1, path[path.length - 1]);
+    return (
+      <Text
+        key={`shape-${seat}`}
+        style={[
+          styles.shape,
+          {
+            left: Math.min(end.x, width - SHAPE_SIZE / 2) - SHAPE_SIZE / 2,
+            top: end.y - SHAPE_SIZE / 2,
+            color: colors[seat],
+          },
+        ]}
+      >
+        {shape}
+      </Text>
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { height }]}
+      onLayout={handleLayout}
+      accessible={accessibilityLabel !== undefined}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      {width > 0 && (
+        <>
+          {renderPath(targets, theme.colors.textDisabled, 'target', 2)}
+          {paths.map((path, seat) => renderPath(path, colors[seat], `seat-${seat}`))}
+          {paths.map(renderShape)}
+          {cursor !== undefined && (
+            <View style={[styles.cursor, { left: toPoint(cursor, 0).x - 1, height }]} />
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    width: '100%',
+    overflow: 'hidden',
+  },
+  segment: {
+    position: 'absolute',
+    borderRadius: LINE_WIDTH / 2,
+  },
+  shape: {
+    position: 'absolute',
+    width: SHAPE_SIZE,
+    height: SHAPE_SIZE,
+    fontSize: SHAPE_SIZE - 2,
+    lineHeight: SHAPE_SIZE,
+    textAlign: 'center',
+  },
+  cursor: {
+    position: 'absolute',
+    top: 0,
+    width: 2,
+    backgroundColor: theme.colors.text,
+    opacity: 0.3,
+  },
+});
+
+export default NumberPathChart;
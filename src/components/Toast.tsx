@@ -0,0 +1,118 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Animated, StyleSheet, Text } from 'react-native';
+import { announce } from '../accessibility';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+export type ToastKind = 'info' | 'success' | 'error';
+
+interface ToastMessage {
+  // A new id per toast, so the same text shown twice still restarts the timer
+  id: number;
+  message: string;
+  kind: ToastKind;
+}
+
+interface ToastContextValue {
+  toast: ToastMessage | null;
+  showToast: (message: string, kind?: ToastKind) => void;
+}
+
+// How long a toast stays up, in ms
+export const TOAST_DURATION = 2500;
+
+const ToastContext = createContext<ToastContextValue>({
+  toast: null,
+  showToast: () => {},
+});
+
+// One toast at a time; a new one replaces whatever is showing
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const lastId = useRef(0);
+
+  const showToast = useCallback((message: string, kind: ToastKind = 'info') => {
+    lastId.current += 1;
+    setToast({ id: lastId.current, message, kind });
+    announce(message);
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+
+    const timeout = setTimeout(() => setToast(null), TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  const value = useMemo(() => ({ toast, showToast }), [toast, showToast]);
+
+  return <ToastContext.Provider value={value}>{children}</ToastContext.Provider>;
+};
+
+export const useToast = (): ToastContextValue => useContext(ToastContext);
+
+const getToastColors = (theme: Theme, kind: ToastKind) => {
+  switch (kind) {
+    case 'success':
+      return { background: theme.colors.primary, text: theme.colors.onPrimary };
+    case 'error':
+      return { background: theme.colors.danger, text: theme.colors.onPrimary };
+    case 'info':
+      return { background: theme.colors.text, text: theme.colors.background };
+  }
+};
+
+// Draws the current toast without taking touches. App renders one over every
+// screen; a Modal covers it, so an open modal renders its own
+export const ToastHost: React.FC = () => {
+  const { toast } = useToast();
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!toast) return;
+
+    opacity.setValue(0);
+    Animated.timing(opacity, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+  }, [toast, opacity]);
+
+  if (!toast) return null;
+
+  const colors = getToastColors(theme, toast.kind);
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[styles.toast, { opacity, backgroundColor: colors.background }]}
+    >
+      <Text style={[styles.toastText, { color: colors.text }]}>{toast.message}</Text>
+    </Animated.View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    right: 20,
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+    borderRadius: 15,
+    alignItems: 'center',
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  toastText: {
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
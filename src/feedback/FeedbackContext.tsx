@@ -0,0 +1,55 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { loadFeedbackSettings, saveFeedbackSettings } from '../services/settingsService';
+import {
+  DEFAULT_FEEDBACK_SETTINGS,
+  DEVICE_PLAYER,
+  FeedbackCue,
+  FeedbackPlayer,
+  FeedbackSettings,
+  playCue,
+} from './index';
+
+interface FeedbackContextValue {
+  settings: FeedbackSettings;
+  setSettings: (settings: FeedbackSettings) => void;
+  play: (cue: FeedbackCue) => void;
+}
+
+// Without a provider nothing is played
+const FeedbackContext = createContext<FeedbackContextValue>({
+  settings: DEFAULT_FEEDBACK_SETTINGS,
+  setSettings: () => {},
+  play: () => {},
+});
+
+interface FeedbackProviderProps {
+  children: React.ReactNode;
+  player?: FeedbackPlayer;
+}
+
+export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
+  children,
+  player = DEVICE_PLAYER,
+}) => {
+  const [settings, setSettingsState] = useState<FeedbackSettings>(DEFAULT_FEEDBACK_SETTINGS);
+
+  useEffect(() => {
+    loadFeedbackSettings().then(setSettingsState);
+  }, []);
+
+  const setSettings = useCallback((nextSettings: FeedbackSettings) => {
+    setSettingsState(nextSettings);
+    saveFeedbackSettings(nextSettings);
+  }, []);
+
+  const play = useCallback(
+    (cue: FeedbackCue) => playCue(cue, settings, player),
+    [settings, player],
+  );
+
+  const value = useMemo(() => ({ settings, setSettings, play }), [settings, setSettings, play]);
+
+  return <FeedbackContext.Provider value={value}>{children}</FeedbackContext.Provider>;
+};
+
+export const useFeedback = (): FeedbackContextValue => useContext(FeedbackContext);
@@ -0,0 +1,136 @@
+import { Vibration } from 'react-native';
+import Sound from 'react-native-sound';
+import { getBankTimeLeft } from '../services/clockService';
+import { GameState } from '../types/gameTypes';
+
+export type FeedbackCue = 'roll' | 'land' | 'operation' | 'invalid' | 'tick' | 'win';
+
+export interface FeedbackSettings {
+  // 0 to 1
+  volume: number;
+  // Silences sounds and vibration alike
+  muted: boolean;
+}
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = { volume: 0.8, muted: false };
+
+// Volume choices offered on the home screen
+export const VOLUME_STEPS = [0.25, 0.5, 0.8, 1];
+
+// The clock ticks audibly for the last seconds, same window as the card shake
+export const TICK_SECONDS = 3;
+
+// Vibration.vibrate patterns in ms: wait, vibrate, wait, vibrate...
+export const HAPTIC_PATTERNS: Record<FeedbackCue, number[]> = {
+  roll: [0, 20],
+  land: [0, 40],
+  operation: [0, 15],
+  invalid: [0, 60, 60, 60],
+  tick: [0, 10],
+  win: [0, 80, 80, 160],
+};
+
+// Whatever makes the noise and the buzz; tests pass one built from jest.fn()
+export interface FeedbackPlayer {
+  playSound: (cue: FeedbackCue, volume: number) => void;
+  vibrate: (pattern: number[]) => void;
+}
+
+// Short generated tones, bundled with the app
+const SOUND_FILES: Record<FeedbackCue, number> = {
+  roll: require('./sounds/roll.wav'),
+  land: require('./sounds/land.wav'),
+  operation: require('./sounds/operation.wav'),
+  invalid: require('./sounds/invalid.wav'),
+  tick: require('./sounds/tick.wav'),
+  win: require('./sounds/win.wav'),
+};
+
+// Each cue is loaded on first use and kept for the rest of the session
+const loadedSounds: Partial<Record<FeedbackCue, Sound>> = {};
+
+const playSound = (sound: Sound, volume: number) => {
+  // Starts over when the cue is still playing, as ticks a second apart can be
+  sound.stop(() => sound.setVolume(volume).play());
+};
+
+const playDeviceSound = (cue: FeedbackCue, volume: number) => {
+  const loaded = loadedSounds[cue];
+  if (loaded) {
+    if (loaded.isLoaded()) {
+      playSound(loaded, volume);
+    }
+    return;
+  }
+  // Mixes with music from other apps and stays quiet on iOS's silent switch
+  Sound.setCategory('Ambient', true);
+  const sound = new Sound(SOUND_FILES[cue], error => {
+    if (!error) {
+      playSound(sound, volume);
+    }
+  });
+  loadedSounds[cue] = sound;
+};
+
+export const DEVICE_PLAYER: FeedbackPlayer = {
+  playSound: playDeviceSound,
+  vibrate: pattern => Vibration.vibrate(pattern),
+};
+
+export const isFeedbackSettings = (value: unknown): value is FeedbackSettings => {
+  const settings = value as FeedbackSettings | null;
+  return (
+    typeof settings === 'object' &&
+    settings !== null &&
+    typeof settings.muted === 'boolean' &&
+    typeof settings.volume === 'number' &&
+    settings.volume >= 0 &&
+    settings.volume <= 1
+  );
+};
+
+export const playCue = (
+  cue: FeedbackCue,
+  settings: FeedbackSettings,
+  player: FeedbackPlayer,
+): void => {
+  if (settings.muted) return;
+
+  if (settings.volume > 0) {
+    player.playSound(cue, settings.volume);
+  }
+  player.vibrate(HAPTIC_PATTERNS[cue]);
+};
+
+const getSecondsLeft = (gameState: GameState): number => {
+  return Math.ceil((gameState.clock.phaseTimeLeft + (getBankTimeLeft(gameState) ?? 0)) / 1000);
+};
+
+// Cues for going from one state to the next, whoever caused it: a player, a
+// bot or the clock. The roll cue is left to the screen since it starts the
+// dice animation before the engine sees the roll, and rejected moves never
+// reach a new state. Undoing into the middle of an earlier turn is quiet
+export const getStateCues = (previous: GameState, next: GameState): FeedbackCue[] => {
+  const cues: FeedbackCue[] = [];
+
+  const sameTurn = next.moves.length === previous.moves.length;
+  if (sameTurn && !previous.diceResults && next.diceResults) {
+    cues.push('land');
+  }
+  const pickedDiceOperation =
+    sameTurn && next.diceOperations.length > previous.diceOperations.length;
+  if (pickedDiceOperation || next.moves.length > previous.moves.length) {
+    cues.push('operation');
+  }
+
+  const seconds = getSecondsLeft(next);
+  const samePhase = sameTurn && next.gamePhase === previous.gamePhase;
+  if (samePhase && seconds < getSecondsLeft(previous) && seconds > 0 && seconds <= TICK_SECONDS) {
+    cues.push('tick');
+  }
+
+  if (!previous.winner && next.winner) {
+    cues.push('win');
+  }
+  return cues;
+};
@@ -0,0 +1,42 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { loadLanguage, saveLanguage } from '../services/settingsService';
+import { DEFAULT_LANGUAGE, Language, Translate, createTranslator } from './index';
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+}
+
+// Without a provider everything renders in the default language
+const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: createTranslator(DEFAULT_LANGUAGE),
+});
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+  useEffect(() => {
+    loadLanguage().then(saved => {
+      if (saved) {
+        setLanguageState(saved);
+      }
+    });
+  }, []);
+
+  const setLanguage = useCallback((nextLanguage: Language) => {
+    setLanguageState(nextLanguage);
+    saveLanguage(nextLanguage);
+  }, []);
+
+  const value = useMemo(
+    () => ({ language, setLanguage, t: createTranslator(language) }),
+    [language, setLanguage],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
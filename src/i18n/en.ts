@@ -0,0 +1,288 @@
+import { Catalog } from './index';
+
+export const en: Catalog = {
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+
+  'language.tr': 'Türkçe',
+  'language.en': 'English',
+
+  'theme.system': 'System',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.highContrast': 'High Contrast',
+
+  'home.subtitle': 'A Game of Maths and Strategy',
+  'home.howToPlay': 'How to Play',
+  'home.howToPlayText':
+    '🎲 Roll the dice and combine the numbers\n' +
+    '🎯 Try to reach the target number\n' +
+    '⏱️ Every phase is on the clock\n' +
+    '🏆 First to hit the target wins!',
+  'home.continue': 'Continue Game',
+  'home.continueDetails': '{players} · Target {target}',
+  'home.playerCountTitle': 'How Many Players?',
+  'home.playerOptionTitle': '{count}-Player Game',
+  'home.playerOptionSubtitle': '{count} players take turns',
+  'home.leaderboard': '🏆 Leaderboard',
+  'home.puzzles': '🧩 Puzzles',
+  'home.settings': '⚙️ Settings',
+  'home.importGame': '🔗 Open Game Code',
+  'home.lan': '📡 Play on Local Network',
+  'home.daily': 'Daily Challenge',
+  'home.dailyDetails': 'Same target, same dice for everyone',
+  'home.dailyDone': "Today's is done, replays do not count",
+
+  'rules.preset.classic': 'Classic',
+  'rules.preset.blitz': 'Blitz',
+  'rules.preset.marathon': 'Marathon',
+  'rules.preset.custom': 'Custom',
+  'rules.preset.daily': 'Daily',
+  'rules.error.NOT_INTEGER': 'All values must be whole numbers!',
+  'rules.error.NEGATIVE_START': 'The starting number cannot be negative!',
+  'rules.error.INVALID_TARGET_RANGE': 'The target range is invalid!',
+  'rules.error.TIME_TOO_SHORT': 'Time limits must be at least 1 second!',
+  'rules.error.NEGATIVE_TIME_BANK': 'The time bank cannot be negative!',
+  'rules.error.INVALID_OPERATIONS': 'Turn on at least one of +, − or ×!',
+  'rules.error.INVALID_DICE': 'Use 2 to {maxDice} dice with 2 to {maxFaces} different faces from 0 to {maxFace}!',
+  'rules.error.INVALID_WIN_CONDITION': 'Rounds and targets must be at least 1!',
+  'rules.error.INVALID_PLAYER_COUNT': 'Player count must be between 1 and {max}!',
+
+  'setup.title': 'Game Rules',
+  'setup.field.initialNumber': 'Starting Number',
+  'setup.field.minTarget': 'Lowest Target',
+  'setup.field.maxTarget': 'Highest Target',
+  'setup.field.diceOperationTime': 'Dice Operation Time (s)',
+  'setup.field.finalOperationTime': 'Main Number Operation Time (s)',
+  'setup.field.timeBank': 'Time Bank (s, 0 = off)',
+  'setup.field.operations': 'Operations',
+  'setup.field.diceCount': 'Number of Dice',
+  'setup.field.die': 'Die',
+  'setup.field.faces': 'Die faces',
+  'setup.customDie': 'Custom',
+  'setup.facesPlaceholder': 'e.g. 0, 1, 2, 3, 5, 8',
+  'setup.field.rounds': 'Rounds',
+  'setup.field.targets': 'Targets to Win',
+  'setup.winCondition': 'Win Condition',
+  'setup.rulesSummary': 'Start {initial} · Target {min}–{max} · {dice}+{final} s',
+  'setup.rulesSummaryBank': ' · Bank {bank} s',
+  'setup.playerCount': 'Players',
+  'setup.playerRange': '{min}–{max} players',
+  'setup.continue': 'CONTINUE',
+
+  'bot.difficulty.easy': 'Easy',
+  'bot.difficulty.medium': 'Medium',
+  'bot.difficulty.hard': 'Hard',
+  'bot.name.easy': 'Easy Bot',
+  'bot.name.medium': 'Medium Bot',
+  'bot.name.hard': 'Hard Bot',
+
+  'game.loading': 'Loading game...',
+  'game.defaultPlayerName': 'Player {number}',
+  'game.playerNamesTitle': 'Player Names',
+  'game.playerNamesSubtitle': 'Enter the names before the game starts',
+  'game.enterAllNames': 'Please enter every player name!',
+  'game.seatHuman': '👤 Human',
+  'game.allowUndo': 'Allow Undo',
+  'game.allowUndoHint': 'Turn off for competitive games',
+  'game.teams': '2v2 Teams',
+  'game.teamsHint': 'Teammates share one number',
+  'game.start': 'START GAME',
+  'game.target': 'TARGET',
+  'game.yourTurn': 'YOUR TURN!',
+  'game.turn': 'TURN',
+  'game.phase.dice': 'Dice Operation',
+  'game.phase.final': 'Main Number Operation',
+  'game.paused': 'Game paused',
+  'game.botThinking': '🤖 {name} is thinking...',
+  'game.hint': '💡 Hint',
+  'game.undo': '↩️ Undo',
+  'game.hintTooFar': 'The target is still too far away',
+  'game.hintWins': 'This move wins!',
+  'game.hintTurnsLeft': {
+    one: 'At least {count} more turn to the target',
+    other: 'At least {count} more turns to the target',
+  },
+  'game.teammateSuggests': '💬 {name} suggests {operation}',
+
+  'game.diceTitle': 'Combine the Dice',
+  'game.finalTitle': 'Apply It to Your Number',
+  'game.diceResult': 'Dice result: {result}',
+  'game.winnerTitle': '🎉 Congratulations!',
+  'game.winnerMessage': '{name} won the game!',
+  'game.winReason.exact': '{name} hit the target exactly.',
+  'game.winReason.closest': {
+    one: '{name} was closest to the target after {count} round.',
+    other: '{name} was closest to the target after {count} rounds.',
+  },
+  'game.winReason.lastStanding': 'Everyone else went over the target; {name} is the last one standing.',
+  'game.winReason.targets': {
+    one: '{name} hit the target first.',
+    other: '{name} was first to hit {count} targets.',
+  },
+  'game.roundProgress': 'Round {round}/{rounds}',
+  'game.targetsProgress': 'First to {targets} targets wins',
+  'game.bustWarning': 'Go over the target and you are out!',
+  'game.eliminated': 'Out',
+  'game.optimalMoves': 'Optimal moves: {optimal}/{total}',
+  'game.home': 'Home',
+  'game.leaveTitle': 'Leave Game',
+  'game.leaveMessage': 'The game is saved, you can pick it up later where you left off.',
+  'game.leave': 'Leave',
+  'game.analysis': 'Analysis',
+  'game.newGame': 'New Game',
+
+  'history.title': 'MOVE HISTORY',
+  'history.empty': 'No moves yet',
+  'history.turnsLost': { one: '+{count} turn', other: '+{count} turns' },
+
+  'results.standings': 'Standings',
+  'results.paths': 'Number Paths',
+  'results.replay': 'Replay',
+  'results.frame': 'Move {turn}/{total}',
+  'results.start': 'Start',
+  'results.first': 'Back to start',
+  'results.previous': 'Previous move',
+  'results.play': 'Play',
+  'results.pause': 'Pause',
+  'results.next': 'Next move',
+  'results.last': 'Go to end',
+
+  'share.button': '🔗 Game Code',
+  'share.copiedMessage': 'The game code is on the clipboard. Paste it with "Open Game Code" on another device.',
+  'share.importTitle': 'Open Game Code',
+  'share.importSubtitle': 'Paste a shared code and the game is rebuilt move by move.',
+  'share.paste': 'Paste',
+  'share.import': 'Open',
+
+  'daily.title': '📅 Daily Result',
+  'daily.result': {
+    one: 'You reached the target in {count} turn. With these dice the best is {best}.',
+    other: 'You reached the target in {count} turns. With these dice the best is {best}.',
+  },
+  'daily.optimal': 'Perfect! It cannot be done any faster.',
+  'daily.notCounted': "Today's challenge was already played, this try does not count.",
+  'daily.streak': '🔥 {count}-day streak',
+  'daily.copySummary': '📋 Copy Summary',
+  'daily.copied': 'The summary is on the clipboard.',
+  'daily.summaryTitle': 'NumClash Daily {date}',
+  'daily.summaryScore': { one: '{count} turn (best {best}) · 🔥 {streak}', other: '{count} turns (best {best}) · 🔥 {streak}' },
+
+  'puzzle.title': '🧩 Puzzles',
+  'puzzle.generatedPack': 'Endless Puzzles',
+  'puzzle.levelLabel': 'Level {number}, {stars} stars',
+  'puzzle.levelTitle': 'Level {number}',
+  'puzzle.goal': {
+    one: 'Get from {start} to {target}. The best takes {count} turn.',
+    other: 'Get from {start} to {target}. The best takes {count} turns.',
+  },
+  'puzzle.current': 'YOUR NUMBER',
+  'puzzle.rollsLeft': 'Rolls left: {count}',
+  'puzzle.roll': '🎲 Roll',
+  'puzzle.restart': 'Start over',
+  'puzzle.solved': { one: 'Solved in {count} turn!', other: 'Solved in {count} turns!' },
+  'puzzle.failed': 'Out of rolls before reaching the target.',
+  'puzzle.retry': 'Try Again',
+  'puzzle.next': 'Next Level',
+
+  'lan.title': 'Local Network',
+  'lan.hostTitle': 'Host a Game',
+  'lan.hostSubtitle': 'Other devices join from the same Wi-Fi network',
+  'lan.host': 'HOST GAME',
+  'lan.joinTitle': 'Join a Game',
+  'lan.addressPlaceholder': "Host's address, e.g. 192.168.1.20",
+  'lan.join': 'JOIN',
+  'lan.address': 'Address: {address}',
+  'lan.noAddress': 'No Wi-Fi address found',
+  'lan.waiting': 'Waiting for players: {count}/{total}',
+  'lan.connecting': 'Connecting...',
+  'lan.you': '{name} (you)',
+  'lan.waitingForTurn': "It's {name}'s turn",
+  'lan.disconnected': 'Connection lost',
+  'lan.reconnect': 'Reconnect',
+  'lan.leaveMessage': 'Network games are not saved, this device leaves the game.',
+  'lan.hostFailed': 'Could not host, the port may be in use!',
+  'lan.rejected.NOT_YOUR_TURN': "It's not your turn!",
+  'lan.rejected.NO_FREE_SEAT': 'The game is full!',
+  'lan.rejected.ALREADY_SEATED': 'You already have a seat!',
+  'lan.rejected.UNKNOWN_TOKEN': 'Your seat was not found!',
+  'lan.rejected.INVALID_MESSAGE': 'Invalid request!',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.theme': 'Theme',
+  'settings.accessibility': 'Accessibility',
+  'settings.colorBlind': 'Color-Blind Mode',
+  'settings.colorBlindHint': 'Distinguishable colors and a shape for each player',
+  'settings.sound': 'Sound and Vibration',
+  'settings.mute': 'Mute',
+  'settings.volume': 'Volume {percent} percent',
+
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.metric.wins': 'Wins',
+  'leaderboard.metric.gamesPlayed': 'Games',
+  'leaderboard.metric.winRate': 'Win %',
+  'leaderboard.metric.averageTurnsToWin': 'Avg. Turns',
+  'leaderboard.metric.forcedMoves': 'Timed Out',
+  'leaderboard.clearTitle': 'Delete Statistics',
+  'leaderboard.clearMessage': 'Delete all player statistics?',
+  'leaderboard.empty': 'No finished games yet',
+  'leaderboard.rowDetails': '{wins}/{games} wins · {moves} moves · ⏱️ {forced}',
+
+  'winCondition.exact': 'Exact Target',
+  'winCondition.closest': 'Closest',
+  'winCondition.bust': 'Exact or Bust',
+  'winCondition.targets': 'Several Targets',
+
+  'operation.add': 'Addition',
+  'operation.subtract': 'Subtraction',
+  'operation.multiply': 'Multiplication',
+  'operation.divide': 'Division',
+  'operation.power': 'Exponent',
+  'operation.modulo': 'Modulo',
+  'operation.concat': 'Concatenation',
+
+  'a11y.dice': 'Dice: {dice} and {last}',
+  'a11y.rollDice': 'Roll the dice',
+  'a11y.player': '{name}, number {number}',
+  'a11y.targetsWon': { one: '{count} target', other: '{count} targets' },
+  'a11y.currentTurn': 'their turn',
+  'a11y.turn': 'Turn: {name}',
+  'a11y.moveResult': '{name} is now on {number}. Turn: {next}',
+  'a11y.timeWarning': { one: '{count} second left', other: '{count} seconds left' },
+  'a11y.target': 'Target {number}',
+  'a11y.undo': 'Undo',
+  'a11y.redo': 'Redo',
+  'a11y.share': 'Share game code',
+  'a11y.history': 'Move history',
+  'a11y.pause': 'Pause the game',
+  'a11y.resume': 'Resume the game',
+  'a11y.numberPaths': 'Number paths. {paths}',
+  'a11y.numberPath': '{name}: {start} to {end}',
+  'a11y.leaderboardRow': '{rank}. {name}, {metric}: {value}',
+  'a11y.shareCode': 'Game code',
+
+  'errors.DIVISION_BY_ZERO': 'Cannot divide by zero!',
+  'errors.INEXACT_DIVISION': 'The division is not exact!',
+  'errors.NEGATIVE_OPERAND': 'This operation does not take negative numbers!',
+  'errors.RESULT_TOO_LARGE': 'The result is too large!',
+  'errors.INVALID_OPERATION': 'Invalid operation!',
+  'errors.OPERATION_DISABLED': 'This operation is off in these rules!',
+  'errors.GAME_PAUSED': 'The game is paused!',
+  'errors.GAME_OVER': 'The game is over!',
+  'errors.ALREADY_ROLLED': 'The dice are already rolled!',
+  'errors.DICE_NOT_ROLLED': 'Roll the dice first!',
+  'errors.DICE_NOT_CALCULATED': 'Combine the dice first!',
+  'errors.NO_ROLLS_LEFT': 'There are no rolls left!',
+  'errors.INVALID_TEAMS': 'Team games need exactly 4 players!',
+  'errors.INVALID_SHARE_CODE': 'This is not a game code!',
+  'errors.SHARE_CODE_VERSION': 'This code is from another version of the game and cannot be opened!',
+  'errors.SHARE_CODE_TAMPERED': 'The game code is damaged or was edited!',
+  'errors.unknown': 'Something went wrong!',
+
+  'preview.divisionByZero': 'divides by zero',
+  'preview.notWhole': 'not whole',
+  'preview.negative': 'no negatives',
+  'preview.tooLarge': 'too large',
+  'preview.unavailable': 'not available',
+};
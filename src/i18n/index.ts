@@ -0,0 +1,104 @@
+import { GameError, GameErrorCode } from '../services/gameError';
+import type { BotDifficulty } from '../types/gameTypes';
+import type { RejectReason } from '../services/multiplayerProtocol';
+import type { OperationPreview } from '../services/gameService';
+import { getOperationSymbol } from '../services/operationService';
+import { en } from './en';
+import { tr } from './tr';
+import { Message, MessageParams, PluralMessage } from './types';
+
+export type { Message, MessageParams, PluralMessage } from './types';
+
+export type Language = 'tr' | 'en';
+
+export const LANGUAGES: Language[] = ['tr', 'en'];
+
+export const DEFAULT_LANGUAGE: Language = 'tr';
+
+export type MessageKey = keyof typeof tr;
+
+// Every catalog must translate every key of the reference catalog
+export type Catalog = Record<MessageKey, Message>;
+
+const CATALOGS: Record<Language, Catalog> = { tr, en };
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const isLanguage = (value: unknown): value is Language => {
+  return LANGUAGES.includes(value as Language);
+};
+
+// "{name} oyunu kazandı!" + { name: 'Ada' } → "Ada oyunu kazandı!"
+// Unknown placeholders are left as they are so a missing param is easy to spot.
+export const interpolate = (template: string, params: MessageParams = {}): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? `${params[name]}` : placeholder,
+  );
+};
+
+// Turkish never inflects after a number and English only needs one/other
+const selectPlural = (message: PluralMessage, count: number): string => {
+  return count === 1 ? message.one : message.other;
+};
+
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  params?: MessageParams,
+): string => {
+  const message = CATALOGS[language][key] ?? CATALOGS[DEFAULT_LANGUAGE][key];
+  if (message === undefined) {
+    return key;
+  }
+  const template =
+    typeof message === 'string' ? message : selectPlural(message, Number(params?.count ?? 0));
+  return interpolate(template, params);
+};
+
+export const createTranslator = (language: Language): Translate => {
+  return (key, params) => translate(language, key, params);
+};
+
+// What a seat is called when nobody typed a name
+export const getDefaultPlayerName = (
+  t: Translate,
+  seat: number,
+  bot?: BotDifficulty | null,
+): string => {
+  return bot ? t(`bot.name.${bot}`) : t('game.defaultPlayerName', { number: seat + 1 });
+};
+
+// Engine errors are translated by code; anything else is unexpected
+export const getErrorMessage = (t: Translate, error: unknown): string => {
+  return error instanceof GameError ? t(`errors.${error.code}`) : t('errors.unknown');
+};
+
+// A LAN host refused a move: engine errors read as usual, the rest are about the session
+export const getRejectionMessage = (t: Translate, reason: RejectReason): string => {
+  switch (reason) {
+    case 'NOT_YOUR_TURN':
+    case 'NO_FREE_SEAT':
+    case 'ALREADY_SEATED':
+    case 'UNKNOWN_TOKEN':
+    case 'INVALID_MESSAGE':
+      return t(`lan.rejected.${reason}`);
+    default:
+      return t(`errors.${reason}`);
+  }
+};
+
+// Short forms of the operation errors, small enough for a button
+const PREVIEW_REASONS: Partial<Record<GameErrorCode, MessageKey>> = {
+  DIVISION_BY_ZERO: 'preview.divisionByZero',
+  INEXACT_DIVISION: 'preview.notWhole',
+  NEGATIVE_OPERAND: 'preview.negative',
+  RESULT_TOO_LARGE: 'preview.tooLarge',
+};
+
+// "3 × 2 → 6", or "3 ÷ 2 → not whole" when the operation cannot be played
+export const formatOperationPreview = (t: Translate, preview: OperationPreview): string => {
+  const outcome = preview.error === null
+    ? `${preview.result}`
+    : t(PREVIEW_REASONS[preview.error] ?? 'preview.unavailable');
+  return `${preview.number1} ${getOperationSymbol(preview.operation)} ${preview.number2} → ${outcome}`;
+};
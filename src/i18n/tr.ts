@@ -0,0 +1,273 @@
+import { Message } from './types';
+
+// Turkish is the reference catalog: its keys define MessageKey
+export const tr = {
+  'common.cancel': 'Vazgeç',
+  'common.delete': 'Sil',
+
+  'language.tr': 'Türkçe',
+  'language.en': 'English',
+
+  'theme.system': 'Sistem',
+  'theme.light': 'Açık',
+  'theme.dark': 'Koyu',
+  'theme.highContrast': 'Yüksek Kontrast',
+
+  'home.subtitle': 'Matematik ve Strateji Oyunu',
+  'home.howToPlay': 'Nasıl Oynanır?',
+  'home.howToPlayText':
+    '🎲 Zar at ve çıkan sayılarla işlem yap\n' +
+    '🎯 Hedef sayıya ulaşmaya çalış\n' +
+    '⏱️ Her aşama için süren sınırlı\n' +
+    '🏆 Hedefe ilk ulaşan kazanır!',
+  'home.continue': 'Oyuna Devam Et',
+  'home.continueDetails': '{players} · Hedef {target}',
+  'home.playerCountTitle': 'Kaç Kişi Oynayacak?',
+  'home.playerOptionTitle': '{count} Kişilik Oyun',
+  'home.playerOptionSubtitle': '{count} oyuncu sırayla oynar',
+  'home.leaderboard': '🏆 Liderlik Tablosu',
+  'home.puzzles': '🧩 Bulmacalar',
+  'home.settings': '⚙️ Ayarlar',
+  'home.importGame': '🔗 Oyun Kodu Aç',
+  'home.lan': '📡 Yerel Ağda Oyna',
+  'home.daily': 'Günün Meydan Okuması',
+  'home.dailyDetails': 'Herkese aynı hedef, aynı zarlar',
+  'home.dailyDone': 'Bugünkü tamam, tekrar oynamak seriyi etkilemez',
+
+  'rules.preset.classic': 'Klasik',
+  'rules.preset.blitz': 'Yıldırım',
+  'rules.preset.marathon': 'Maraton',
+  'rules.preset.custom': 'Özel',
+  'rules.preset.daily': 'Günlük',
+  'rules.error.NOT_INTEGER': 'Tüm değerler tam sayı olmalı!',
+  'rules.error.NEGATIVE_START': 'Başlangıç sayısı negatif olamaz!',
+  'rules.error.INVALID_TARGET_RANGE': 'Hedef aralığı geçersiz!',
+  'rules.error.TIME_TOO_SHORT': 'Süreler en az 1 saniye olmalı!',
+  'rules.error.NEGATIVE_TIME_BANK': 'Süre bankası negatif olamaz!',
+  'rules.error.INVALID_OPERATIONS': '+, − veya × işlemlerinden en az biri açık olmalı!',
+  'rules.error.INVALID_DICE': '2 ile {maxDice} arası zar ve 2 ile {maxFaces} arası farklı yüz (0–{maxFace}) olmalı!',
+  'rules.error.INVALID_WIN_CONDITION': 'Tur ve hedef sayısı en az 1 olmalı!',
+  'rules.error.INVALID_PLAYER_COUNT': 'Oyuncu sayısı 1 ile {max} arasında olmalı!',
+
+  'setup.title': 'Oyun Kuralları',
+  'setup.field.initialNumber': 'Başlangıç Sayısı',
+  'setup.field.minTarget': 'En Küçük Hedef',
+  'setup.field.maxTarget': 'En Büyük Hedef',
+  'setup.field.diceOperationTime': 'Zar İşlemi Süresi (sn)',
+  'setup.field.finalOperationTime': 'Ana Sayı İşlemi Süresi (sn)',
+  'setup.field.timeBank': 'Süre Bankası (sn, 0 = kapalı)',
+  'setup.field.operations': 'İşlemler',
+  'setup.field.diceCount': 'Zar Sayısı',
+  'setup.field.die': 'Zar',
+  'setup.field.faces': 'Zar yüzleri',
+  'setup.customDie': 'Özel',
+  'setup.facesPlaceholder': 'Örn. 0, 1, 2, 3, 5, 8',
+  'setup.field.rounds': 'Tur Sayısı',
+  'setup.field.targets': 'Kazanmak İçin Hedef',
+  'setup.winCondition': 'Kazanma Koşulu',
+  'setup.rulesSummary': 'Başlangıç {initial} · Hedef {min}–{max} · {dice}+{final} sn',
+  'setup.rulesSummaryBank': ' · Banka {bank} sn',
+  'setup.playerCount': 'Oyuncu Sayısı',
+  'setup.playerRange': '{min}–{max} oyuncu',
+  'setup.continue': 'DEVAM',
+
+  'bot.difficulty.easy': 'Kolay',
+  'bot.difficulty.medium': 'Orta',
+  'bot.difficulty.hard': 'Zor',
+  'bot.name.easy': 'Bot Kolay',
+  'bot.name.medium': 'Bot Orta',
+  'bot.name.hard': 'Bot Zor',
+
+  'game.loading': 'Oyun yükleniyor...',
+  'game.defaultPlayerName': 'Oyuncu {number}',
+  'game.playerNamesTitle': 'Oyuncu İsimleri',
+  'game.playerNamesSubtitle': 'Oyuna başlamadan önce isimleri girin',
+  'game.enterAllNames': 'Lütfen tüm oyuncu isimlerini girin!',
+  'game.seatHuman': '👤 İnsan',
+  'game.allowUndo': 'Geri Almaya İzin Ver',
+  'game.allowUndoHint': 'Rekabetçi oyunlarda kapatın',
+  'game.teams': '2v2 Takım Oyunu',
+  'game.teamsHint': 'Takım arkadaşları aynı sayıyı paylaşır',
+  'game.start': 'OYUNU BAŞLAT',
+  'game.target': 'HEDEF',
+  'game.yourTurn': 'SIRAN!',
+  'game.turn': 'SIRA',
+  'game.phase.dice': 'Zar İşlemi',
+  'game.phase.final': 'Ana Sayı İşlemi',
+  'game.paused': 'Oyun duraklatıldı',
+  'game.botThinking': '🤖 {name} düşünüyor...',
+  'game.hint': '💡 İpucu',
+  'game.undo': '↩️ Geri Al',
+  'game.hintTooFar': 'Hedef şimdilik çok uzak',
+  'game.hintWins': 'Bu hamle kazandırır!',
+  'game.hintTurnsLeft': 'Hedefe en az {count} tur kalır',
+  'game.teammateSuggests': '💬 {name}: {operation} öneriyor',
+  'game.diceTitle': 'Zarları Hesapla',
+  'game.finalTitle': 'Ana Sayınla İşlem Yap',
+  'game.diceResult': 'Zar Sonucu: {result}',
+  'game.winnerTitle': '🎉 Tebrikler!',
+  'game.winnerMessage': '{name} oyunu kazandı!',
+  'game.winReason.exact': '{name} hedefi tam tutturdu.',
+  'game.winReason.closest': '{count} tur sonunda hedefe en yakın oyuncu {name} oldu.',
+  'game.winReason.lastStanding': 'Diğer herkes hedefi geçti, ayakta kalan son oyuncu {name}.',
+  'game.winReason.targets': '{count} hedefi ilk tutturan {name} oldu.',
+  'game.roundProgress': 'Tur {round}/{rounds}',
+  'game.targetsProgress': '{targets} hedefi ilk tutturan kazanır',
+  'game.bustWarning': 'Hedefi geçen elenir!',
+  'game.eliminated': 'Elendi',
+  'game.optimalMoves': 'Optimal hamleler: {optimal}/{total}',
+  'game.home': 'Ana Sayfa',
+  'game.leaveTitle': 'Oyundan Çık',
+  'game.leaveMessage': 'Oyun kaydedilir, daha sonra kaldığın yerden devam edebilirsin.',
+  'game.leave': 'Çık',
+  'game.analysis': 'Analiz',
+  'game.newGame': 'Yeni Oyun',
+
+  'history.title': 'HAMLE GEÇMİŞİ',
+  'history.empty': 'Henüz hamle yapılmadı',
+  'history.turnsLost': '+{count} tur',
+
+  'results.standings': 'Sıralama',
+  'results.paths': 'Sayıların Yolu',
+  'results.replay': 'Tekrar',
+  'results.frame': 'Hamle {turn}/{total}',
+  'results.start': 'Başlangıç',
+  'results.first': 'Başa dön',
+  'results.previous': 'Önceki hamle',
+  'results.play': 'Oynat',
+  'results.pause': 'Duraklat',
+  'results.next': 'Sonraki hamle',
+  'results.last': 'Sona git',
+
+  'share.button': '🔗 Oyun Kodu',
+  'share.copiedMessage': 'Oyun kodu panoya kopyalandı. Başka bir cihazda "Oyun Kodu Aç" ile yapıştırın.',
+  'share.importTitle': 'Oyun Kodu Aç',
+  'share.importSubtitle': 'Paylaşılan kodu yapıştırın, oyun hamle hamle yeniden kurulsun.',
+  'share.paste': 'Yapıştır',
+  'share.import': 'Aç',
+
+  'daily.title': '📅 Günün Sonucu',
+  'daily.result': '{count} turda hedefe ulaştın. Bu zarlarla en iyisi {best} tur.',
+  'daily.optimal': 'Mükemmel! Daha hızlısı mümkün değil.',
+  'daily.notCounted': 'Bugün zaten oynanmıştı, bu deneme sayılmadı.',
+  'daily.streak': '🔥 {count} gün seri',
+  'daily.copySummary': '📋 Özeti Kopyala',
+  'daily.copied': 'Özet panoya kopyalandı.',
+  'daily.summaryTitle': 'NumClash Günlük {date}',
+  'daily.summaryScore': '{count} tur (en iyisi {best}) · 🔥 {streak}',
+
+  'puzzle.title': '🧩 Bulmacalar',
+  'puzzle.generatedPack': 'Sonsuz Bulmacalar',
+  'puzzle.levelLabel': 'Seviye {number}, {stars} yıldız',
+  'puzzle.levelTitle': 'Seviye {number}',
+  'puzzle.goal': '{start} sayısından {target} hedefine ulaş. En iyisi {count} tur.',
+  'puzzle.current': 'SAYIN',
+  'puzzle.rollsLeft': 'Kalan zarlar: {count}',
+  'puzzle.roll': '🎲 Zarı At',
+  'puzzle.restart': 'Baştan Başla',
+  'puzzle.solved': '{count} turda çözdün!',
+  'puzzle.failed': 'Zarlar bitti, hedefe ulaşılamadı.',
+  'puzzle.retry': 'Tekrar Dene',
+  'puzzle.next': 'Sonraki Seviye',
+
+  'lan.title': 'Yerel Ağ',
+  'lan.hostTitle': 'Oyun Kur',
+  'lan.hostSubtitle': 'Diğer cihazlar aynı Wi-Fi ağından katılır',
+  'lan.host': 'OYUNU KUR',
+  'lan.joinTitle': 'Oyuna Katıl',
+  'lan.addressPlaceholder': 'Kurucunun adresi, ör. 192.168.1.20',
+  'lan.join': 'KATIL',
+  'lan.address': 'Adres: {address}',
+  'lan.noAddress': 'Wi-Fi adresi bulunamadı',
+  'lan.waiting': 'Oyuncular bekleniyor: {count}/{total}',
+  'lan.connecting': 'Bağlanılıyor...',
+  'lan.you': '{name} (sen)',
+  'lan.waitingForTurn': 'Sıra {name} oyuncusunda',
+  'lan.disconnected': 'Bağlantı koptu',
+  'lan.reconnect': 'Yeniden Bağlan',
+  'lan.leaveMessage': 'Ağ oyunu kaydedilmez, bu cihaz oyundan ayrılır.',
+  'lan.hostFailed': 'Oyun kurulamadı, port kullanımda olabilir!',
+  'lan.rejected.NOT_YOUR_TURN': 'Sıra sende değil!',
+  'lan.rejected.NO_FREE_SEAT': 'Oyunda boş yer yok!',
+  'lan.rejected.ALREADY_SEATED': 'Zaten oyunda bir yerin var!',
+  'lan.rejected.UNKNOWN_TOKEN': 'Oyundaki yerin bulunamadı!',
+  'lan.rejected.INVALID_MESSAGE': 'Geçersiz istek!',
+
+  'settings.title': 'Ayarlar',
+  'settings.language': 'Dil',
+  'settings.theme': 'Tema',
+  'settings.accessibility': 'Erişilebilirlik',
+  'settings.colorBlind': 'Renk Körü Modu',
+  'settings.colorBlindHint': 'Ayırt edilebilir renkler ve her oyuncuya bir şekil',
+  'settings.sound': 'Ses ve Titreşim',
+  'settings.mute': 'Sessiz',
+  'settings.volume': 'Ses seviyesi yüzde {percent}',
+
+  'leaderboard.title': 'Liderlik Tablosu',
+  'leaderboard.metric.wins': 'Galibiyet',
+  'leaderboard.metric.gamesPlayed': 'Oyun',
+  'leaderboard.metric.winRate': 'Kazanma %',
+  'leaderboard.metric.averageTurnsToWin': 'Ort. Tur',
+  'leaderboard.metric.forcedMoves': 'Süre Doldu',
+  'leaderboard.clearTitle': 'İstatistikleri Sil',
+  'leaderboard.clearMessage': 'Tüm oyuncu istatistikleri silinsin mi?',
+  'leaderboard.empty': 'Henüz tamamlanmış oyun yok',
+  'leaderboard.rowDetails': '{wins}/{games} galibiyet · {moves} hamle · ⏱️ {forced}',
+
+  'winCondition.exact': 'Tam Hedef',
+  'winCondition.closest': 'En Yakın',
+  'winCondition.bust': 'Geçen Yanar',
+  'winCondition.targets': 'Çoklu Hedef',
+
+  'operation.add': 'Toplama',
+  'operation.subtract': 'Çıkarma',
+  'operation.multiply': 'Çarpma',
+  'operation.divide': 'Bölme',
+  'operation.power': 'Üs alma',
+  'operation.modulo': 'Mod alma',
+  'operation.concat': 'Yan yana yazma',
+
+  'a11y.dice': 'Zarlar: {dice} ve {last}',
+  'a11y.rollDice': 'Zarları at',
+  'a11y.player': '{name}, sayı {number}',
+  'a11y.targetsWon': '{count} hedef',
+  'a11y.currentTurn': 'sıra bu oyuncuda',
+  'a11y.turn': 'Sıra: {name}',
+  'a11y.moveResult': '{name} sayısını {number} yaptı. Sıra: {next}',
+  'a11y.timeWarning': '{count} saniye kaldı',
+  'a11y.target': 'Hedef {number}',
+  'a11y.undo': 'Geri al',
+  'a11y.redo': 'İleri al',
+  'a11y.share': 'Oyun kodunu paylaş',
+  'a11y.history': 'Hamle geçmişi',
+  'a11y.pause': 'Oyunu duraklat',
+  'a11y.resume': 'Oyuna devam et',
+  'a11y.numberPaths': 'Sayı yolları. {paths}',
+  'a11y.numberPath': '{name}: {start} → {end}',
+  'a11y.leaderboardRow': '{rank}. {name}, {metric}: {value}',
+  'a11y.shareCode': 'Oyun kodu',
+
+  'errors.DIVISION_BY_ZERO': 'Sıfıra bölme yapılamaz!',
+  'errors.INEXACT_DIVISION': 'Tam bölme yapılamaz!',
+  'errors.NEGATIVE_OPERAND': 'Bu işlem negatif sayılarla yapılamaz!',
+  'errors.RESULT_TOO_LARGE': 'Sonuç çok büyük!',
+  'errors.INVALID_OPERATION': 'Geçersiz işlem!',
+  'errors.OPERATION_DISABLED': 'Bu işlem bu kurallarda kapalı!',
+  'errors.GAME_PAUSED': 'Oyun duraklatıldı!',
+  'errors.GAME_OVER': 'Oyun bitti!',
+  'errors.ALREADY_ROLLED': 'Zar zaten atıldı!',
+  'errors.DICE_NOT_ROLLED': 'Önce zar atmalısınız!',
+  'errors.DICE_NOT_CALCULATED': 'Önce zar işlemi yapmalısınız!',
+  'errors.NO_ROLLS_LEFT': 'Atılacak zar kalmadı!',
+  'errors.INVALID_TEAMS': 'Takım oyunu tam 4 oyuncu ister!',
+  'errors.INVALID_SHARE_CODE': 'Bu bir oyun kodu değil!',
+  'errors.SHARE_CODE_VERSION': 'Bu kod oyunun başka bir sürümünden, açılamıyor!',
+  'errors.SHARE_CODE_TAMPERED': 'Oyun kodu bozuk ya da değiştirilmiş!',
+  'errors.unknown': 'Beklenmeyen bir hata oluştu!',
+
+  'preview.divisionByZero': 'sıfıra bölünmez',
+  'preview.notWhole': 'tam değil',
+  'preview.negative': 'negatif olmaz',
+  'preview.tooLarge': 'çok büyük',
+  'preview.unavailable': 'kullanılamaz',
+} satisfies Record<string, Message>;
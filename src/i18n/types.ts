@@ -0,0 +1,9 @@
+// Plural messages are picked by the `count` parameter
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
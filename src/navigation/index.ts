@@ -0,0 +1,109 @@
+import { PuzzleLevel } from '../services/puzzleService';
+import { GameRules, GameState } from '../types/gameTypes';
+
+// Every screen with the data it needs to render
+export type Route =
+  | { name: 'home' }
+  | { name: 'setup'; playerCount: number }
+  | { name: 'game'; playerCount: number; rules: GameRules; initialGame: GameState | null }
+  | { name: 'results'; game: GameState }
+  | { name: 'stats' }
+  | { name: 'settings' }
+  | { name: 'lan' }
+  | { name: 'levels' }
+  | { name: 'puzzle'; levels: PuzzleLevel[]; index: number };
+
+export type RouteName = Route['name'];
+
+export type NavigationAction =
+  | { type: 'PUSH'; route: Route }
+  | { type: 'POP' }
+  // Swaps the top screen, e.g. the game for its results, so back skips it
+  | { type: 'REPLACE'; route: Route }
+  // Home with the route on top; deep links land here
+  | { type: 'RESET'; route: Route };
+
+export const HOME_ROUTE: Route = { name: 'home' };
+
+// Each entry gets its own key so a screen opened over one of the same kind,
+// e.g. a linked game over a running one, starts fresh
+export interface StackEntry {
+  key: number;
+  route: Route;
+}
+
+export interface NavigationState {
+  // The bottom entry is always home
+  entries: StackEntry[];
+  nextKey: number;
+}
+
+export const INITIAL_NAVIGATION_STATE: NavigationState = {
+  entries: [{ key: 0, route: HOME_ROUTE }],
+  nextKey: 1,
+};
+
+export const navigationReducer = (
+  state: NavigationState,
+  action: NavigationAction,
+): NavigationState => {
+  const { entries, nextKey } = state;
+  const withRoute = (base: StackEntry[], route: Route): NavigationState => ({
+    entries: [...base, { key: nextKey, route }],
+    nextKey: nextKey + 1,
+  });
+
+  switch (action.type) {
+    case 'PUSH':
+      return withRoute(entries, action.route);
+    case 'POP':
+      return entries.length > 1 ? { entries: entries.slice(0, -1), nextKey } : state;
+    case 'REPLACE':
+      return entries.length > 1
+        ? withRoute(entries.slice(0, -1), action.route)
+        : withRoute(entries, action.route);
+    case 'RESET':
+      return action.route.name === 'home'
+        ? { entries: entries.slice(0, 1), nextKey }
+        : withRoute(entries.slice(0, 1), action.route);
+  }
+};
+
+export const getCurrentEntry = (state: NavigationState): StackEntry => {
+  return state.entries[state.entries.length - 1];
+};
+
+export const canGoBack = (state: NavigationState): boolean => state.entries.length > 1;
+
+// Hardware back on these asks before leaving
+export const CONFIRM_LEAVE_ROUTES: RouteName[] = ['game'];
+
+export const LINK_SCHEME = 'numclash://';
+
+export type DeepLink =
+  // A shared game code, see shareService
+  | { type: 'join'; code: string }
+  | { type: 'daily' };
+
+// numclash://join/<code> and numclash://daily; anything else is ignored
+export const parseDeepLink = (url: string): DeepLink | null => {
+  if (!url.toLowerCase().startsWith(LINK_SCHEME)) return null;
+
+  const [path] = url.slice(LINK_SCHEME.length).split(/[?#]/);
+  const [name, ...rest] = path.split('/').filter(Boolean);
+  if (name === 'daily' && rest.length === 0) {
+    return { type: 'daily' };
+  }
+  if (name === 'join' && rest.length === 1) {
+    try {
+      return { type: 'join', code: decodeURIComponent(rest[0]) };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+export const createJoinLink = (code: string): string => {
+  return `${LINK_SCHEME}join/${encodeURIComponent(code)}`;
+};
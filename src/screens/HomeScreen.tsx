@@ -1,32 +1,60 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  Dimensions,
   SafeAreaView,
   Animated,
 } from 'react-native';
-
-const { width, height } = Dimensions.get('window');
+import { GameState } from '../types/gameTypes';
+import ImportCodeModal from '../components/ImportCodeModal';
+import { useI18n } from '../i18n/I18nContext';
+import { Theme } from '../theme';
+import { useThemedStyles } from '../theme/ThemeContext';
 
 interface HomeScreenProps {
   onStartGame: (playerCount: number) => void;
+  savedGame?: GameState | null;
+  onContinueGame?: () => void;
+  onOpenLeaderboard?: () => void;
+  onOpenPuzzles?: () => void;
+  onOpenSettings?: () => void;
+  onOpenLan?: () => void;
+  // Paylaşılan bir oyun kodu açıldığında
+  onImportGame?: (game: GameState) => void;
+  onStartDaily?: (playerName: string) => void;
+  dailyStreak?: number;
+  dailyPlayed?: boolean;
 }
 
-const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({
+  onStartGame,
+  savedGame,
+  onContinueGame,
+  onOpenLeaderboard,
+  onOpenPuzzles,
+  onOpenSettings,
+  onOpenLan,
+  onImportGame,
+  onStartDaily,
+  dailyStreak = 0,
+  dailyPlayed = false,
+}) => {
+  const [showImport, setShowImport] = useState(false);
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
   const scaleAnim = useRef(new Animated.Value(0.8)).current;
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
   const option1Scale = useRef(new Animated.Value(1)).current;
   const option2Scale = useRef(new Animated.Value(1)).current;
   const option3Scale = useRef(new Animated.Value(1)).current;
 
   const playerOptions = [
-    { count: 2, title: '2 Kişilik Oyun', color: '#FF6B6B', icon: '👥', scale: option1Scale },
-    { count: 3, title: '3 Kişilik Oyun', color: '#4ECDC4', icon: '👨‍👩‍👦', scale: option2Scale },
-    { count: 4, title: '4 Kişilik Oyun', color: '#45B7D1', icon: '👨‍👩‍👧‍👦', scale: option3Scale },
+    { count: 2, color: '#FF6B6B', icon: '👥', scale: option1Scale },
+    { count: 3, color: '#4ECDC4', icon: '👨‍👩‍👦', scale: option2Scale },
+    { count: 4, color: '#45B7D1', icon: '👨‍👩‍👧‍👦', scale: option3Scale },
   ];
 
   useEffect(() => {
@@ -113,8 +141,8 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
             }
           ]}
         >
-          <Text style={styles.title}>NumClash</Text>
-          <Text style={styles.subtitle}>Matematik ve Strateji Oyunu</Text>
+          <Text style={styles.title} accessibilityRole="header">NumClash</Text>
+          <Text style={styles.subtitle}>{t('home.subtitle')}</Text>
         </Animated.View>
 
         <Animated.View 
@@ -131,15 +159,52 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
             }
           ]}
         >
-          <Text style={styles.descriptionTitle}>Nasıl Oynanır?</Text>
-          <Text style={styles.descriptionText}>
-            🎲 Zar at ve çıkan sayılarla işlem yap{'\n'}
-            🎯 Hedef sayıya ulaşmaya çalış{'\n'}
-            ⏱️ Her hamle için sadece 10 saniye var{'\n'}
-            🏆 Hedefe ilk ulaşan kazanır!
-          </Text>
+          <Text style={styles.descriptionTitle}>{t('home.howToPlay')}</Text>
+          <Text style={styles.descriptionText}>{t('home.howToPlayText')}</Text>
         </Animated.View>
 
+        {savedGame && onContinueGame && (
+          <Animated.View style={{ opacity: fadeAnim }}>
+            <TouchableOpacity
+              style={styles.continueButton}
+              onPress={onContinueGame}
+              accessibilityRole="button"
+              activeOpacity={0.9}
+            >
+              <Text style={styles.continueIcon}>▶️</Text>
+              <View style={styles.optionTextContainer}>
+                <Text style={styles.continueTitle}>{t('home.continue')}</Text>
+                <Text style={styles.optionSubtitle}>
+                  {t('home.continueDetails', {
+                    players: savedGame.players.map(player => player.name).join(', '),
+                    target: savedGame.targetNumber,
+                  })}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
+        {onStartDaily && (
+          <Animated.View style={{ opacity: fadeAnim }}>
+            <TouchableOpacity
+              style={styles.dailyButton}
+              onPress={() => onStartDaily(t('game.defaultPlayerName', { number: 1 }))}
+              accessibilityRole="button"
+              activeOpacity={0.9}
+            >
+              <Text style={styles.continueIcon}>📅</Text>
+              <View style={styles.optionTextContainer}>
+                <Text style={styles.dailyTitle}>{t('home.daily')}</Text>
+                <Text style={styles.optionSubtitle}>
+                  {dailyPlayed ? t('home.dailyDone') : t('home.dailyDetails')}
+                  {dailyStreak > 0 && ` · ${t('daily.streak', { count: dailyStreak })}`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
         <View style={styles.optionsContainer}>
           <Animated.Text 
             style={[
@@ -155,7 +220,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
               }
             ]}
           >
-            Kaç Kişi Oynayacak?
+            {t('home.playerCountTitle')}
           </Animated.Text>
           
           {playerOptions.map((option, index) => (
@@ -179,6 +244,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
               <TouchableOpacity
                 style={[styles.optionButton, { borderColor: option.color }]}
                 onPress={() => handleOptionPress(option.count, option.scale)}
+                accessibilityRole="button"
                 activeOpacity={0.9}
                 onPressIn={() => {
                   Animated.spring(option.scale, {
@@ -201,10 +267,10 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
                   <Text style={styles.optionIcon}>{option.icon}</Text>
                   <View style={styles.optionTextContainer}>
                     <Text style={[styles.optionTitle, { color: option.color }]}>
-                      {option.title}
+                      {t('home.playerOptionTitle', { count: option.count })}
                     </Text>
                     <Text style={styles.optionSubtitle}>
-                      {option.count} oyuncu sırayla oynar
+                      {t('home.playerOptionSubtitle', { count: option.count })}
                     </Text>
                   </View>
                 </View>
@@ -213,6 +279,66 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
           ))}
         </View>
 
+        {onOpenLeaderboard && (
+          <TouchableOpacity
+            style={styles.leaderboardButton}
+            onPress={onOpenLeaderboard}
+            accessibilityRole="button"
+          >
+            <Text style={styles.leaderboardButtonText}>{t('home.leaderboard')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {onOpenPuzzles && (
+          <TouchableOpacity
+            style={[styles.leaderboardButton, styles.importButton]}
+            onPress={onOpenPuzzles}
+            accessibilityRole="button"
+          >
+            <Text style={styles.leaderboardButtonText}>{t('home.puzzles')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {onOpenLan && (
+          <TouchableOpacity
+            style={[styles.leaderboardButton, styles.importButton]}
+            onPress={onOpenLan}
+            accessibilityRole="button"
+          >
+            <Text style={styles.leaderboardButtonText}>{t('home.lan')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {onImportGame && (
+          <>
+            <TouchableOpacity
+              style={[styles.leaderboardButton, styles.importButton]}
+              onPress={() => setShowImport(true)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.leaderboardButtonText}>{t('home.importGame')}</Text>
+            </TouchableOpacity>
+            <ImportCodeModal
+              visible={showImport}
+              onClose={() => setShowImport(false)}
+              onImport={game => {
+                setShowImport(false);
+                onImportGame(game);
+              }}
+            />
+          </>
+        )}
+
+        {onOpenSettings && (
+          <TouchableOpacity
+            style={[styles.leaderboardButton, styles.importButton]}
+            onPress={onOpenSettings}
+            accessibilityRole="button"
+          >
+            <Text style={styles.leaderboardButtonText}>{t('home.settings')}</Text>
+          </TouchableOpacity>
+        )}
+
         <Animated.View 
           style={[
             styles.footer,
@@ -230,10 +356,10 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onStartGame }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#f8f9fa',
+    backgroundColor: theme.colors.background,
   },
   content: {
     flex: 1,
@@ -248,7 +374,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 48,
     fontWeight: 'bold',
-    color: '#2c3e50',
+    color: theme.colors.text,
     textAlign: 'center',
     marginBottom: 8,
     textShadowColor: 'rgba(0, 0, 0, 0.1)',
@@ -257,18 +383,18 @@ const styles = StyleSheet.create({
   },
   subtitle: {
     fontSize: 18,
-    color: '#7f8c8d',
+    color: theme.colors.textMuted,
     textAlign: 'center',
     fontWeight: '500',
   },
 
   // Description
   descriptionContainer: {
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     borderRadius: 20,
     padding: 20,
     marginBottom: 30,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.15,
     shadowRadius: 12,
@@ -277,17 +403,55 @@ const styles = StyleSheet.create({
   descriptionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
-    color: '#2c3e50',
+    color: theme.colors.text,
     marginBottom: 12,
     textAlign: 'center',
   },
   descriptionText: {
     fontSize: 16,
-    color: '#34495e',
+    color: theme.colors.text,
     lineHeight: 24,
     textAlign: 'left',
   },
 
+  // Continue
+  continueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: `${theme.colors.primary}15`,
+    borderRadius: 20,
+    borderWidth: 3,
+    borderColor: theme.colors.primary,
+    padding: 16,
+    marginBottom: 20,
+  },
+  continueIcon: {
+    fontSize: 28,
+    marginRight: 16,
+  },
+  continueTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginBottom: 4,
+  },
+  dailyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: `${theme.colors.warning}15`,
+    borderRadius: 20,
+    borderWidth: 3,
+    borderColor: theme.colors.warning,
+    padding: 16,
+    marginBottom: 20,
+  },
+  dailyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.warning,
+    marginBottom: 4,
+  },
+
   // Options
   optionsContainer: {
     flex: 1,
@@ -295,17 +459,17 @@ const styles = StyleSheet.create({
   optionsTitle: {
     fontSize: 22,
     fontWeight: 'bold',
-    color: '#2c3e50',
+    color: theme.colors.text,
     textAlign: 'center',
     marginBottom: 20,
   },
   optionButton: {
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     borderRadius: 20,
     borderWidth: 3,
     padding: 20,
     marginBottom: 15,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 6 },
     shadowOpacity: 0.15,
     shadowRadius: 10,
@@ -329,10 +493,31 @@ const styles = StyleSheet.create({
   },
   optionSubtitle: {
     fontSize: 16,
-    color: '#7f8c8d',
+    color: theme.colors.textMuted,
     fontWeight: '500',
   },
 
+  leaderboardButton: {
+    alignSelf: 'center',
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.12,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  importButton: {
+    marginTop: 12,
+  },
+  leaderboardButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+
   // Footer
   footer: {
     paddingVertical: 20,
@@ -340,7 +525,7 @@ const styles = StyleSheet.create({
   },
   footerText: {
     fontSize: 16,
-    color: '#95a5a6',
+    color: theme.colors.textMuted,
     textAlign: 'center',
     fontStyle: 'italic',
   },
@@ -0,0 +1,425 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  BackHandler,
+} from 'react-native';
+import { GameState } from '../types/gameTypes';
+import { initializeGame } from '../services/gameService';
+import { CLOCK_TICK_INTERVAL, isClockRunning, isTimeUp } from '../services/clockService';
+import { CLASSIC_RULES } from '../services/rulesService';
+import { HostSession, createHostSession } from '../services/hostService';
+import { ClientSession, createClientSession } from '../services/clientService';
+import { IntentAction, PeerConnection } from '../services/multiplayerProtocol';
+import {
+  LanServer,
+  connectToLanHost,
+  getLanAddress,
+  startLanServer,
+} from '../services/tcpConnection';
+import { getDefaultPlayerName, getErrorMessage, getRejectionMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { useToast } from '../components/Toast';
+import LanGameBoard from '../components/LanGameBoard';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+type LanMode = 'menu' | 'host' | 'client';
+
+interface LanScreenProps {
+  onBack: () => void;
+}
+
+// Bir cihaz oyunu kurar ve motoru çalıştırır; diğerleri adresini girip katılır
+const LanScreen: React.FC<LanScreenProps> = ({ onBack }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const { showToast } = useToast();
+  const styles = useThemedStyles(createStyles);
+
+  const [mode, setMode] = useState<LanMode>('menu');
+  const [playerCount, setPlayerCount] = useState(2);
+  const [hostAddress, setHostAddress] = useState('');
+  const [game, setGame] = useState<GameState | null>(null);
+  const [myPlayerId, setMyPlayerId] = useState<number | null>(null);
+  const [connectedSeats, setConnectedSeats] = useState<number[]>([]);
+  const [lanAddress, setLanAddress] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  const hostRef = useRef<HostSession | null>(null);
+  const serverRef = useRef<LanServer | null>(null);
+  const clientRef = useRef<ClientSession | null>(null);
+  const connectionRef = useRef<PeerConnection | null>(null);
+
+  // Ekrandan çıkınca sunucu ve bağlantılar kapanır
+  useEffect(() => {
+    return () => {
+      hostRef.current?.close();
+      serverRef.current?.close();
+      connectionRef.current?.close();
+    };
+  }, []);
+
+  // Saat sadece kurucuda işler; katılanlar değişiklikleri yamalarla alır
+  const hostClockRunning = mode === 'host' && game !== null && isClockRunning(game);
+  useEffect(() => {
+    if (!hostClockRunning) return;
+
+    let lastTick = Date.now();
+    const clockInterval = setInterval(() => {
+      const session = hostRef.current;
+      if (!session) return;
+
+      const now = Date.now();
+      const state = session.dispatchLocal({ type: 'TICK', elapsed: now - lastTick });
+      lastTick = now;
+      if (isTimeUp(state)) {
+        session.dispatchLocal({ type: 'TIME_UP' });
+      }
+    }, CLOCK_TICK_INTERVAL);
+
+    return () => clearInterval(clockInterval);
+  }, [hostClockRunning]);
+
+  const leave = () => {
+    if (mode === 'menu') {
+      onBack();
+      return;
+    }
+    Alert.alert(t('game.leaveTitle'), t('lan.leaveMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('game.leave'), style: 'destructive', onPress: onBack },
+    ]);
+  };
+
+  // Oyun sürerken geri tuşu önce sorar
+  const leaveRef = useRef(leave);
+  leaveRef.current = leave;
+  useEffect(() => {
+    if (mode === 'menu') return;
+
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      leaveRef.current();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [mode]);
+
+  const hostGame = async () => {
+    const names = Array.from({ length: playerCount }, (_, index) => getDefaultPlayerName(t, index));
+    const session = createHostSession(initializeGame(playerCount, names, { rules: CLASSIC_RULES }), {
+      onStateChange: setGame,
+      onSeatsChange: setConnectedSeats,
+    });
+
+    try {
+      serverRef.current = await startLanServer(session.addConnection);
+    } catch {
+      showToast(t('lan.hostFailed'), 'error');
+      return;
+    }
+    hostRef.current = session;
+    setGame(session.getState());
+    setMyPlayerId(session.getState().players[0].id);
+    setMode('host');
+    getLanAddress().then(setLanAddress);
+  };
+
+  const openConnection = (): PeerConnection => {
+    const connection = connectToLanHost(hostAddress.trim());
+    connectionRef.current = connection;
+    setConnected(false);
+    connection.onClose(() => {
+      if (connectionRef.current === connection) {
+        setConnected(false);
+      }
+    });
+    return connection;
+  };
+
+  const joinGame = () => {
+    if (!hostAddress.trim()) return;
+
+    const session = createClientSession(openConnection(), {
+      onStateChange: state => {
+        setGame(state);
+        setMyPlayerId(session.getPlayerId());
+        setConnected(true);
+      },
+      onRejected: reason => showToast(getRejectionMessage(t, reason), 'error'),
+    });
+    clientRef.current = session;
+    setMode('client');
+  };
+
+  // Kopan oyuncu yerini korur ve sadece kaçırdığı hamleleri alır
+  const reconnect = () => {
+    clientRef.current?.reconnect(openConnection());
+  };
+
+  const handleAction = (action: IntentAction) => {
+    if (mode === 'client') {
+      clientRef.current?.sendIntent(action);
+      return;
+    }
+    try {
+      hostRef.current?.dispatchLocal(action);
+    } catch (error) {
+      showToast(getErrorMessage(t, error), 'error');
+    }
+  };
+
+  const renderMenu = () => (
+    <>
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('lan.hostTitle')}</Text>
+        <Text style={styles.sectionHint}>{t('lan.hostSubtitle')}</Text>
+        <View style={styles.chipRow}>
+          {[2, 3, 4].map(count => (
+            <TouchableOpacity
+              key={count}
+              style={[styles.chip, playerCount === count && styles.chipSelected]}
+              onPress={() => setPlayerCount(count)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: playerCount === count }}
+            >
+              <Text style={[styles.chipText, playerCount === count && styles.chipTextSelected]}>
+                {t('home.playerOptionTitle', { count })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.mainButton} onPress={hostGame} accessibilityRole="button">
+          <Text style={styles.mainButtonText}>{t('lan.host')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('lan.joinTitle')}</Text>
+        <TextInput
+          style={styles.input}
+          value={hostAddress}
+          onChangeText={setHostAddress}
+          placeholder={t('lan.addressPlaceholder')}
+          placeholderTextColor={theme.colors.textDisabled}
+          accessibilityLabel={t('lan.addressPlaceholder')}
+          keyboardType="numbers-and-punctuation"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[styles.mainButton, styles.secondaryButton, !hostAddress.trim() && styles.buttonDisabled]}
+          onPress={joinGame}
+          disabled={!hostAddress.trim()}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !hostAddress.trim() }}
+        >
+          <Text style={styles.mainButtonText}>{t('lan.join')}</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  // Kurucu tüm yerler dolana kadar bekler
+  const openSeats = game ? game.players.length - 1 : 0;
+  const waitingForPlayers = mode === 'host' && connectedSeats.length < openSeats;
+  const canPlay = mode === 'host' ? !waitingForPlayers : connected;
+
+  const renderStatus = () => {
+    if (mode === 'host') {
+      return (
+        <View style={styles.notice}>
+          <Text style={styles.noticeText} selectable>
+            {lanAddress ? t('lan.address', { address: lanAddress }) : t('lan.noAddress')}
+          </Text>
+          {waitingForPlayers && (
+            <Text style={styles.noticeText}>
+              {t('lan.waiting', { count: connectedSeats.length, total: openSeats })}
+            </Text>
+          )}
+        </View>
+      );
+    }
+    if (connected) return null;
+    return (
+      <View style={styles.notice}>
+        <Text style={styles.noticeText}>{game ? t('lan.disconnected') : t('lan.connecting')}</Text>
+        {game && (
+          <TouchableOpacity style={styles.noticeButton} onPress={reconnect} accessibilityRole="button">
+            <Text style={styles.mainButtonText}>{t('lan.reconnect')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={leave}
+          accessibilityRole="button"
+          accessibilityLabel={t('game.home')}
+        >
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} accessibilityRole="header">{t('lan.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {mode === 'menu' ? renderMenu() : renderStatus()}
+        {mode !== 'menu' && game && (
+          <LanGameBoard game={game} myPlayerId={myPlayerId} canPlay={canPlay} onAction={handleAction} />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginVertical: 8,
+    borderWidth: theme.name === 'highContrast' ? 1 : 0,
+    borderColor: theme.colors.border,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginBottom: 6,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 14,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 15,
+    backgroundColor: theme.colors.surfaceMuted,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: theme.colors.onPrimary,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: 15,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surfaceMuted,
+    marginBottom: 14,
+  },
+  mainButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: 25,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: theme.colors.accent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  mainButtonText: {
+    color: theme.colors.onPrimary,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  notice: {
+    backgroundColor: theme.colors.highlight,
+    borderRadius: 15,
+    padding: 12,
+    marginVertical: 6,
+    alignItems: 'center',
+    gap: 6,
+  },
+  noticeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.highlightText,
+    textAlign: 'center',
+  },
+  noticeButton: {
+    backgroundColor: theme.colors.accent,
+    borderRadius: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+});
+
+export default LanScreen;
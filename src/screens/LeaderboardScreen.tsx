@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Operation } from '../types/gameTypes';
+import { OPERATIONS, OPERATION_REGISTRY, getOperationSymbol } from '../services/operationService';
+import {
+  LEADERBOARD_METRICS,
+  LeaderboardMetric,
+  PlayerStats,
+  PlayerStatsTable,
+  clearPlayerStats,
+  getMetricValue,
+  loadPlayerStats,
+  sortLeaderboard,
+} from '../services/statsService';
+import { Translate } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { Theme } from '../theme';
+import { useThemedStyles } from '../theme/ThemeContext';
+
+interface LeaderboardScreenProps {
+  onBack: () => void;
+}
+
+const isOperationMetric = (metric: LeaderboardMetric): metric is Operation => {
+  return (OPERATIONS as LeaderboardMetric[]).includes(metric);
+};
+
+const getMetricLabel = (t: Translate, metric: LeaderboardMetric): string => {
+  return isOperationMetric(metric)
+    ? getOperationSymbol(metric)
+    : t(`leaderboard.metric.${metric}`);
+};
+
+// Screen readers read the operation's name instead of its symbol
+const getMetricAccessibilityLabel = (t: Translate, metric: LeaderboardMetric): string => {
+  return isOperationMetric(metric)
+    ? t(OPERATION_REGISTRY[metric].labelKey)
+    : t(`leaderboard.metric.${metric}`);
+};
+
+const formatMetricValue = (stats: PlayerStats, metric: LeaderboardMetric): string => {
+  const value = getMetricValue(stats, metric);
+  if (value === null) return '–';
+  if (metric === 'winRate') return `%${Math.round(value * 100)}`;
+  if (metric === 'averageTurnsToWin') return value.toFixed(1);
+  return `${value}`;
+};
+
+const RANK_ICONS = ['🥇', '🥈', '🥉'];
+
+const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({ onBack }) => {
+  const [table, setTable] = useState<PlayerStatsTable>({});
+  const [metric, setMetric] = useState<LeaderboardMetric>('wins');
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+
+  useEffect(() => {
+    loadPlayerStats().then(setTable);
+  }, []);
+
+  const handleClear = () => {
+    Alert.alert(t('leaderboard.clearTitle'), t('leaderboard.clearMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await clearPlayerStats();
+          setTable({});
+        },
+      },
+    ]);
+  };
+
+  const rows = sortLeaderboard(table, metric);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={onBack}
+          accessibilityRole="button"
+          accessibilityLabel={t('game.home')}
+        >
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} accessibilityRole="header">{t('leaderboard.title')}</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={handleClear}
+          accessibilityRole="button"
+          accessibilityLabel={t('leaderboard.clearTitle')}
+        >
+          <Text style={styles.headerIcon}>🗑️</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.metricBar}
+        contentContainerStyle={styles.metricBarContent}
+      >
+        {LEADERBOARD_METRICS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.metricChip, metric === option && styles.metricChipSelected]}
+            onPress={() => setMetric(option)}
+            accessibilityRole="button"
+            accessibilityLabel={getMetricAccessibilityLabel(t, option)}
+            accessibilityState={{ selected: metric === option }}
+          >
+            <Text style={[styles.metricChipText, metric === option && styles.metricChipTextSelected]}>
+              {getMetricLabel(t, option)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {rows.length === 0 ? (
+        <Text style={styles.emptyText}>{t('leaderboard.empty')}</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.list}>
+          {rows.map((stats, index) => (
+            <View
+              key={stats.name}
+              style={styles.row}
+              accessible
+              accessibilityLabel={`${t('a11y.leaderboardRow', {
+                rank: index + 1,
+                name: stats.name,
+                metric: getMetricAccessibilityLabel(t, metric),
+                value: formatMetricValue(stats, metric),
+              })}. ${t('leaderboard.rowDetails', {
+                wins: stats.wins,
+                games: stats.gamesPlayed,
+                moves: stats.totalMoves,
+                forced: stats.forcedMoves,
+              })}`}
+            >
+              <Text style={styles.rank}>{RANK_ICONS[index] ?? `${index + 1}.`}</Text>
+              <View style={styles.rowContent}>
+                <Text style={styles.playerName}>{stats.name}</Text>
+                <Text style={styles.rowDetails}>
+                  {t('leaderboard.rowDetails', {
+                    wins: stats.wins,
+                    games: stats.gamesPlayed,
+                    moves: stats.totalMoves,
+                    forced: stats.forcedMoves,
+                  })}
+                </Text>
+              </View>
+              <Text style={styles.metricValue}>{formatMetricValue(stats, metric)}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+
+  // Metric selector
+  metricBar: {
+    flexGrow: 0,
+  },
+  metricBarContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  metricChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 15,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  metricChipSelected: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  metricChipText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  metricChipTextSelected: {
+    color: theme.colors.onPrimary,
+  },
+
+  // List
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.textDisabled,
+    textAlign: 'center',
+    marginTop: 50,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    padding: 16,
+    marginVertical: 6,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  rank: {
+    width: 40,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.textMuted,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  playerName: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  rowDetails: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  metricValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: theme.colors.accent,
+    marginLeft: 10,
+  },
+});
+
+export default LeaderboardScreen;
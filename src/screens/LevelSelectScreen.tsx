@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import {
+  GENERATED_LEVEL_COUNT,
+  PUZZLE_PACKS,
+  PuzzleLevel,
+  PuzzleProgress,
+  formatStars,
+  getGeneratedLevel,
+  isLevelUnlocked,
+  loadPuzzleProgress,
+} from '../services/puzzleService';
+import { useI18n } from '../i18n/I18nContext';
+import { Theme } from '../theme';
+import { useThemedStyles } from '../theme/ThemeContext';
+
+interface LevelSelectScreenProps {
+  onBack: () => void;
+  // The whole list is passed on so the puzzle screen can offer the next level
+  onSelectLevel: (levels: PuzzleLevel[], index: number) => void;
+}
+
+interface LevelSection {
+  id: string;
+  title: string;
+  levels: PuzzleLevel[];
+}
+
+const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ onBack, onSelectLevel }) => {
+  const { t, language } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [progress, setProgress] = useState<PuzzleProgress>({});
+
+  useEffect(() => {
+    loadPuzzleProgress().then(setProgress);
+  }, []);
+
+  // Generated levels are the same every time, there is no need to redo the search
+  const generatedLevels = useMemo(
+    () => Array.from({ length: GENERATED_LEVEL_COUNT }, (_, index) => getGeneratedLevel(index)),
+    [],
+  );
+
+  const sections: LevelSection[] = useMemo(
+    () => [
+      ...PUZZLE_PACKS.map(pack => ({
+        id: pack.id,
+        title: pack.name[language] ?? pack.id,
+        levels: pack.levels,
+      })),
+      {
+        id: 'generated',
+        title: t('puzzle.generatedPack'),
+        levels: generatedLevels,
+      },
+    ],
+    [generatedLevels, language, t],
+  );
+
+  const totalStars = Object.values(progress).reduce((sum, stars) => sum + stars, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('puzzle.title')}</Text>
+        <Text style={styles.totalStars}>★ {totalStars}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.list}>
+        {sections.map(section => (
+          <View key={section.id} style={styles.section}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            <View style={styles.grid}>
+              {section.levels.map((level, index) => {
+                const unlocked = isLevelUnlocked(section.levels, index, progress);
+                const stars = progress[level.id] ?? 0;
+                return (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.tile,
+                      stars > 0 && styles.tileSolved,
+                      !unlocked && styles.tileLocked,
+                    ]}
+                    onPress={() => onSelectLevel(section.levels, index)}
+                    disabled={!unlocked}
+                    accessibilityLabel={t('puzzle.levelLabel', { number: index + 1, stars })}
+                  >
+                    <Text style={styles.tileNumber}>{unlocked ? index + 1 : '🔒'}</Text>
+                    <Text style={styles.tileStars}>{formatStars(stars)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  totalStars: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.colors.warning,
+  },
+
+  // Levels
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  section: {
+    marginTop: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginBottom: 10,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  tile: {
+    width: 68,
+    height: 68,
+    borderRadius: 15,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tileSolved: {
+    borderColor: theme.colors.warning,
+  },
+  tileLocked: {
+    opacity: 0.4,
+  },
+  tileNumber: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  tileStars: {
+    fontSize: 12,
+    color: theme.colors.warning,
+    marginTop: 2,
+  },
+});
+
+export default LevelSelectScreen;
@@ -1,63 +1,110 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  Alert,
-  Dimensions,
   Animated,
   Modal,
-  Platform,
   TextInput,
+  Switch,
+  ScrollView,
+  AppState,
+  useWindowDimensions,
 } from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
 import LinearGradient from 'react-native-linear-gradient';
-
-const { width, height } = Dimensions.get('window');
+import MoveHistoryPanel from '../components/MoveHistoryPanel';
+import { ToastHost, useToast } from '../components/Toast';
+import {
+  BotDifficulty,
+  DiceConfig,
+  GameAction,
+  GameMode,
+  GameRules,
+  GameState,
+  Operation,
+} from '../types/gameTypes';
+import {
+  PLAYER_COLORS,
+  canUseDiceOperation,
+  canUseFinalOperation,
+  dispatch,
+  formatDiceChain,
+  formatTurnEquation,
+  getCurrentPlayer,
+  getDiceOperands,
+  getOperationPreviews,
+  initializeGame,
+} from '../services/gameService';
+import { MAX_DICE_COUNT, getDieSize } from '../services/diceService';
+import { OPERATION_REGISTRY } from '../services/operationService';
+import { getCurrentRound } from '../services/winConditionService';
+import {
+  CLOCK_TICK_INTERVAL,
+  getBankTimeLeft,
+  getPhaseBudget,
+  isClockRunning,
+  isTimeUp,
+} from '../services/clockService';
+import { clearSavedGame, saveGame } from '../services/storageService';
+import { recordFinishedGame } from '../services/statsService';
+import { encodeGame } from '../services/shareService';
+import { isDailyGame } from '../services/dailyService';
+import {
+  BOT_THINKING_DELAY,
+  chooseBotOperation,
+  suggestTeammateOperation,
+} from '../services/botService';
+import {
+  TEAM_COLORS,
+  TEAM_PLAYER_COUNT,
+  getSeatTeam,
+  groupSeatsByTeam,
+  isTeamGame,
+} from '../services/teamService';
+import { TurnAnalysis, findBestMove, rateMoves } from '../services/solverService';
+import {
+  UndoHistory,
+  canRedo,
+  canUndo,
+  createUndoHistory,
+  pushState,
+  redo,
+  replacePresent,
+  undo,
+} from '../services/undoService';
+import {
+  Translate,
+  formatOperationPreview,
+  getDefaultPlayerName,
+  getErrorMessage,
+} from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import {
+  MAX_FONT_SCALE,
+  TIME_WARNING_SECONDS,
+  announce,
+  describeDice,
+  describePlayer,
+  scaleSize,
+  withPlayerAppearance,
+} from '../accessibility';
+import { useAccessibility } from '../accessibility/AccessibilityContext';
+import { getStateCues } from '../feedback';
+import { useFeedback } from '../feedback/FeedbackContext';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
 
 interface LinearProgressProps {
-  duration: number;
+  // 0..1
+  progress: number;
   color: string;
-  onComplete: () => void;
-  isActive: boolean;
 }
 
-const LinearProgress: React.FC<LinearProgressProps> = ({ duration, color, onComplete, isActive }) => {
-  const [progress, setProgress] = useState(100);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  useEffect(() => {
-    if (isActive) {
-      setProgress(100);
-      let currentProgress = 100;
-      const decrementAmount = 100 / duration;
-      
-      intervalRef.current = setInterval(() => {
-        currentProgress -= decrementAmount;
-        setProgress(Math.max(0, currentProgress));
-        
-        if (currentProgress <= 0) {
-          if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
-          }
-          onComplete();
-        }
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isActive, duration]);
-
+// Sadece gösterim; süreyi oyun saati tutar
+const LinearProgress: React.FC<LinearProgressProps> = ({ progress, color }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.progressBarBackground}>
       <View 
@@ -65,7 +112,7 @@ const LinearProgress: React.FC<LinearProgressProps> = ({ duration, color, onComp
           styles.progressBar, 
           { 
             backgroundColor: color,
-            width: `${progress}%`,
+            width: `${Math.max(0, Math.min(1, progress)) * 100}%`,
           }
         ]} 
       />
@@ -73,191 +120,11 @@ const LinearProgress: React.FC<LinearProgressProps> = ({ duration, color, onComp
   );
 };
 
-interface Player {
-  id: number;
-  name: string;
-  currentNumber: number;
-  color: string;
-}
-
-interface GameState {
-  players: Player[];
-  targetNumber: number;
-  currentPlayerIndex: number;
-  diceResults: [number, number] | null;
-  diceCalculationResult: number | null;
-  winner: Player | null;
-  gameStarted: boolean;
-  gamePhase: 'roll' | 'dice-operation' | 'final-operation';
-}
-
-type Operation = '+' | '-' | '*' | '/';
-
-interface GameMove {
-  playerId: number;
-  diceResults: [number, number];
-  diceOperation: Operation;
-  diceCalculationResult: number;
-  finalOperation: Operation;
-  previousNumber: number;
-  newNumber: number;
-}
-
-const INITIAL_PLAYER_NUMBER = 5;
-const MIN_TARGET = 50;
-const MAX_TARGET = 500;
-const DICE_OPERATION_TIMER = 5;
-const FINAL_OPERATION_TIMER = 5;
-
-const PLAYER_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4'];
-
-const generateTargetNumber = (): number => {
-  return Math.floor(Math.random() * (MAX_TARGET - MIN_TARGET + 1) + MIN_TARGET);
-};
-
-const rollDice = (): number => {
-  return Math.floor(Math.random() * 6) + 1;
-};
-
-const rollTwoDice = (): [number, number] => {
-  return [rollDice(), rollDice()];
-};
-
-const initializeGame = (playerCount: number, customNames?: string[]): GameState => {
-  const targetNumber = generateTargetNumber();
-  const startingPlayerIndex = Math.floor(Math.random() * playerCount);
-
-  const players: Player[] = [];
-  for (let i = 0; i < playerCount; i++) {
-    players.push({
-      id: i + 1,
-      name: customNames?.[i]?.trim() || `Oyuncu ${i + 1}`,
-      currentNumber: INITIAL_PLAYER_NUMBER,
-      color: PLAYER_COLORS[i],
-    });
+// Yüz emojileri sadece d6 için var; diğer zarlarda sayı zarın altında yazar
+const getDiceFace = (number: number, dice: DiceConfig): string => {
+  if (getDieSize(dice) !== 6) {
+    return '🎲';
   }
-
-  return {
-    players,
-    targetNumber,
-    currentPlayerIndex: startingPlayerIndex,
-    diceResults: null,
-    diceCalculationResult: null,
-    winner: null,
-    gameStarted: true,
-    gamePhase: 'roll',
-  };
-};
-
-const applyOperation = (
-  number1: number,
-  number2: number,
-  operation: Operation
-): number => {
-  let result: number;
-
-  switch (operation) {
-    case '+':
-      result = number1 + number2;
-      break;
-    case '-':
-      result = Math.abs(number1 - number2);
-      break;
-    case '*':
-      result = number1 * number2;
-      break;
-    case '/':
-      if (number2 === 0) {
-        throw new Error('Sıfıra bölme yapılamaz!');
-      }
-      if (number1 % number2 !== 0) {
-        throw new Error('Tam bölme yapılamaz!');
-      }
-      result = number1 / number2;
-      break;
-    default:
-      throw new Error('Geçersiz işlem!');
-  }
-
-  return result;
-};
-
-const canDivide = (number1: number, number2: number): boolean => {
-  if (number2 === 0) return false;
-  return number1 % number2 === 0;
-};
-
-const rollDiceForGame = (gameState: GameState): GameState => {
-  const diceResults = rollTwoDice();
-  
-  return {
-    ...gameState,
-    diceResults,
-    gamePhase: 'dice-operation',
-  };
-};
-
-const applyDiceOperation = (
-  gameState: GameState,
-  operation: Operation
-): GameState => {
-  if (!gameState.diceResults) {
-    throw new Error('Önce zar atmalısınız!');
-  }
-
-  const [dice1, dice2] = gameState.diceResults;
-  const diceCalculationResult = applyOperation(dice1, dice2, operation);
-
-  return {
-    ...gameState,
-    diceCalculationResult,
-    gamePhase: 'final-operation',
-  };
-};
-
-const applyFinalMove = (
-  gameState: GameState,
-  operation: Operation
-): GameState => {
-  if (!gameState.diceCalculationResult) {
-    throw new Error('Önce zar işlemi yapmalısınız!');
-  }
-
-  const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-  const newNumber = applyOperation(
-    currentPlayer.currentNumber,
-    gameState.diceCalculationResult,
-    operation
-  );
-
-  const updatedPlayers = gameState.players.map(player =>
-    player.id === currentPlayer.id
-      ? { ...player, currentNumber: newNumber }
-      : player
-  );
-
-  const winner = newNumber === gameState.targetNumber ? currentPlayer : null;
-
-  const nextPlayerIndex = winner
-    ? gameState.currentPlayerIndex
-    : (gameState.currentPlayerIndex + 1) % gameState.players.length;
-
-  return {
-    ...gameState,
-    players: updatedPlayers,
-    currentPlayerIndex: nextPlayerIndex,
-    diceResults: null,
-    diceCalculationResult: null,
-    winner,
-    gamePhase: 'roll',
-  };
-};
-
-const getCurrentPlayer = (gameState: GameState): Player => {
-  return gameState.players[gameState.currentPlayerIndex];
-};
-
-const getDiceFace = (number: number): string => {
   const diceFaces = {
     1: '⚀',
     2: '⚁', 
@@ -269,24 +136,75 @@ const getDiceFace = (number: number): string => {
   return diceFaces[number as keyof typeof diceFaces] || '⚀';
 };
 
+// Oyun sürerken hedefin altında gösterilir; düz tam isabet oyunlarında boş kalır
+const describeWinCondition = (t: Translate, game: GameState): string | null => {
+  const { winCondition } = game.rules;
+  switch (winCondition.type) {
+    case 'closest':
+      return t('game.roundProgress', {
+        round: Math.min(getCurrentRound(game), winCondition.rounds),
+        rounds: winCondition.rounds,
+      });
+    case 'bust':
+      return t('game.bustWarning');
+    case 'targets':
+      return t('game.targetsProgress', { targets: winCondition.targets });
+    default:
+      return null;
+  }
+};
+
 interface NumClashScreenProps {
   playerCount: number;
+  rules: GameRules;
+  // Kayıtlı bir oyuna devam edilirken verilir
+  initialGame?: GameState | null;
   onBackToHome: () => void;
+  // Oyun bittiğinde sonuç ekranı için çağrılır
+  onGameOver: (game: GameState) => void;
 }
 
-const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHome }) => {
-  const [gameState, setGameState] = useState<GameState | null>(null);
-  const [showOperationsModal, setShowOperationsModal] = useState(false);
-  const [showPlayerNamesModal, setShowPlayerNamesModal] = useState(true);
-  const [playerNames, setPlayerNames] = useState<string[]>(Array(playerCount).fill(''));
+const NumClashScreen: React.FC<NumClashScreenProps> = ({
+  playerCount,
+  rules,
+  initialGame,
+  onBackToHome,
+  onGameOver,
+}) => {
+  const { t } = useI18n();
+  const { colorBlind } = useAccessibility();
+  const { play } = useFeedback();
+  const { showToast } = useToast();
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  // Ekran ve yazı boyutu sistem ayarlarını izler
+  const { width: windowWidth, fontScale } = useWindowDimensions();
+  const [history, setHistory] = useState<UndoHistory | null>(
+    // Arka planda kaydedilen oyunlar duraklatılmış olabilir
+    initialGame ? createUndoHistory(dispatch(initialGame, { type: 'RESUME_CLOCK' })) : null
+  );
+  const gameState = history ? history.present : null;
+  const [showOperationsModal, setShowOperationsModal] = useState(
+    initialGame ? initialGame.gamePhase !== 'roll' : false
+  );
+  const [showPlayerNamesModal, setShowPlayerNamesModal] = useState(!initialGame);
+  const [playerNames, setPlayerNames] = useState<string[]>(
+    initialGame ? initialGame.players.map(player => player.name) : Array(playerCount).fill('')
+  );
+  const [gameMode, setGameMode] = useState<GameMode>(initialGame ? initialGame.mode : 'casual');
+  const [seatBots, setSeatBots] = useState<(BotDifficulty | null)[]>(
+    initialGame ? initialGame.players.map(player => player.bot ?? null) : Array(playerCount).fill(null)
+  );
+  const [teamMode, setTeamMode] = useState(initialGame ? isTeamGame(initialGame) : false);
   const [isRolling, setIsRolling] = useState(false);
-  const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [currentTimer, setCurrentTimer] = useState<'dice' | 'final'>('dice');
-  const [isTimerActive, setIsTimerActive] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [hint, setHint] = useState<TurnAnalysis | null>(null);
   
-  const dice1Animation = new Animated.Value(0);
-  const dice2Animation = new Animated.Value(0);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const diceAnimations = useRef(
+    Array.from({ length: MAX_DICE_COUNT }, () => new Animated.Value(0)),
+  ).current;
+  const gameStateRef = useRef<GameState | null>(gameState);
+  const pausedByAppRef = useRef(false);
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -296,7 +214,9 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
   const targetBounce = useRef(new Animated.Value(1)).current;
 
   useEffect(() => {
-    initializeNewGame();
+    if (!initialGame) {
+      initializeNewGame();
+    }
     
     Animated.parallel([
       Animated.timing(fadeAnim, {
@@ -312,23 +232,197 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
     ]).start();
   }, [playerCount]);
 
+  gameStateRef.current = gameState;
+  const clockRunning = Boolean(gameState && !showPlayerNamesModal && isClockRunning(gameState));
+  const timeLeftSeconds = gameState
+    ? Math.ceil((gameState.clock.phaseTimeLeft + (getBankTimeLeft(gameState) ?? 0)) / 1000)
+    : 0;
+
+  // Saat aksiyonları geri alma adımı oluşturmaz
+  const updateClock = (action: GameAction) => {
+    setHistory(current => current && replacePresent(current, dispatch(current.present, action)));
+  };
+
+  // Tek saat: geçen süre motora bildirilir, süre dolunca motor karar verir
+  useEffect(() => {
+    if (!clockRunning) return;
+
+    let lastTick = Date.now();
+    const clockInterval = setInterval(() => {
+      const now = Date.now();
+      updateClock({ type: 'TICK', elapsed: now - lastTick });
+      lastTick = now;
+    }, CLOCK_TICK_INTERVAL);
+
+    return () => clearInterval(clockInterval);
+  }, [clockRunning, gameState?.gamePhase, gameState?.moves.length]);
+
+  // Süre dolunca çağrılır; ref her render'da güncellenir
+  const timeUpActionRef = useRef(() => {});
+
+  // TIME_UP süre dolmuş bir durumu bir kez ilerletir; yeni durumda süre dolmuş olmaz
+  const timeUp = Boolean(gameState && !showPlayerNamesModal && isTimeUp(gameState));
+  useEffect(() => {
+    if (timeUp) timeUpActionRef.current();
+  }, [timeUp]);
+
+  const startShakeAnimation = useCallback(() => {
+    Animated.sequence([
+      Animated.timing(shakeAnim, {
+        toValue: 10,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+      Animated.timing(shakeAnim, {
+        toValue: -10,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+      Animated.timing(shakeAnim, {
+        toValue: 10,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+      Animated.timing(shakeAnim, {
+        toValue: 0,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, [shakeAnim]);
+
+  useEffect(() => {
+    if (clockRunning && timeLeftSeconds <= 3 && timeLeftSeconds > 0) {
+      startShakeAnimation();
+    }
+  }, [clockRunning, timeLeftSeconds, startShakeAnimation]);
+
+  // Ekran okuyucular için duyurular; metin değişince bir kez okunur
+  const lastMove = gameState?.moves[gameState.moves.length - 1];
+  const lastMover = lastMove && gameState?.players.find(player => player.id === lastMove.playerId);
+  const turnAnnouncement = !gameState || showPlayerNamesModal || gameState.winner
+    ? null
+    : lastMover
+      ? t('a11y.moveResult', {
+          name: lastMover.name,
+          number: lastMove.newNumber,
+          next: getCurrentPlayer(gameState).name,
+        })
+      : t('a11y.turn', { name: getCurrentPlayer(gameState).name });
+  const diceAnnouncement = gameState?.gamePhase === 'dice-operation' && gameState.diceResults
+    ? describeDice(t, gameState.diceResults)
+    : null;
+  const timeWarning = clockRunning && TIME_WARNING_SECONDS.includes(timeLeftSeconds)
+    ? t('a11y.timeWarning', { count: timeLeftSeconds })
+    : null;
+
+  useEffect(() => {
+    if (turnAnnouncement) announce(turnAnnouncement);
+  }, [turnAnnouncement]);
+
   useEffect(() => {
-    if (showOperationsModal && gameState) {
-      if (gameState.gamePhase === 'dice-operation') {
-        setCurrentTimer('dice');
-        startTimer(DICE_OPERATION_TIMER);
-      } else if (gameState.gamePhase === 'final-operation') {
-        setCurrentTimer('final');
-        startTimer(FINAL_OPERATION_TIMER);
+    if (diceAnnouncement) announce(diceAnnouncement);
+  }, [diceAnnouncement]);
+
+  useEffect(() => {
+    if (timeWarning) announce(timeWarning);
+  }, [timeWarning]);
+
+  // Ses ve titreşim: her yeni durum bir öncekiyle karşılaştırılır
+  const previousStateRef = useRef<GameState | null>(null);
+  useEffect(() => {
+    const previous = previousStateRef.current;
+    previousStateRef.current = gameState;
+    if (!previous || !gameState || showPlayerNamesModal) return;
+
+    getStateCues(previous, gameState).forEach(play);
+  }, [gameState, showPlayerNamesModal, play]);
+
+  // Uygulama arka plana geçince saat durur, geri gelince devam eder
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      const current = gameStateRef.current;
+      if (nextAppState === 'active') {
+        if (pausedByAppRef.current) {
+          pausedByAppRef.current = false;
+          updateClock({ type: 'RESUME_CLOCK' });
+        }
+      } else if (current && !current.clock.paused) {
+        pausedByAppRef.current = true;
+        updateClock({ type: 'PAUSE_CLOCK' });
       }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    setHint(null);
+  }, [gameState?.gamePhase, gameState?.diceOperations.length]);
+
+  // Her hamle ve aşama değişiminde otomatik kayıt; biten oyunlar silinir.
+  // Saat tikleri kayıt tetiklemez, durum ref'ten okunur
+  useEffect(() => {
+    const savedState = gameStateRef.current;
+    if (!savedState || showPlayerNamesModal) return;
+
+    if (savedState.winner) {
+      clearSavedGame();
     } else {
-      stopTimer();
+      saveGame(savedState);
     }
-    
-    return () => {
-      stopTimer();
-    };
-  }, [showOperationsModal, gameState?.gamePhase]);
+  }, [
+    gameState?.seed,
+    gameState?.moves.length,
+    gameState?.gamePhase,
+    gameState?.diceOperations.length,
+    gameState?.winner,
+    showPlayerNamesModal,
+  ]);
+
+  // Bot hamleleri insanlarla aynı yoldan geçer; ref her render'da güncellenir
+  const botActionsRef = useRef({
+    roll: () => {},
+    selectDice: (_operation: Operation) => {},
+    selectFinal: (_operation: Operation) => {},
+  });
+
+  // Saat tikleri botun düşünme süresini sıfırlamasın: durum ref'ten okunur
+  useEffect(() => {
+    const botState = gameStateRef.current;
+    if (!botState || showPlayerNamesModal || botState.winner || isRolling) return;
+    if (botState.clock.paused) return;
+
+    const botDifficulty = getCurrentPlayer(botState).bot;
+    if (!botDifficulty) return;
+
+    const thinkingTimeout = setTimeout(() => {
+      const actions = botActionsRef.current;
+      if (botState.gamePhase === 'roll') {
+        actions.roll();
+        return;
+      }
+
+      const operation = chooseBotOperation(botState, botDifficulty);
+      if (!operation) return;
+
+      if (botState.gamePhase === 'dice-operation') {
+        actions.selectDice(operation);
+      } else {
+        actions.selectFinal(operation);
+      }
+    }, BOT_THINKING_DELAY);
+
+    return () => clearTimeout(thinkingTimeout);
+  }, [
+    gameState?.seed,
+    gameState?.moves.length,
+    gameState?.gamePhase,
+    gameState?.diceOperations.length,
+    gameState?.clock.paused,
+    showPlayerNamesModal,
+    isRolling,
+  ]);
 
   useEffect(() => {
     if (gameState) {
@@ -397,128 +491,63 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
     };
   };
 
-  const startShakeAnimation = () => {
-    Animated.sequence([
-      Animated.timing(shakeAnim, {
-        toValue: 10,
-        duration: 100,
-        useNativeDriver: true,
-      }),
-      Animated.timing(shakeAnim, {
-        toValue: -10,
-        duration: 100,
-        useNativeDriver: true,
-      }),
-      Animated.timing(shakeAnim, {
-        toValue: 10,
-        duration: 100,
-        useNativeDriver: true,
-      }),
-      Animated.timing(shakeAnim, {
-        toValue: 0,
-        duration: 100,
-        useNativeDriver: true,
-      }),
-    ]).start();
+  // Sonuç ekranına geçmeden önce son hamle kısa bir süre görünsün
+  const finishGame = (finishedGame: GameState) => {
+    setTimeout(() => onGameOver(finishedGame), 500);
   };
 
-  const startTimer = (duration: number) => {
-    stopTimer();
-    
-    setTimeLeft(duration);
-    setIsTimerActive(true);
-
-    let countdown = duration;
-    timerRef.current = setInterval(() => {
-      countdown -= 1;
-      setTimeLeft(countdown);
-      
-      if (countdown <= 3 && countdown > 0) {
-        startShakeAnimation();
-      }
-      
-      if (countdown <= 0) {
-        return;
-      }
-    }, 1000);
-  };
+  // Oyun kodu panoya kopyalanır, başka cihazda aynı oyun açılabilir
+  const shareGame = () => {
+    if (!gameState) return;
 
-  const stopTimer = () => {
-    setIsTimerActive(false);
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
+    try {
+      Clipboard.setString(encodeGame(gameState));
+      showToast(t('share.copiedMessage'), 'success');
+    } catch (error) {
+      showToast(getErrorMessage(t, error), 'error');
     }
   };
 
-  const handleTimeUp = () => {
-    if (!gameState) return;
-    
-    stopTimer();
-    
-    const operations: Operation[] = ['+', '-', '*', '/'];
-    let validOperations: Operation[] = [];
+  // Tüm oyun kuralları motorda; ekran sadece aksiyon gönderir
+  const commitAction = (action: GameAction): GameState | null => {
+    if (!history || !gameState) return null;
 
-    if (gameState.gamePhase === 'dice-operation' && gameState.diceResults) {
-      validOperations = operations.filter(op => canUseDiceOperation(op));
-      
-      if (validOperations.length > 0) {
-        const randomOperation = validOperations[Math.floor(Math.random() * validOperations.length)];
-        console.log('Otomatik zar işlemi:', randomOperation, 'Seçenekler:', validOperations);
-        
-        // Otomatik işlemi uygula
-        try {
-          const newGameState = applyDiceOperation(gameState, randomOperation);
-          setGameState(newGameState);
-  
-        } catch (error) {
-          console.error('Otomatik zar işlemi hatası:', error);
-        }
-      }
-    } else if (gameState.gamePhase === 'final-operation' && gameState.diceCalculationResult !== null) {
-      validOperations = operations.filter(op => canUseFinalOperation(op));
-      
-      if (validOperations.length > 0) {
-        const randomOperation = validOperations[Math.floor(Math.random() * validOperations.length)];
-        console.log('Otomatik final işlemi:', randomOperation, 'Seçenekler:', validOperations);
-        
-        // Otomatik işlemi uygula
-        try {
-          const newGameState = applyFinalMove(gameState, randomOperation);
-          setGameState(newGameState);
-          setShowOperationsModal(false);
-
-          // Kazanan kontrolü
-          if (newGameState.winner) {
-            setTimeout(() => {
-              Alert.alert(
-                '🎉 Tebrikler!',
-                `${newGameState.winner!.name} oyunu kazandı!`,
-                [
-                  {
-                    text: 'Ana Sayfa',
-                    onPress: onBackToHome,
-                  },
-                  {
-                    text: 'Yeni Oyun',
-                    onPress: initializeNewGame,
-                  },
-                ]
-              );
-            }, 500);
-          }
-        } catch (error) {
-          console.error('Otomatik final işlemi hatası:', error);
+    try {
+      const newGameState = dispatch(gameState, action);
+      setHistory(pushState(history, newGameState));
+
+      // Kazanan kontrolü; günlük oyunlar kendi geçmişinde tutulur, istatistiğe girmez
+      if (newGameState.winner) {
+        if (!isDailyGame(newGameState)) {
+          recordFinishedGame(newGameState);
         }
+        finishGame(newGameState);
       }
+      return newGameState;
+    } catch (error) {
+      play('invalid');
+      showToast(getErrorMessage(t, error), 'error');
+      return null;
     }
   };
 
+  // Boş bırakılan koltuklar seçili dilde varsayılan isim alır
+  const getSeatNames = (): string[] => {
+    return playerNames.map(
+      (name, index) => name.trim() || getDefaultPlayerName(t, index, seatBots[index]),
+    );
+  };
+
   const initializeNewGame = () => {
-    const newGame = initializeGame(playerCount);
-    setGameState(newGame);
+    const newGame = initializeGame(playerCount, getSeatNames(), {
+      mode: gameMode,
+      bots: seatBots,
+      teams: teamMode,
+      rules: gameState?.rules ?? rules,
+    });
+    setHistory(createUndoHistory(newGame));
     setShowOperationsModal(false);
-    stopTimer();
+    pausedByAppRef.current = false;
     
     // Oyun başlangıç animasyonu
     Animated.parallel([
@@ -540,193 +569,51 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
     if (!gameState || isRolling || gameState.gamePhase !== 'roll') return;
 
     setIsRolling(true);
+    play('roll');
     
-    // İki zar animasyonu - daha dramatik
-    Animated.parallel([
-      Animated.sequence([
-        Animated.timing(dice1Animation, {
-          toValue: 1,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice1Animation, {
-          toValue: 0,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice1Animation, {
-          toValue: 1,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice1Animation, {
-          toValue: 0,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice1Animation, {
-          toValue: 1,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice1Animation, {
-          toValue: 0,
-          duration: 150,
-          useNativeDriver: true,
-        }),
-      ]),
-      Animated.sequence([
-        Animated.timing(dice2Animation, {
-          toValue: 1,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice2Animation, {
-          toValue: 0,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice2Animation, {
-          toValue: 1,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice2Animation, {
-          toValue: 0,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice2Animation, {
-          toValue: 1,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-        Animated.timing(dice2Animation, {
-          toValue: 0,
-          duration: 180,
-          useNativeDriver: true,
-        }),
-      ]),
-    ]).start();
+    // Her zar biraz farklı hızda döner - daha dramatik
+    Animated.parallel(
+      diceAnimations.slice(0, gameState.rules.dice.count).map((animation, index) =>
+        Animated.sequence(
+          [1, 0, 1, 0, 1, 0].map(toValue =>
+            Animated.timing(animation, {
+              toValue,
+              duration: 150 + index * 30,
+              useNativeDriver: true,
+            }),
+          ),
+        ),
+      ),
+    ).start();
 
     setTimeout(() => {
-      const newGameState = rollDiceForGame(gameState);
-      setGameState(newGameState);
+      const newGameState = commitAction({ type: 'ROLL_DICE' });
       setIsRolling(false);
-      setShowOperationsModal(true);
+      if (newGameState) {
+        setShowOperationsModal(true);
+      }
     }, 1000);
   };
 
   const selectDiceOperation = (operation: Operation) => {
-    if (!gameState || !gameState.diceResults || gameState.gamePhase !== 'dice-operation') {
+    if (!gameState || !canUseDiceOperation(gameState, operation)) {
       return;
     }
 
-    const [dice1, dice2] = gameState.diceResults;
-
-    // Bölme işlemi kontrolü - sadece sıfıra bölme ve tam bölme kontrolü
-    if (operation === '/') {
-      if (dice2 === 0) {
-        Alert.alert('Hata', 'Sıfıra bölme yapılamaz!');
-        return;
-      }
-      if (dice1 % dice2 !== 0) {
-        Alert.alert('Hata', 'Tam bölme yapılamaz! Başka bir işlem seçin.');
-        return;
-      }
-    }
-
-    try {
-      const newGameState = applyDiceOperation(gameState, operation);
-      setGameState(newGameState);
-      // Timer'ı durdur, useEffect yeni aşama için timer başlatacak
-      stopTimer();
-    } catch (error) {
-      Alert.alert('Hata', (error as Error).message);
-    }
+    commitAction({ type: 'SELECT_DICE_OPERATION', operation });
   };
 
   const selectFinalOperation = (operation: Operation) => {
-    if (!gameState || gameState.diceCalculationResult === null || gameState.gamePhase !== 'final-operation') {
-      return;
-    }
-
-    const currentPlayer = getCurrentPlayer(gameState);
-
-    // Bölme işlemi kontrolü - sadece sıfıra bölme ve tam bölme kontrolü
-    if (operation === '/' && !canDivide(currentPlayer.currentNumber, gameState.diceCalculationResult)) {
-      Alert.alert('Hata', 'Bu işlem yapılamaz! Başka bir işlem seçin.');
+    if (!gameState || !canUseFinalOperation(gameState, operation)) {
       return;
     }
 
-    try {
-      const newGameState = applyFinalMove(gameState, operation);
-      setGameState(newGameState);
+    const newGameState = commitAction({ type: 'SELECT_FINAL_OPERATION', operation });
+    if (newGameState) {
       setShowOperationsModal(false);
-      stopTimer();
-
-      // Kazanan kontrolü
-      if (newGameState.winner) {
-        setTimeout(() => {
-          Alert.alert(
-            '🎉 Tebrikler!',
-            `${newGameState.winner!.name} oyunu kazandı!`,
-            [
-              {
-                text: 'Ana Sayfa',
-                onPress: onBackToHome,
-              },
-              {
-                text: 'Yeni Oyun',
-                onPress: initializeNewGame,
-              },
-            ]
-          );
-        }, 500);
-      }
-    } catch (error) {
-      Alert.alert('Hata', (error as Error).message);
     }
   };
 
-  const getOperationSymbol = (op: Operation): string => {
-    switch (op) {
-      case '+': return '+';
-      case '-': return '−';
-      case '*': return '×';
-      case '/': return '÷';
-      default: return '+';
-    }
-  };
-
-  const canUseDiceOperation = (operation: Operation): boolean => {
-    if (!gameState || !gameState.diceResults) return false;
-    
-    const [dice1, dice2] = gameState.diceResults;
-    
-    if (operation === '/') {
-      // Sıfıra bölme yapılamaz ve tam bölme gerekli
-      if (dice2 === 0) return false;
-      return dice1 % dice2 === 0;
-    }
-    
-    // Diğer işlemler (0 dahil) her zaman yapılabilir
-    return true;
-  };
-
-  const canUseFinalOperation = (operation: Operation): boolean => {
-    if (!gameState || gameState.diceCalculationResult === null) return false;
-    
-    const currentPlayer = getCurrentPlayer(gameState);
-    
-    if (operation === '/') {
-      return canDivide(currentPlayer.currentNumber, gameState.diceCalculationResult);
-    }
-    
-    // Diğer işlemler (0 dahil) her zaman yapılabilir
-    return true;
-  };
-
   // Player Names Modal
   const handlePlayerNameChange = (index: number, name: string) => {
     const newNames = [...playerNames];
@@ -734,27 +621,146 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
     setPlayerNames(newNames);
   };
 
+  const showHint = () => {
+    if (!gameState || !gameState.diceResults) return;
+
+    const currentNumber = getCurrentPlayer(gameState).currentNumber;
+    setHint(
+      findBestMove(
+        currentNumber,
+        gameState.diceResults,
+        gameState.targetNumber,
+        gameState.diceOperations,
+        gameState.rules.operations,
+        gameState.rules.dice,
+      )
+    );
+  };
+
+  const handleSeatTypeChange = (index: number, bot: BotDifficulty | null) => {
+    const newSeatBots = [...seatBots];
+    newSeatBots[index] = bot;
+    setSeatBots(newSeatBots);
+  };
+
   const startGameWithNames = () => {
-    // En az bir karakter girilmiş mi kontrol et
-    if (playerNames.some(name => name.trim() === '')) {
-      Alert.alert('Uyarı', 'Lütfen tüm oyuncu isimlerini girin!');
+    // En az bir karakter girilmiş mi kontrol et (botlar varsayılan isim alır)
+    if (playerNames.some((name, index) => !seatBots[index] && name.trim() === '')) {
+      showToast(t('game.enterAllNames'), 'error');
       return;
     }
     
     setShowPlayerNamesModal(false);
-    const initialState = initializeGame(playerCount, playerNames);
-    setGameState(initialState);
+    const initialState = initializeGame(playerCount, getSeatNames(), {
+      mode: gameMode,
+      bots: seatBots,
+      teams: teamMode,
+      rules,
+    });
+    setHistory(createUndoHistory(initialState));
+  };
+
+  // Geri al / ileri al: sadece gündelik modda ve oyuncu son işlemi seçene kadar
+  const restoreHistory = (nextHistory: UndoHistory) => {
+    setHistory(nextHistory);
+    setShowOperationsModal(nextHistory.present.gamePhase !== 'roll');
+  };
+
+  const togglePause = () => {
+    pausedByAppRef.current = false;
+    updateClock({ type: gameState?.clock.paused ? 'RESUME_CLOCK' : 'PAUSE_CLOCK' });
+  };
+
+  const undoLastAction = () => {
+    if (history && canUndo(history)) {
+      restoreHistory(undo(history));
+    }
+  };
+
+  const redoLastAction = () => {
+    if (history && canRedo(history)) {
+      restoreHistory(redo(history));
+    }
   };
 
-  if (!gameState) {
+  if (!history || !gameState) {
     return (
       <View style={styles.container}>
-        <Text style={styles.loadingText}>Oyun yükleniyor...</Text>
+        <Text style={styles.loadingText}>{t('game.loading')}</Text>
       </View>
     );
   }
 
-  const currentPlayer = getCurrentPlayer(gameState);
+  const displayPlayers = gameState.players.map(player => withPlayerAppearance(player, colorBlind));
+  const currentPlayer = displayPlayers[gameState.currentPlayerIndex];
+  const moveRatings = gameState.winner && showHistory
+    ? rateMoves(gameState.moves, gameState.rules.operations, gameState.rules.dice)
+    : undefined;
+  const diceOperands = getDiceOperands(gameState);
+  // Üç ve dört zar yan yana sığsın diye küçülür
+  const diceSize = scaleSize(gameState.rules.dice.count > 2 ? 52 : 70, fontScale);
+  const isBotTurn = Boolean(currentPlayer.bot) && !gameState.winner;
+  const teammateSuggestion = suggestTeammateOperation(gameState);
+  const bankTimeLeft = getBankTimeLeft(gameState);
+  const isPaused = gameState.clock.paused;
+  const winConditionText = describeWinCondition(t, gameState);
+
+  // Her düğme sonucunu önceden gösterir; motorun oynanamaz dediği işlemler kapalı kalır
+  const renderOperationGrid = (
+    canUse: (state: GameState, operation: Operation) => boolean,
+    onSelect: (operation: Operation) => void,
+  ) => (
+    <View style={styles.modalOperationsGrid}>
+      {getOperationPreviews(gameState).map(preview => {
+        const { operation } = preview;
+        const playable = canUse(gameState, operation);
+        const color = playable ? currentPlayer.color : theme.colors.textDisabled;
+        const previewText = formatOperationPreview(t, preview);
+        return (
+          <TouchableOpacity
+            key={operation}
+            accessibilityLabel={`${t(OPERATION_REGISTRY[operation].labelKey)}, ${previewText}`}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: isBotTurn || isPaused || !playable }}
+            style={[
+              styles.modalOperationButton,
+              !playable && styles.modalOperationButtonDisabled,
+              { borderColor: color },
+            ]}
+            onPress={() => onSelect(operation)}
+            disabled={isBotTurn || isPaused || !playable}
+          >
+            <Text style={[styles.modalOperationText, { color }]}>
+              {OPERATION_REGISTRY[operation].symbol}
+            </Text>
+            <Text
+              style={[
+                styles.modalOperationPreview,
+                { color: playable ? theme.colors.textSecondary : theme.colors.danger },
+              ]}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {previewText}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  botActionsRef.current = {
+    roll: rollDiceAction,
+    selectDice: selectDiceOperation,
+    selectFinal: selectFinalOperation,
+  };
+
+  timeUpActionRef.current = () => {
+    const newGameState = commitAction({ type: 'TIME_UP' });
+    if (newGameState && newGameState.gamePhase === 'roll') {
+      setShowOperationsModal(false);
+    }
+  };
 
   // Çoklu oyuncu için vertical scrollable layout
   return (
@@ -775,29 +781,86 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
       >
         <View style={styles.modalOverlay}>
           <View style={styles.playerNamesModalContent}>
-            <Text style={styles.modalTitle}>Oyuncu İsimleri</Text>
-            <Text style={styles.modalSubtitle}>Oyuna başlamadan önce isimleri girin</Text>
+            <Text style={styles.modalTitle}>{t('game.playerNamesTitle')}</Text>
+            <Text style={styles.modalSubtitle}>{t('game.playerNamesSubtitle')}</Text>
             
+            <ScrollView style={styles.playerSeatList} nestedScrollEnabled>
             {Array(playerCount).fill(0).map((_, index) => (
-              <View key={index} style={styles.playerNameInputContainer}>
-                <View style={[styles.playerColorIndicator, { backgroundColor: PLAYER_COLORS[index] }]} />
-                <TextInput
-                  style={styles.playerNameInput}
-                  placeholder={`Oyuncu ${index + 1}`}
-                  value={playerNames[index]}
-                  onChangeText={(text) => handlePlayerNameChange(index, text)}
-                  maxLength={15}
-                />
+              <View key={index} style={styles.playerSeat}>
+                <View style={styles.playerNameInputContainer}>
+                  <View
+                    style={[
+                      styles.playerColorIndicator,
+                      { backgroundColor: teamMode ? TEAM_COLORS[getSeatTeam(index)] : PLAYER_COLORS[index] },
+                    ]}
+                  />
+                  <TextInput
+                    style={styles.playerNameInput}
+                    placeholder={getDefaultPlayerName(t, index, seatBots[index])}
+                    placeholderTextColor={theme.colors.textDisabled}
+                    value={playerNames[index]}
+                    onChangeText={(text) => handlePlayerNameChange(index, text)}
+                    maxLength={15}
+                  />
+                </View>
+                <View style={styles.seatTypeRow}>
+                  {([null, 'easy', 'medium', 'hard'] as (BotDifficulty | null)[]).map((bot) => {
+                    const isSelected = seatBots[index] === bot;
+                    return (
+                      <TouchableOpacity
+                        key={bot ?? 'human'}
+                        style={[styles.seatTypeButton, isSelected && styles.seatTypeButtonSelected]}
+                        onPress={() => handleSeatTypeChange(index, bot)}
+                      >
+                        <Text style={[styles.seatTypeText, isSelected && styles.seatTypeTextSelected]}>
+                          {bot ? `🤖 ${t(`bot.difficulty.${bot}`)}` : t('game.seatHuman')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
               </View>
             ))}
+            </ScrollView>
+
+            <View style={styles.undoSettingRow}>
+              <View style={styles.undoSettingTextContainer}>
+                <Text style={styles.undoSettingTitle}>{t('game.allowUndo')}</Text>
+                <Text style={styles.undoSettingSubtitle}>
+                  {t('game.allowUndoHint')}
+                </Text>
+              </View>
+              <Switch
+                value={gameMode === 'casual'}
+                onValueChange={(enabled) => setGameMode(enabled ? 'casual' : 'competitive')}
+                trackColor={{ true: theme.colors.primary, false: theme.colors.border }}
+              />
+            </View>
+
+            {/* Takım modu sadece 4 kişilik oyunlarda: 1-3 ve 2-4 koltukları takım olur */}
+            {playerCount === TEAM_PLAYER_COUNT && (
+              <View style={styles.undoSettingRow}>
+                <View style={styles.undoSettingTextContainer}>
+                  <Text style={styles.undoSettingTitle}>{t('game.teams')}</Text>
+                  <Text style={styles.undoSettingSubtitle}>{t('game.teamsHint')}</Text>
+                </View>
+                <Switch
+                  value={teamMode}
+                  onValueChange={setTeamMode}
+                  trackColor={{ true: theme.colors.primary, false: theme.colors.border }}
+                />
+              </View>
+            )}
 
             <TouchableOpacity
               style={styles.startGameButton}
               onPress={startGameWithNames}
             >
-              <Text style={styles.startGameButtonText}>OYUNU BAŞLAT</Text>
+              <Text style={styles.startGameButtonText}>{t('game.start')}</Text>
             </TouchableOpacity>
           </View>
+          {/* Modal uygulamanın toast'ını örter, kendi toast'ını çizer */}
+          <ToastHost />
         </View>
       </Modal>
 
@@ -809,9 +872,61 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
           }
         ]}
       >
-        <TouchableOpacity style={styles.homeButton} onPress={onBackToHome}>
-          <Text style={styles.homeIcon}>🏠</Text>
-        </TouchableOpacity>
+        {/* Hata raporları ve tekrar oynatma için oyun tohumu */}
+        <Text style={styles.seedText} selectable>
+          #{gameState.seed}
+        </Text>
+        <View style={styles.headerButtons}>
+          {gameState.mode === 'casual' && (
+            <>
+              <TouchableOpacity
+                style={[styles.homeButton, !canUndo(history) && styles.headerButtonDisabled]}
+                onPress={undoLastAction}
+                disabled={!canUndo(history)}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.undo')}
+                accessibilityState={{ disabled: !canUndo(history) }}
+              >
+                <Text style={styles.homeIcon}>↩️</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.homeButton, !canRedo(history) && styles.headerButtonDisabled]}
+                onPress={redoLastAction}
+                disabled={!canRedo(history)}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.redo')}
+                accessibilityState={{ disabled: !canRedo(history) }}
+              >
+                <Text style={styles.homeIcon}>↪️</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          <TouchableOpacity
+            style={styles.homeButton}
+            onPress={shareGame}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.share')}
+          >
+            <Text style={styles.homeIcon}>🔗</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.homeButton, showHistory && styles.headerButtonActive]}
+            onPress={() => setShowHistory(!showHistory)}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.history')}
+            accessibilityState={{ selected: showHistory }}
+          >
+            <Text style={styles.homeIcon}>📜</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.homeButton}
+            onPress={onBackToHome}
+            accessibilityRole="button"
+            accessibilityLabel={t('game.home')}
+          >
+            <Text style={styles.homeIcon}>🏠</Text>
+          </TouchableOpacity>
+        </View>
       </Animated.View>
 
       <View style={styles.gameLayout}>
@@ -825,8 +940,17 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
             }
           ]}
         >
-          <Text style={styles.targetLabel}>HEDEF</Text>
-          <Text style={styles.targetNumber}>{gameState.targetNumber}</Text>
+          <Text style={styles.targetLabel}>{t('game.target')}</Text>
+          <Text
+            style={styles.targetNumber}
+            maxFontSizeMultiplier={MAX_FONT_SCALE}
+            accessibilityLabel={t('a11y.target', { number: gameState.targetNumber })}
+          >
+            {gameState.targetNumber}
+          </Text>
+          {winConditionText && (
+            <Text style={styles.winConditionText}>{winConditionText}</Text>
+          )}
         </Animated.View>
 
         {/* Ana Oyun Alanı */}
@@ -834,74 +958,101 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
           
           {/* Sol: Oyuncular */}
           <View style={styles.playersContainer}>
-            {gameState.players.map((player, index) => {
-              const isCurrentPlayer = gameState.currentPlayerIndex === index;
-              
-              return (
-                <Animated.View 
-                  key={player.id} 
-                  style={[
-                    styles.playerSection,
-                    {
-                      transform: [
-                        { 
-                          scale: isCurrentPlayer ? pulseAnim : 1
-                        },
+            {/* Takım oyunlarında kartlar takım rengiyle gruplanır */}
+            {groupSeatsByTeam(gameState.players).map(seats => (
+              <View
+                key={seats.join('-')}
+                style={[
+                  isTeamGame(gameState) && styles.teamGroup,
+                  isTeamGame(gameState) && { borderColor: displayPlayers[seats[0]].color },
+                ]}
+              >
+                {seats.map(index => {
+                  const player = displayPlayers[index];
+                  const isCurrentPlayer = gameState.currentPlayerIndex === index;
+                  
+                  return (
+                    <Animated.View 
+                      key={player.id} 
+                      accessible
+                      accessibilityLabel={describePlayer(t, player, isCurrentPlayer)}
+                      style={[
+                        styles.playerSection,
                         {
-                          translateX: isCurrentPlayer ? shakeAnim : 0
+                          transform: [
+                            { 
+                              scale: isCurrentPlayer ? pulseAnim : 1
+                            },
+                            {
+                              translateX: isCurrentPlayer ? shakeAnim : 0
+                            }
+                          ]
                         }
-                      ]
-                    }
-                  ]}
-                >
-                  <Animated.View 
-                    style={[
-                      styles.playerCard, 
-                      { 
-                        backgroundColor: player.color + '20',
-                        shadowColor: isCurrentPlayer ? player.color : '#000',
-                        shadowOpacity: isCurrentPlayer ? glowAnim.interpolate({
-                          inputRange: [0, 1],
-                          outputRange: [0.2, 0.6],
-                        }) : 0.1,
-                        borderWidth: isCurrentPlayer ? 3 : 1,
-                        borderColor: isCurrentPlayer ? player.color : 'transparent',
-                      }
-                    ]}
-                  >
-                    {isCurrentPlayer && (
-                      <Animated.View
+                      ]}
+                    >
+                      <Animated.View 
                         style={[
-                          styles.activePlayerIndicator,
-                          {
-                            backgroundColor: player.color,
-                            opacity: glowAnim.interpolate({
+                          styles.playerCard, 
+                          { 
+                            backgroundColor: player.color + '20',
+                            shadowColor: isCurrentPlayer ? player.color : theme.colors.shadow,
+                            shadowOpacity: isCurrentPlayer ? glowAnim.interpolate({
                               inputRange: [0, 1],
-                              outputRange: [0.3, 0.8],
-                            }),
+                              outputRange: [0.2, 0.6],
+                            }) : 0.1,
+                            borderWidth: isCurrentPlayer ? 3 : 1,
+                            borderColor: isCurrentPlayer ? player.color : 'transparent',
                           }
                         ]}
-                      />
-                    )}
-                    <Text style={[styles.playerName, { color: player.color }]}>
-                      {player.name} {isCurrentPlayer ? '👑' : ''}
-                    </Text>
-                    <Text style={[styles.playerNumber, { color: player.color }]}>
-                      {player.currentNumber}
-                    </Text>
-                    {isCurrentPlayer && (
-                      <Text style={[styles.currentPlayerLabel, { color: player.color }]}>
-                        SİRAN!
-                      </Text>
-                    )}
-                  </Animated.View>
-                </Animated.View>
-              );
-            })}
+                      >
+                        {isCurrentPlayer && (
+                          <Animated.View
+                            style={[
+                              styles.activePlayerIndicator,
+                              {
+                                backgroundColor: player.color,
+                                opacity: glowAnim.interpolate({
+                                  inputRange: [0, 1],
+                                  outputRange: [0.3, 0.8],
+                                }),
+                              }
+                            ]}
+                          />
+                        )}
+                        <Text style={[styles.playerName, { color: player.color }]}>
+                          {player.shape ? `${player.shape} ` : ''}{player.name} {isCurrentPlayer ? '👑' : ''}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.playerNumber,
+                            { color: player.color },
+                            player.eliminated && styles.playerNumberEliminated,
+                          ]}
+                          maxFontSizeMultiplier={MAX_FONT_SCALE}
+                        >
+                          {player.currentNumber}
+                        </Text>
+                        {player.eliminated && (
+                          <Text style={styles.eliminatedLabel}>{t('game.eliminated')}</Text>
+                        )}
+                        {gameState.rules.winCondition.type === 'targets' && (
+                          <Text style={styles.targetsWonText}>{'⭐'.repeat(player.targetsWon ?? 0) || '–'}</Text>
+                        )}
+                        {isCurrentPlayer && (
+                          <Text style={[styles.currentPlayerLabel, { color: player.color }]}>
+                            {t('game.yourTurn')}
+                          </Text>
+                        )}
+                      </Animated.View>
+                    </Animated.View>
+                  );
+                })}
+              </View>
+            ))}
           </View>
 
           {/* Sağ: Zarlar ve Kontroller */}
-          <View style={styles.controlsContainer}>
+          <View style={[styles.controlsContainer, { width: windowWidth * 0.4 }]}>
             
             {/* Zarlar */}
             <Animated.View 
@@ -915,55 +1066,44 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
               <TouchableOpacity
                 style={[
                   styles.diceButton, 
-                  (isRolling || gameState.gamePhase !== 'roll') && styles.diceButtonDisabled
+                  (isRolling || isBotTurn || gameState.gamePhase !== 'roll') && styles.diceButtonDisabled
                 ]}
                 onPress={rollDiceAction}
-                disabled={isRolling || gameState.gamePhase !== 'roll'}
+                disabled={isRolling || isBotTurn || gameState.gamePhase !== 'roll'}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  gameState.diceResults ? describeDice(t, gameState.diceResults) : t('a11y.rollDice')
+                }
+                accessibilityState={{ disabled: isRolling || isBotTurn || gameState.gamePhase !== 'roll' }}
               >
                 <View style={styles.diceRow}>
-                  <Animated.View
-                    style={[
-                      styles.dice,
-                      styles.activeDice,
-                      {
-                        transform: [{
-                          rotateY: dice1Animation.interpolate({
-                            inputRange: [0, 1],
-                            outputRange: ['0deg', '360deg'],
-                          }),
-                        }],
-                      },
-                    ]}
-                  >
-                    <Text style={styles.diceText}>
-                      {gameState.diceResults ? getDiceFace(gameState.diceResults[0]) : '🎲'}
-                    </Text>
-                    {gameState.diceResults && (
-                      <Text style={styles.diceNumber}>{gameState.diceResults[0]}</Text>
-                    )}
-                  </Animated.View>
-
-                  <Animated.View
-                    style={[
-                      styles.dice,
-                      styles.activeDice,
-                      {
-                        transform: [{
-                          rotateY: dice2Animation.interpolate({
-                            inputRange: [0, 1],
-                            outputRange: ['0deg', '360deg'],
-                          }),
-                        }],
-                      },
-                    ]}
-                  >
-                    <Text style={styles.diceText}>
-                      {gameState.diceResults ? getDiceFace(gameState.diceResults[1]) : '🎲'}
-                    </Text>
-                    {gameState.diceResults && (
-                      <Text style={styles.diceNumber}>{gameState.diceResults[1]}</Text>
-                    )}
-                  </Animated.View>
+                  {diceAnimations.slice(0, gameState.rules.dice.count).map((animation, index) => (
+                    <Animated.View
+                      key={index}
+                      style={[
+                        styles.dice,
+                        styles.activeDice,
+                        { width: diceSize, height: diceSize },
+                        {
+                          transform: [{
+                            rotateY: animation.interpolate({
+                              inputRange: [0, 1],
+                              outputRange: ['0deg', '360deg'],
+                            }),
+                          }],
+                        },
+                      ]}
+                    >
+                      <Text style={styles.diceText}>
+                        {gameState.diceResults
+                          ? getDiceFace(gameState.diceResults[index], gameState.rules.dice)
+                          : '🎲'}
+                      </Text>
+                      {gameState.diceResults && (
+                        <Text style={styles.diceNumber}>{gameState.diceResults[index]}</Text>
+                      )}
+                    </Animated.View>
+                  ))}
                 </View>
               </TouchableOpacity>
             </Animated.View>
@@ -973,6 +1113,7 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
 
             {/* Aktif Oyuncu Gösterisi - Modern Tasarım */}
             <Animated.View 
+              accessibilityLiveRegion="polite"
               style={[
                 styles.currentPlayerWrapper,
                 {
@@ -991,8 +1132,11 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
                     <Text style={styles.currentPlayerEmoji}>👑</Text>
                   </View>
                   <View style={styles.currentPlayerTextContainer}>
-                    <Text style={styles.currentPlayerLabel}>SIRA</Text>
-                    <Text style={styles.currentPlayerName}>{currentPlayer.name}</Text>
+                    <Text style={styles.currentPlayerLabel}>{t('game.turn')}</Text>
+                    <Text style={styles.currentPlayerName}>
+                      {currentPlayer.shape ? `${currentPlayer.shape} ` : ''}
+                      {currentPlayer.name}{isBotTurn ? ' 🤖' : ''}
+                    </Text>
                   </View>
                 </View>
               </LinearGradient>
@@ -1001,6 +1145,15 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
           </View>
         </View>
 
+        {/* Hamle Geçmişi */}
+        {showHistory && (
+          <MoveHistoryPanel
+            moves={gameState.moves}
+            players={gameState.players}
+            ratings={moveRatings}
+          />
+        )}
+
       </View>
 
       {/* Operations Modal */}
@@ -1024,10 +1177,8 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
             {/* Progress Bar ve Timer */}
             <View style={styles.timerContainer}>
               <LinearProgress
-                duration={currentTimer === 'dice' ? DICE_OPERATION_TIMER : FINAL_OPERATION_TIMER}
+                progress={gameState.clock.phaseTimeLeft / getPhaseBudget(gameState.rules, gameState.gamePhase)}
                 color={currentPlayer.color}
-                onComplete={handleTimeUp}
-                isActive={isTimerActive}
               />
               <View style={styles.timerInfo}>
                 <Animated.Text 
@@ -1035,84 +1186,113 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
                     styles.timerText, 
                     { 
                       color: currentPlayer.color,
-                      transform: [{ scale: timeLeft <= 3 ? pulseAnim : 1 }]
+                      transform: [{ scale: timeLeftSeconds <= 3 ? pulseAnim : 1 }]
                     }
                   ]}
                 >
-                  {timeLeft}s
+                  {Math.ceil(gameState.clock.phaseTimeLeft / 1000)}s
                 </Animated.Text>
                 <Text style={styles.timerPhaseText}>
-                  {currentTimer === 'dice' ? 'Zar İşlemi' : 'Ana Sayı İşlemi'}
+                  {t(gameState.gamePhase === 'dice-operation' ? 'game.phase.dice' : 'game.phase.final')}
                 </Text>
+                {bankTimeLeft !== null && (
+                  <Text style={styles.timerBankText}>🏦 {Math.ceil(bankTimeLeft / 1000)}s</Text>
+                )}
+                <TouchableOpacity
+                  style={styles.pauseButton}
+                  onPress={togglePause}
+                  accessibilityRole="button"
+                  accessibilityLabel={t(isPaused ? 'a11y.resume' : 'a11y.pause')}
+                >
+                  <Text style={styles.pauseButtonText}>{isPaused ? '▶️' : '⏸️'}</Text>
+                </TouchableOpacity>
               </View>
             </View>
+
+            {isPaused && (
+              <Text style={styles.pausedText}>{t('game.paused')}</Text>
+            )}
             
+            {isBotTurn && (
+              <Text style={[styles.botThinkingText, { color: currentPlayer.color }]}>
+                {t('game.botThinking', { name: currentPlayer.name })}
+              </Text>
+            )}
+
+            {!isBotTurn && (
+              <View style={styles.modalActionsRow}>
+                {/* Günlük meydan okumada ipucu yok */}
+                {!isDailyGame(gameState) && (
+                  <TouchableOpacity style={styles.modalActionButton} onPress={showHint}>
+                    <Text style={styles.modalActionText}>{t('game.hint')}</Text>
+                  </TouchableOpacity>
+                )}
+                {gameState.mode === 'casual' && canUndo(history) && (
+                  <TouchableOpacity style={styles.modalActionButton} onPress={undoLastAction}>
+                    <Text style={styles.modalActionText}>{t('game.undo')}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {hint && gameState.diceResults && (
+              <View style={styles.hintContainer}>
+                <Text style={styles.hintText}>
+                  {formatTurnEquation(gameState.diceResults, currentPlayer.currentNumber, hint)}
+                </Text>
+                <Text style={styles.hintSubtext}>
+                  {hint.turnsLeft === null
+                    ? t('game.hintTooFar')
+                    : hint.turnsLeft === 0
+                      ? t('game.hintWins')
+                      : t('game.hintTurnsLeft', { count: hint.turnsLeft })}
+                </Text>
+              </View>
+            )}
+
             {gameState.gamePhase === 'dice-operation' && gameState.diceResults && (
               <>
-                <Text style={styles.modalTitle}>Zarları Hesapla</Text>
+                <Text style={styles.modalTitle}>{t('game.diceTitle')}</Text>
+                {gameState.diceOperations.length > 0 && (
+                  <Text style={styles.modalSubtitle}>
+                    {formatDiceChain(gameState.diceResults, gameState.diceOperations)} ={' '}
+                    {gameState.diceCalculationResult}
+                  </Text>
+                )}
                 <Text style={styles.modalSubtitle}>
-                  {gameState.diceResults[0]} ? {gameState.diceResults[1]} = ?
+                  {diceOperands?.[0]} ? {diceOperands?.[1]} = ?
                 </Text>
                 
-                <View style={styles.modalOperationsGrid}>
-                  {(['+', '-', '*', '/'] as Operation[]).map((operation) => (
-                    <TouchableOpacity
-                      key={operation}
-                      style={[
-                        styles.modalOperationButton,
-                        !canUseDiceOperation(operation) && styles.modalOperationButtonDisabled,
-                        { borderColor: canUseDiceOperation(operation) ? currentPlayer.color : '#ddd' }
-                      ]}
-                      onPress={() => selectDiceOperation(operation)}
-                      disabled={!canUseDiceOperation(operation)}
-                    >
-                      <Text style={[
-                        styles.modalOperationText,
-                        { color: canUseDiceOperation(operation) ? currentPlayer.color : '#ccc' }
-                      ]}>
-                        {getOperationSymbol(operation)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
+                {renderOperationGrid(canUseDiceOperation, selectDiceOperation)}
               </>
             )}
 
             {gameState.gamePhase === 'final-operation' && gameState.diceCalculationResult !== null && (
               <>
-                <Text style={styles.modalTitle}>Ana Sayınla İşlem Yap</Text>
+                <Text style={styles.modalTitle}>{t('game.finalTitle')}</Text>
                 <Text style={styles.modalSubtitle}>
-                  Zar Sonucu: {gameState.diceCalculationResult}
+                  {t('game.diceResult', { result: gameState.diceCalculationResult })}
                 </Text>
                 <Text style={styles.modalSubtitle}>
                   {currentPlayer.currentNumber} ? {gameState.diceCalculationResult} = ?
                 </Text>
+                {teammateSuggestion && (
+                  <View style={styles.hintContainer}>
+                    <Text style={styles.hintText}>
+                      {t('game.teammateSuggests', {
+                        name: teammateSuggestion.teammate.name,
+                        operation: OPERATION_REGISTRY[teammateSuggestion.operation].symbol,
+                      })}
+                    </Text>
+                  </View>
+                )}
                 
-                <View style={styles.modalOperationsGrid}>
-                  {(['+', '-', '*', '/'] as Operation[]).map((operation) => (
-                    <TouchableOpacity
-                      key={operation}
-                      style={[
-                        styles.modalOperationButton,
-                        !canUseFinalOperation(operation) && styles.modalOperationButtonDisabled,
-                        { borderColor: canUseFinalOperation(operation) ? currentPlayer.color : '#ddd' }
-                      ]}
-                      onPress={() => selectFinalOperation(operation)}
-                      disabled={!canUseFinalOperation(operation)}
-                    >
-                      <Text style={[
-                        styles.modalOperationText,
-                        { color: canUseFinalOperation(operation) ? currentPlayer.color : '#ccc' }
-                      ]}>
-                        {getOperationSymbol(operation)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
+                {renderOperationGrid(canUseFinalOperation, selectFinalOperation)}
               </>
             )}
             
           </Animated.View>
+          <ToastHost />
         </View>
       </Modal>
 
@@ -1120,16 +1300,16 @@ const NumClashScreen: React.FC<NumClashScreenProps> = ({ playerCount, onBackToHo
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#f8f9fa',
+    backgroundColor: theme.colors.background,
   },
   loadingText: {
     fontSize: 18,
     textAlign: 'center',
     marginTop: 50,
-    color: '#666',
+    color: theme.colors.textMuted,
   },
 
   // Header
@@ -1137,21 +1317,39 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingTop: 15,
     paddingBottom: 10,
-    alignItems: 'flex-end',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  seedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textDisabled,
+    letterSpacing: 1,
   },
   homeButton: {
     padding: 10,
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     borderRadius: 15,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 3,
   },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  headerButtonActive: {
+    backgroundColor: theme.colors.surfaceMuted,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
   homeIcon: {
     fontSize: 24,
-    color: '#666',
+    color: theme.colors.textMuted,
   },
 
   // Game Layout - Responsive and flexible
@@ -1169,6 +1367,12 @@ const styles = StyleSheet.create({
   playerSection: {
     marginVertical: 6,
   },
+  teamGroup: {
+    borderWidth: 2,
+    borderRadius: 16,
+    paddingHorizontal: 6,
+    marginVertical: 4,
+  },
   activePlayerSection: {
     transform: [{ scale: 1.05 }],
   },
@@ -1176,7 +1380,7 @@ const styles = StyleSheet.create({
     padding: 16,
     borderRadius: 12,
     alignItems: 'center',
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 3 },
     shadowOpacity: 0.1,
     shadowRadius: 6,
@@ -1201,11 +1405,19 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
-  currentPlayerLabel: {
+  playerNumberEliminated: {
+    opacity: 0.4,
+    textDecorationLine: 'line-through',
+  },
+  eliminatedLabel: {
     fontSize: 11,
-    fontWeight: 'bold',
-    marginTop: 5,
-    letterSpacing: 1.5,
+    fontWeight: '800',
+    color: theme.colors.danger,
+    letterSpacing: 1,
+  },
+  targetsWonText: {
+    fontSize: 12,
+    marginTop: 2,
   },
 
   // Dice Container - Well sized and positioned
@@ -1219,26 +1431,28 @@ const styles = StyleSheet.create({
   },
   diceRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
     gap: 15,
   },
   dice: {
     width: 70,
     height: 70,
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     borderRadius: 12,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.15,
     shadowRadius: 8,
     elevation: 5,
     borderWidth: 3,
-    borderColor: '#e9ecef',
+    borderColor: theme.colors.border,
   },
   activeDice: {
-    borderColor: '#4CAF50',
-    shadowColor: '#4CAF50',
+    borderColor: theme.colors.primary,
+    shadowColor: theme.colors.primary,
     shadowOpacity: 0.3,
   },
   diceText: {
@@ -1248,17 +1462,17 @@ const styles = StyleSheet.create({
   diceNumber: {
     fontSize: 12,
     fontWeight: 'bold',
-    color: '#495057',
+    color: theme.colors.textSecondary,
   },
 
   // Target Section - Always at top, compact
   targetSection: {
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     paddingHorizontal: 25,
     paddingVertical: 12,
     borderRadius: 15,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 3 },
     shadowOpacity: 0.12,
     shadowRadius: 6,
@@ -1269,20 +1483,26 @@ const styles = StyleSheet.create({
   targetLabel: {
     fontSize: 12,
     fontWeight: '600',
-    color: '#666',
+    color: theme.colors.textMuted,
     marginBottom: 4,
   },
+  winConditionText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
   targetNumber: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#2c3e50',
+    color: theme.colors.text,
   },
 
   currentPlayerWrapper: {
     alignSelf: 'center',
     borderRadius: 20,
     overflow: 'hidden',
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.2,
     shadowRadius: 8,
@@ -1315,31 +1535,31 @@ const styles = StyleSheet.create({
   currentPlayerLabel: {
     fontSize: 10,
     fontWeight: '800',
-    color: '#fff',
+    color: theme.colors.onPrimary,
     opacity: 0.8,
     letterSpacing: 2,
   },
   currentPlayerName: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: '#fff',
+    color: theme.colors.onPrimary,
     marginTop: 2,
   },
 
   // Modal Styles
   modalOverlay: {
     flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    backgroundColor: theme.colors.overlay,
     justifyContent: 'flex-end',
   },
   modalContent: {
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     borderTopLeftRadius: 25,
     borderTopRightRadius: 25,
     borderTopWidth: 4,
     padding: 30,
     minHeight: 350,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: -4 },
     shadowOpacity: 0.2,
     shadowRadius: 12,
@@ -1354,7 +1574,7 @@ const styles = StyleSheet.create({
   progressBarBackground: {
     width: '100%',
     height: 6,
-    backgroundColor: '#e9ecef',
+    backgroundColor: theme.colors.surfaceMuted,
     borderRadius: 3,
     marginBottom: 10,
   },
@@ -1372,52 +1592,123 @@ const styles = StyleSheet.create({
   timerPhaseText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#666',
+    color: theme.colors.textMuted,
     marginTop: 5,
   },
+  timerBankText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+    marginTop: 4,
+  },
+  pauseButton: {
+    marginTop: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surfaceMuted,
+  },
+  pauseButtonText: {
+    fontSize: 18,
+  },
+  pausedText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.highlightText,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
   
   modalTitle: {
     fontSize: 24,
     fontWeight: 'bold',
     textAlign: 'center',
     marginBottom: 10,
-    color: '#2c3e50',
+    color: theme.colors.text,
   },
   modalSubtitle: {
     fontSize: 18,
     textAlign: 'center',
     marginBottom: 20,
-    color: '#495057',
+    color: theme.colors.textSecondary,
     fontWeight: '500',
   },
   modalOperationsGrid: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-around',
+    rowGap: 12,
     marginTop: 20,
   },
   modalOperationButton: {
-    width: 70,
-    height: 70,
+    width: '46%',
+    height: 76,
+    paddingHorizontal: 8,
     justifyContent: 'center',
     alignItems: 'center',
     borderRadius: 20,
     borderWidth: 3,
-    backgroundColor: '#fff',
-    shadowColor: '#000',
+    backgroundColor: theme.colors.surface,
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.1,
     shadowRadius: 6,
     elevation: 4,
   },
   modalOperationButtonDisabled: {
-    backgroundColor: '#f8f9fa',
-    borderColor: '#dee2e6',
+    backgroundColor: theme.colors.background,
+    borderColor: theme.colors.border,
     shadowOpacity: 0.05,
   },
   modalOperationText: {
-    fontSize: 28,
+    fontSize: 26,
     fontWeight: 'bold',
   },
+  modalOperationPreview: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  botThinkingText: {
+    fontSize: 16,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  modalActionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  modalActionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surfaceMuted,
+  },
+  modalActionText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  hintContainer: {
+    alignItems: 'center',
+    backgroundColor: theme.colors.highlight,
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 10,
+  },
+  hintText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  hintSubtext: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginTop: 4,
+  },
 
   // Game Content
   gameContent: {
@@ -1428,7 +1719,6 @@ const styles = StyleSheet.create({
 
   // Controls Container - Right side, better proportioned
   controlsContainer: {
-    width: width * 0.4,
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 20,
@@ -1439,15 +1729,19 @@ const styles = StyleSheet.create({
     height: 20,
   },
 
+  playerSeatList: {
+    maxHeight: 420,
+  },
+
   playerNamesModalContent: {
-    backgroundColor: '#fff',
+    backgroundColor: theme.colors.surface,
     padding: 25,
     borderRadius: 25,
     width: '90%',
     alignSelf: 'center',
     marginTop: 'auto',
     marginBottom: 'auto',
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.2,
     shadowRadius: 8,
@@ -1464,7 +1758,7 @@ const styles = StyleSheet.create({
     height: 36,
     borderRadius: 18,
     marginRight: 12,
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -1475,20 +1769,70 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
     borderWidth: 2,
-    borderColor: '#e9ecef',
+    borderColor: theme.colors.border,
     borderRadius: 12,
     fontSize: 16,
-    color: '#495057',
-    backgroundColor: '#f8f9fa',
+    color: theme.colors.textSecondary,
+    backgroundColor: theme.colors.background,
+  },
+  playerSeat: {
+    marginVertical: 6,
+  },
+  seatTypeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginLeft: 48,
+    gap: 6,
+  },
+  seatTypeButton: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+  },
+  seatTypeButtonSelected: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  seatTypeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  seatTypeTextSelected: {
+    color: theme.colors.onPrimary,
+  },
+  undoSettingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  undoSettingTextContainer: {
+    flex: 1,
+  },
+  undoSettingTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  undoSettingSubtitle: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginTop: 2,
   },
   startGameButton: {
-    backgroundColor: '#4CAF50',
+    backgroundColor: theme.colors.primary,
     paddingHorizontal: 24,
     paddingVertical: 14,
     borderRadius: 15,
     marginTop: 25,
     width: '100%',
-    shadowColor: '#000',
+    shadowColor: theme.colors.shadow,
     shadowOffset: { width: 0, height: 3 },
     shadowOpacity: 0.15,
     shadowRadius: 6,
@@ -1497,7 +1841,7 @@ const styles = StyleSheet.create({
   startGameButtonText: {
     fontSize: 16,
     fontWeight: '800',
-    color: '#fff',
+    color: theme.colors.onPrimary,
     textAlign: 'center',
     letterSpacing: 1,
   },
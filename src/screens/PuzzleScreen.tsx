@@ -0,0 +1,391 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { GameAction, GameState, Operation } from '../types/gameTypes';
+import {
+  canUseDiceOperation,
+  canUseFinalOperation,
+  dispatch,
+  formatMoveEquation,
+  getCurrentPlayer,
+  getDiceOperands,
+} from '../services/gameService';
+import { OPERATION_REGISTRY } from '../services/operationService';
+import {
+  PuzzleLevel,
+  createPuzzleGame,
+  formatStars,
+  getPuzzleStars,
+  getPuzzleStatus,
+  recordPuzzleResult,
+} from '../services/puzzleService';
+import { getErrorMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { useToast } from '../components/Toast';
+import { Theme } from '../theme';
+import { useThemedStyles } from '../theme/ThemeContext';
+
+interface PuzzleScreenProps {
+  level: PuzzleLevel;
+  // 1-based position in its pack
+  levelNumber: number;
+  onBack: () => void;
+  // Missing on the last level of a list
+  onNext?: () => void;
+}
+
+const PuzzleScreen: React.FC<PuzzleScreenProps> = ({ level, levelNumber, onBack, onNext }) => {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const { showToast } = useToast();
+  const createGame = () => createPuzzleGame(level, t('game.defaultPlayerName', { number: 1 }));
+  const [game, setGame] = useState<GameState>(createGame);
+  const recorded = useRef(false);
+
+  const status = getPuzzleStatus(game, level);
+  const stars = getPuzzleStars(game.moves.length, level);
+  const currentNumber = getCurrentPlayer(game).currentNumber;
+  const diceOperands = getDiceOperands(game);
+  const lastMove = game.moves[game.moves.length - 1];
+
+  // Seviye her çözüldüğünde en iyi sonuç kaydedilir
+  useEffect(() => {
+    if (status === 'solved' && !recorded.current) {
+      recorded.current = true;
+      recordPuzzleResult(level.id, stars);
+    }
+  }, [status, stars, level.id]);
+
+  const commitAction = (action: GameAction) => {
+    try {
+      setGame(dispatch(game, action));
+    } catch (error) {
+      showToast(getErrorMessage(t, error), 'error');
+    }
+  };
+
+  const restart = () => {
+    recorded.current = false;
+    setGame(createGame());
+  };
+
+  const renderOperations = (
+    canUse: (state: GameState, operation: Operation) => boolean,
+    type: 'SELECT_DICE_OPERATION' | 'SELECT_FINAL_OPERATION',
+  ) => (
+    <View style={styles.operationRow}>
+      {game.rules.operations.map(operation => (
+        <TouchableOpacity
+          key={operation}
+          style={[styles.operationButton, !canUse(game, operation) && styles.operationButtonDisabled]}
+          onPress={() => commitAction({ type, operation })}
+          disabled={!canUse(game, operation)}
+          accessibilityLabel={t(OPERATION_REGISTRY[operation].labelKey)}
+        >
+          <Text style={styles.operationText}>{OPERATION_REGISTRY[operation].symbol}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerIcon}>🧩</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('puzzle.levelTitle', { number: levelNumber })}</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={restart}
+          accessibilityLabel={t('puzzle.restart')}
+        >
+          <Text style={styles.headerIcon}>🔄</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.goalText}>
+          {t('puzzle.goal', { start: level.start, target: level.target, count: level.par })}
+        </Text>
+
+        <View style={styles.card}>
+          <View style={styles.numberRow}>
+            <View style={styles.numberBox}>
+              <Text style={styles.numberLabel}>{t('puzzle.current')}</Text>
+              <Text style={styles.numberValue}>{currentNumber}</Text>
+            </View>
+            <Text style={styles.arrow}>→</Text>
+            <View style={styles.numberBox}>
+              <Text style={styles.numberLabel}>{t('game.target')}</Text>
+              <Text style={[styles.numberValue, styles.targetValue]}>{level.target}</Text>
+            </View>
+          </View>
+          {lastMove && <Text style={styles.equationText}>{formatMoveEquation(lastMove)}</Text>}
+        </View>
+
+        {/* Zar sırası baştan bellidir: atılanlar soluk, sıradaki vurgulu */}
+        <Text style={styles.sectionTitle}>
+          {t('puzzle.rollsLeft', { count: level.dice.length - game.moves.length })}
+        </Text>
+        <View style={styles.diceStrip}>
+          {level.dice.map((dice, index) => (
+            <View
+              key={index}
+              style={[
+                styles.diceChip,
+                index < game.moves.length && styles.diceChipUsed,
+                index === game.moves.length && status === 'playing' && styles.diceChipCurrent,
+              ]}
+            >
+              <Text style={styles.diceChipText}>{dice[0]} · {dice[1]}</Text>
+            </View>
+          ))}
+        </View>
+
+        {status === 'playing' && (
+          <View style={styles.card}>
+            {game.gamePhase === 'roll' && (
+              <TouchableOpacity style={styles.mainButton} onPress={() => commitAction({ type: 'ROLL_DICE' })}>
+                <Text style={styles.mainButtonText}>{t('puzzle.roll')}</Text>
+              </TouchableOpacity>
+            )}
+            {diceOperands && (
+              <>
+                <Text style={styles.sectionTitle}>
+                  {t('game.diceTitle')}: {diceOperands[0]} ? {diceOperands[1]}
+                </Text>
+                {renderOperations(canUseDiceOperation, 'SELECT_DICE_OPERATION')}
+              </>
+            )}
+            {game.gamePhase === 'final-operation' && (
+              <>
+                <Text style={styles.sectionTitle}>
+                  {t('game.finalTitle')}: {currentNumber} ? {game.diceCalculationResult}
+                </Text>
+                {renderOperations(canUseFinalOperation, 'SELECT_FINAL_OPERATION')}
+              </>
+            )}
+          </View>
+        )}
+
+        {status === 'solved' && (
+          <View style={[styles.card, styles.resultCard]}>
+            <Text style={styles.resultTitle}>{t('puzzle.solved', { count: game.moves.length })}</Text>
+            <Text style={styles.resultStars}>{formatStars(stars)}</Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.mainButton, styles.secondaryButton]} onPress={restart}>
+                <Text style={styles.mainButtonText}>{t('puzzle.retry')}</Text>
+              </TouchableOpacity>
+              {onNext && (
+                <TouchableOpacity style={styles.mainButton} onPress={onNext}>
+                  <Text style={styles.mainButtonText}>{t('puzzle.next')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {status === 'failed' && (
+          <View style={[styles.card, styles.resultCard]}>
+            <Text style={styles.resultTitle}>{t('puzzle.failed')}</Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={styles.mainButton} onPress={restart}>
+                <Text style={styles.mainButtonText}>{t('puzzle.retry')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  goalText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginVertical: 6,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginVertical: 8,
+  },
+
+  // Numbers
+  numberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  numberBox: {
+    alignItems: 'center',
+  },
+  numberLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  numberValue: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  targetValue: {
+    color: theme.colors.danger,
+  },
+  arrow: {
+    fontSize: 28,
+    color: theme.colors.textDisabled,
+  },
+  equationText: {
+    fontSize: 15,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+
+  // Dice
+  diceStrip: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  diceChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  diceChipUsed: {
+    opacity: 0.35,
+  },
+  diceChipCurrent: {
+    borderColor: theme.colors.accent,
+  },
+  diceChipText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+
+  // Operations
+  operationRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  operationButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: theme.colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  operationButtonDisabled: {
+    borderColor: theme.colors.border,
+    opacity: 0.5,
+  },
+  operationText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+
+  // Result
+  resultCard: {
+    alignItems: 'center',
+  },
+  resultTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  resultStars: {
+    fontSize: 36,
+    color: theme.colors.warning,
+    marginTop: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  mainButton: {
+    flex: 1,
+    backgroundColor: theme.colors.primary,
+    borderRadius: 25,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: theme.colors.accent,
+  },
+  mainButtonText: {
+    color: theme.colors.onPrimary,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+});
+
+export default PuzzleScreen;
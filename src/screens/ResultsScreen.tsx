@@ -0,0 +1,691 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import { GameState, Player } from '../types/gameTypes';
+import MoveHistoryPanel from '../components/MoveHistoryPanel';
+import NumberPathChart from '../components/NumberPathChart';
+import { useToast } from '../components/Toast';
+import { formatMoveEquation } from '../services/gameService';
+import { REPLAY_STEP_INTERVAL, buildReplayFrames, getNumberPaths } from '../services/replayService';
+import { DailyResult, formatDailySummary } from '../services/dailyService';
+import { encodeGame } from '../services/shareService';
+import { rateMoves } from '../services/solverService';
+import { getStandings } from '../services/winConditionService';
+import { getSideName } from '../services/teamService';
+import { Translate, getErrorMessage } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { describePlayer, withPlayerAppearance } from '../accessibility';
+import { useAccessibility } from '../accessibility/AccessibilityContext';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+// Set for daily challenge games
+export interface DailyOutcome {
+  result: DailyResult;
+  streak: number;
+  // False when today's daily had already been played
+  counted: boolean;
+}
+
+interface ResultsScreenProps {
+  game: GameState;
+  daily?: DailyOutcome | null;
+  onHome: () => void;
+  // Left out when a rematch makes no sense, as for the daily challenge
+  onRematch?: () => void;
+}
+
+const RANK_ICONS = ['🥇', '🥈', '🥉'];
+
+// Why the winner won, under the congratulations
+const describeWinReason = (t: Translate, game: GameState): string => {
+  const { winCondition } = game.rules;
+  const count =
+    winCondition.type === 'closest' ? winCondition.rounds
+      : winCondition.type === 'targets' ? winCondition.targets
+        : 0;
+  return t(`game.winReason.${game.winReason ?? 'exact'}`, { name: getSideName(game.players, game.winner!), count });
+};
+
+interface ScrubBarProps {
+  count: number;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+// Drag or tap anywhere on the track to jump to a frame
+const ScrubBar: React.FC<ScrubBarProps> = ({ count, value, onChange }) => {
+  const widthRef = useRef(0);
+  const latest = useRef({ count, onChange });
+  latest.current = { count, onChange };
+  const styles = useThemedStyles(createStyles);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => seek(event.nativeEvent.locationX),
+      onPanResponderMove: event => seek(event.nativeEvent.locationX),
+    }),
+  ).current;
+
+  function seek(x: number) {
+    const { count: frameCount, onChange: change } = latest.current;
+    if (widthRef.current === 0 || frameCount < 2) return;
+    const ratio = Math.min(1, Math.max(0, x / widthRef.current));
+    change(Math.round(ratio * (frameCount - 1)));
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width;
+  };
+
+  const progress = count < 2 ? 1 : value / (count - 1);
+
+  return (
+    <View style={styles.scrubBar} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <View style={styles.scrubTrack} pointerEvents="none">
+        <View style={[styles.scrubFill, { width: `${progress * 100}%` }]} />
+      </View>
+      <View
+        style={[styles.scrubThumb, { left: `${progress * 100}%` }]}
+        pointerEvents="none"
+      />
+    </View>
+  );
+};
+
+const ResultsScreen: React.FC<ResultsScreenProps> = ({ game, daily, onHome, onRematch }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const { colorBlind } = useAccessibility();
+  const styles = useThemedStyles(createStyles);
+  const { showToast } = useToast();
+  const frames = useMemo(() => buildReplayFrames(game), [game]);
+  const paths = useMemo(() => getNumberPaths(frames), [frames]);
+  const ratings = useMemo(() => rateMoves(game.moves, game.rules.operations, game.rules.dice), [game]);
+  const lastFrame = frames.length - 1;
+
+  const [frameIndex, setFrameIndex] = useState(lastFrame);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const diceSpin = useRef(new Animated.Value(1)).current;
+  const cardPulse = useRef(new Animated.Value(1)).current;
+
+  const frame = frames[frameIndex];
+  // Sıralama, grafik ve tekrar karesi aynı renkleri kullanır
+  const withAppearance = <T extends Player>(player: T) => withPlayerAppearance(player, colorBlind);
+  const standings = getStandings(game).map(withAppearance);
+  const appearances = game.players.map(withAppearance);
+  const winnerColor = game.winner ? withAppearance(game.winner).color : theme.colors.text;
+  const pathsLabel = t('a11y.numberPaths', {
+    paths: appearances
+      .map((player, seat) =>
+        t('a11y.numberPath', {
+          name: player.name,
+          start: paths[seat][0],
+          end: paths[seat][paths[seat].length - 1],
+        }),
+      )
+      .join('. '),
+  });
+  const optimalCount = ratings.filter(rating => rating.turnsLost === 0).length;
+
+  // One step per interval; playing past the end stops
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setFrameIndex(frameIndex + 1), REPLAY_STEP_INTERVAL);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, frameIndex, lastFrame]);
+
+  // Dice roll again and the mover's card pops on every new frame
+  useEffect(() => {
+    diceSpin.setValue(0);
+    cardPulse.setValue(1);
+    Animated.parallel([
+      Animated.timing(diceSpin, {
+        toValue: 1,
+        duration: 500,
+        useNativeDriver: true,
+      }),
+      Animated.sequence([
+        Animated.timing(cardPulse, {
+          toValue: 1.12,
+          duration: 200,
+          useNativeDriver: true,
+        }),
+        Animated.timing(cardPulse, {
+          toValue: 1,
+          duration: 200,
+          useNativeDriver: true,
+        }),
+      ]),
+    ]).start();
+  }, [frameIndex, diceSpin, cardPulse]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (frameIndex >= lastFrame) {
+      setFrameIndex(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const seekTo = (index: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.min(lastFrame, Math.max(0, index)));
+  };
+
+  const shareGame = () => {
+    try {
+      Clipboard.setString(encodeGame(game));
+      showToast(t('share.copiedMessage'), 'success');
+    } catch (error) {
+      showToast(getErrorMessage(t, error), 'error');
+    }
+  };
+
+  const copyDailySummary = () => {
+    if (!daily) return;
+
+    Clipboard.setString(formatDailySummary(t, daily.result, daily.streak));
+    showToast(t('daily.copied'), 'success');
+  };
+
+  const diceRotation = diceSpin.interpolate({
+    inputRange: [0, 1],
+    outputRange: ['0deg', '360deg'],
+  });
+
+  const controls = [
+    { icon: '⏮', label: t('results.first'), onPress: () => seekTo(0) },
+    { icon: '◀', label: t('results.previous'), onPress: () => seekTo(frameIndex - 1) },
+    {
+      icon: isPlaying ? '⏸' : '▶️',
+      label: t(isPlaying ? 'results.pause' : 'results.play'),
+      onPress: togglePlay,
+    },
+    { icon: '▶', label: t('results.next'), onPress: () => seekTo(frameIndex + 1) },
+    { icon: '⏭', label: t('results.last'), onPress: () => seekTo(lastFrame) },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onHome}>
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('game.winnerTitle')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={[styles.winnerText, { color: winnerColor }]}>
+            {t('game.winnerMessage', { name: game.winner ? getSideName(game.players, game.winner) : '' })}
+          </Text>
+          {game.winner && <Text style={styles.reasonText}>{describeWinReason(t, game)}</Text>}
+          <Text style={styles.detailText}>
+            {t('game.optimalMoves', { optimal: optimalCount, total: ratings.length })}
+          </Text>
+        </View>
+
+        {daily && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('daily.title')}</Text>
+            <Text style={styles.reasonText}>
+              {t('daily.result', {
+                count: daily.result.turns,
+                best: daily.result.optimalTurns ?? '–',
+              })}
+            </Text>
+            {daily.result.turns === daily.result.optimalTurns && (
+              <Text style={styles.reasonText}>{t('daily.optimal')}</Text>
+            )}
+            <Text style={styles.detailText}>
+              {daily.counted ? t('daily.streak', { count: daily.streak }) : t('daily.notCounted')}
+            </Text>
+            <TouchableOpacity style={[styles.secondaryButton, styles.dailyButton]} onPress={copyDailySummary}>
+              <Text style={styles.secondaryButtonText}>{t('daily.copySummary')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('results.standings')}</Text>
+          {standings.map((player, index) => (
+            <View
+              key={player.id}
+              style={styles.standingRow}
+              accessible
+              accessibilityLabel={`${index + 1}. ${describePlayer(t, player, false)}`}
+            >
+              <Text style={styles.rank}>{RANK_ICONS[index] ?? `${index + 1}.`}</Text>
+              {player.shape ? (
+                <Text style={[styles.playerShape, { color: player.color }]}>{player.shape}</Text>
+              ) : (
+                <View style={[styles.playerDot, { backgroundColor: player.color }]} />
+              )}
+              <Text style={styles.standingName}>{player.name}</Text>
+              {player.eliminated && <Text style={styles.eliminatedText}>{t('game.eliminated')}</Text>}
+              {game.rules.winCondition.type === 'targets' && (
+                <Text style={styles.detailText}>{'⭐'.repeat(player.targetsWon ?? 0)}</Text>
+              )}
+              <Text style={[styles.standingNumber, { color: player.color }]}>
+                {player.currentNumber}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('results.paths')}</Text>
+          <NumberPathChart
+            paths={paths}
+            colors={appearances.map(player => player.color)}
+            shapes={appearances.map(player => player.shape)}
+            accessibilityLabel={pathsLabel}
+            targets={frames.map(f => f.targetNumber)}
+            cursor={frameIndex}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.replayHeader}>
+            <Text style={styles.sectionTitle}>{t('results.replay')}</Text>
+            <Text style={styles.detailText}>
+              {t('results.frame', { turn: frame.turn, total: lastFrame })}
+            </Text>
+          </View>
+
+          <View style={styles.replayBoard}>
+            <View style={styles.replayTarget}>
+              <Text style={styles.replayTargetLabel}>{t('game.target')}</Text>
+              <Text style={styles.replayTargetNumber}>{frame.targetNumber}</Text>
+            </View>
+            <View style={styles.diceRow}>
+              {(frame.move?.diceResults ?? Array(game.rules.dice.count).fill(null)).map((value, index) => (
+                <Animated.View
+                  key={index}
+                  style={[styles.dice, { transform: [{ rotateY: diceRotation }] }]}
+                >
+                  <Text style={styles.diceText}>{value ?? '🎲'}</Text>
+                </Animated.View>
+              ))}
+            </View>
+          </View>
+
+          <Text style={styles.equationText}>
+            {frame.move ? formatMoveEquation(frame.move) : t('results.start')}
+          </Text>
+
+          <View style={styles.replayPlayers}>
+            {frame.players.map(withAppearance).map(player => {
+              const isMover = player.id === frame.move?.playerId;
+              return (
+                <Animated.View
+                  key={player.id}
+                  style={[
+                    styles.replayCard,
+                    player.eliminated && styles.replayCardEliminated,
+                    { backgroundColor: player.color + '20' },
+                    isMover && { borderColor: player.color, transform: [{ scale: cardPulse }] },
+                  ]}
+                >
+                  <Text style={[styles.replayCardName, { color: player.color }]} numberOfLines={1}>
+                    {player.shape ? `${player.shape} ` : ''}{player.name}
+                  </Text>
+                  <Text style={[styles.replayCardNumber, { color: player.color }]}>
+                    {player.currentNumber}
+                  </Text>
+                </Animated.View>
+              );
+            })}
+          </View>
+
+          <View style={styles.controls}>
+            {controls.map(control => (
+              <TouchableOpacity
+                key={control.label}
+                style={styles.controlButton}
+                onPress={control.onPress}
+                accessibilityLabel={control.label}
+              >
+                <Text style={styles.controlIcon}>{control.icon}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ScrubBar count={frames.length} value={frameIndex} onChange={seekTo} />
+        </View>
+
+        <View style={styles.secondaryRow}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, showAnalysis && styles.secondaryButtonActive]}
+            onPress={() => setShowAnalysis(!showAnalysis)}
+          >
+            <Text style={styles.secondaryButtonText}>📜 {t('game.analysis')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={shareGame}>
+            <Text style={styles.secondaryButtonText}>{t('share.button')}</Text>
+          </TouchableOpacity>
+        </View>
+        {showAnalysis && (
+          <MoveHistoryPanel moves={game.moves} players={game.players} ratings={ratings} />
+        )}
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.mainButton, styles.homeButton]} onPress={onHome}>
+            <Text style={styles.mainButtonText}>{t('game.home')}</Text>
+          </TouchableOpacity>
+          {onRematch && (
+            <TouchableOpacity style={styles.mainButton} onPress={onRematch}>
+              <Text style={styles.mainButtonText}>{t('game.newGame')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginVertical: 6,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginBottom: 10,
+  },
+
+  // Summary
+  winnerText: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  reasonText: {
+    fontSize: 15,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  detailText: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+
+  // Standings
+  standingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  rank: {
+    fontSize: 20,
+    width: 32,
+    textAlign: 'center',
+  },
+  playerDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  playerShape: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  standingName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  eliminatedText: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: theme.colors.danger,
+  },
+  standingNumber: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    minWidth: 50,
+    textAlign: 'right',
+  },
+
+  // Replay
+  replayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  replayBoard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  replayTarget: {
+    alignItems: 'center',
+  },
+  replayTargetLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  replayTargetNumber: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: theme.colors.danger,
+  },
+  diceRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  dice: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  diceText: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  equationText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  replayPlayers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  replayCard: {
+    minWidth: 80,
+    alignItems: 'center',
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  replayCardEliminated: {
+    opacity: 0.4,
+  },
+  replayCardName: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  replayCardNumber: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  controlButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: theme.colors.surfaceMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  controlIcon: {
+    fontSize: 18,
+  },
+  scrubBar: {
+    height: 32,
+    justifyContent: 'center',
+    marginTop: 10,
+  },
+  scrubTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.border,
+    overflow: 'hidden',
+  },
+  scrubFill: {
+    height: '100%',
+    backgroundColor: theme.colors.accent,
+  },
+  scrubThumb: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    marginLeft: -9,
+    backgroundColor: theme.colors.accent,
+    borderWidth: 3,
+    borderColor: theme.colors.surface,
+  },
+
+  // Buttons
+  secondaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 10,
+  },
+  secondaryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 15,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  dailyButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonActive: {
+    borderColor: theme.colors.accent,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  mainButton: {
+    flex: 1,
+    backgroundColor: theme.colors.primary,
+    borderRadius: 25,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  homeButton: {
+    backgroundColor: theme.colors.accent,
+  },
+  mainButtonText: {
+    color: theme.colors.onPrimary,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+});
+
+export default ResultsScreen;
@@ -0,0 +1,207 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { LANGUAGES } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { useAccessibility } from '../accessibility/AccessibilityContext';
+import { VOLUME_STEPS } from '../feedback';
+import { useFeedback } from '../feedback/FeedbackContext';
+import { THEME_PREFERENCES, Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface SettingsScreenProps {
+  onBack: () => void;
+}
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+  const { t, language, setLanguage } = useI18n();
+  const { colorBlind, setColorBlind } = useAccessibility();
+  const { preference, setPreference } = useTheme();
+  const { settings: feedbackSettings, setSettings: setFeedbackSettings } = useFeedback();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={onBack}
+          accessibilityRole="button"
+          accessibilityLabel={t('game.home')}
+        >
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} accessibilityRole="header">{t('settings.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+        <View style={styles.chipRow}>
+          {LANGUAGES.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, language === option && styles.chipSelected]}
+              onPress={() => setLanguage(option)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: language === option }}
+            >
+              <Text style={[styles.chipText, language === option && styles.chipTextSelected]}>
+                {t(`language.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('settings.theme')}</Text>
+        <View style={styles.chipRow}>
+          {THEME_PREFERENCES.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, preference === option && styles.chipSelected]}
+              onPress={() => setPreference(option)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: preference === option }}
+            >
+              <Text style={[styles.chipText, preference === option && styles.chipTextSelected]}>
+                {t(`theme.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('settings.accessibility')}</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, colorBlind && styles.chipSelected]}
+            onPress={() => setColorBlind(!colorBlind)}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: colorBlind }}
+          >
+            <Text style={[styles.chipText, colorBlind && styles.chipTextSelected]}>
+              👁 {t('settings.colorBlind')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.sectionHint}>{t('settings.colorBlindHint')}</Text>
+
+        <Text style={styles.sectionTitle}>{t('settings.sound')}</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, feedbackSettings.muted && styles.chipSelected]}
+            onPress={() => setFeedbackSettings({ ...feedbackSettings, muted: !feedbackSettings.muted })}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: feedbackSettings.muted }}
+          >
+            <Text style={[styles.chipText, feedbackSettings.muted && styles.chipTextSelected]}>
+              {feedbackSettings.muted ? '🔇' : '🔊'} {t('settings.mute')}
+            </Text>
+          </TouchableOpacity>
+          {VOLUME_STEPS.map(volume => {
+            const selected = !feedbackSettings.muted && feedbackSettings.volume === volume;
+            const percent = Math.round(volume * 100);
+            return (
+              <TouchableOpacity
+                key={volume}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setFeedbackSettings({ volume, muted: false })}
+                accessibilityRole="button"
+                accessibilityLabel={t('settings.volume', { percent })}
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {percent}%
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 15,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: theme.colors.onPrimary,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,621 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { GameRules, Operation, RulePresetId, WinCondition } from '../types/gameTypes';
+import { OPERATIONS, OPERATION_REGISTRY, getOperationSymbol } from '../services/operationService';
+import {
+  CLASSIC_RULES,
+  MAX_SUPPORTED_PLAYERS,
+  RULE_PRESETS,
+  clampPlayerCount,
+  validateRules,
+} from '../services/rulesService';
+import {
+  DEFAULT_WIN_CONDITION,
+  WIN_CONDITION_DEFAULTS,
+  WIN_CONDITION_TYPES,
+} from '../services/winConditionService';
+import {
+  DIE_SIZES,
+  MAX_DICE_COUNT,
+  MAX_DIE_FACES,
+  MAX_FACE_VALUE,
+  MIN_DICE_COUNT,
+  createDieFaces,
+  formatDice,
+  getDieSize,
+  parseDieFaces,
+} from '../services/diceService';
+import { Translate } from '../i18n';
+import { useI18n } from '../i18n/I18nContext';
+import { useToast } from '../components/Toast';
+import { Theme } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/ThemeContext';
+
+interface SetupScreenProps {
+  initialPlayerCount: number;
+  onStartGame: (rules: GameRules, playerCount: number) => void;
+  onBack: () => void;
+}
+
+type NumericRuleKey = Exclude<keyof GameRules, 'presetId' | 'operations' | 'dice' | 'winCondition'>;
+
+// The player range is set by the stepper, not by a text field
+type CustomFieldKey = Exclude<NumericRuleKey, 'minPlayers' | 'maxPlayers'>;
+
+const CUSTOM_FIELDS: CustomFieldKey[] = [
+  'initialNumber',
+  'minTarget',
+  'maxTarget',
+  'diceOperationTime',
+  'finalOperationTime',
+  'timeBank',
+];
+
+const DICE_COUNTS = Array.from(
+  { length: MAX_DICE_COUNT - MIN_DICE_COUNT + 1 },
+  (_, index) => MIN_DICE_COUNT + index,
+);
+
+const PRESET_ICONS: Record<RulePresetId, string> = {
+  classic: '🎲',
+  blitz: '⚡',
+  marathon: '🏃',
+  custom: '🛠️',
+  daily: '📅',
+};
+
+const describeRules = (t: Translate, rules: GameRules): string => {
+  const summary = t('setup.rulesSummary', {
+    initial: rules.initialNumber,
+    min: rules.minTarget,
+    max: rules.maxTarget,
+    dice: rules.diceOperationTime,
+    final: rules.finalOperationTime,
+  });
+  const withBank =
+    rules.timeBank > 0 ? summary + t('setup.rulesSummaryBank', { bank: rules.timeBank }) : summary;
+  return `${withBank}\n${formatDice(rules.dice)} · ${rules.operations.map(getOperationSymbol).join('  ')}`;
+};
+
+const SetupScreen: React.FC<SetupScreenProps> = ({ initialPlayerCount, onStartGame, onBack }) => {
+  const { t } = useI18n();
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<GameRules>(CLASSIC_RULES);
+  const [customRules, setCustomRules] = useState<GameRules>({
+    ...CLASSIC_RULES,
+    presetId: 'custom',
+    maxPlayers: MAX_SUPPORTED_PLAYERS,
+  });
+  const [playerCount, setPlayerCount] = useState(clampPlayerCount(CLASSIC_RULES, initialPlayerCount));
+  // Picked separately so it can go with any preset
+  const [winCondition, setWinCondition] = useState<WinCondition>(DEFAULT_WIN_CONDITION);
+  // Faces as typed for a custom die; null while a standard die is picked
+  const [customFaces, setCustomFaces] = useState<string | null>(null);
+
+  const selectRules = (nextRules: GameRules) => {
+    setRules(nextRules);
+    setPlayerCount(clampPlayerCount(nextRules, playerCount));
+  };
+
+  const handleCustomFieldChange = (key: NumericRuleKey, text: string) => {
+    const value = parseInt(text, 10);
+    const nextRules = { ...customRules, [key]: Number.isNaN(value) ? 0 : value };
+    setCustomRules(nextRules);
+    setRules(nextRules);
+  };
+
+  // Keeps the registry order whatever order the chips are tapped in
+  const handleOperationToggle = (operation: Operation) => {
+    const enabled = customRules.operations.includes(operation);
+    const nextRules = {
+      ...customRules,
+      operations: OPERATIONS.filter(op =>
+        op === operation ? !enabled : customRules.operations.includes(op),
+      ),
+    };
+    setCustomRules(nextRules);
+    setRules(nextRules);
+  };
+
+  const updateCustomDice = (dice: GameRules['dice']) => {
+    const nextRules = { ...customRules, dice };
+    setCustomRules(nextRules);
+    setRules(nextRules);
+  };
+
+  const handleDieSizePress = (sides: number) => {
+    setCustomFaces(null);
+    updateCustomDice({ ...customRules.dice, faces: createDieFaces(sides) });
+  };
+
+  // Starts from the current faces so a d6 can be edited into a custom die
+  const handleCustomDiePress = () => {
+    setCustomFaces(customRules.dice.faces.join(', '));
+  };
+
+  const handleCustomFacesChange = (text: string) => {
+    setCustomFaces(text);
+    updateCustomDice({ ...customRules.dice, faces: parseDieFaces(text) });
+  };
+
+  const handleWinConditionCountChange = (text: string) => {
+    const value = parseInt(text, 10);
+    const count = Number.isNaN(value) ? 0 : value;
+    if (winCondition.type === 'closest') {
+      setWinCondition({ ...winCondition, rounds: count });
+    } else if (winCondition.type === 'targets') {
+      setWinCondition({ ...winCondition, targets: count });
+    }
+  };
+
+  const handleStart = () => {
+    const gameRules = { ...rules, winCondition };
+    const error = validateRules(gameRules);
+    if (error) {
+      const limits = {
+        max: MAX_SUPPORTED_PLAYERS,
+        maxDice: MAX_DICE_COUNT,
+        maxFaces: MAX_DIE_FACES,
+        maxFace: MAX_FACE_VALUE,
+      };
+      showToast(t(`rules.error.${error}`, limits), 'error');
+      return;
+    }
+    onStartGame(gameRules, playerCount);
+  };
+
+  const presets = [...RULE_PRESETS, customRules];
+  const dieSize = customFaces === null ? getDieSize(customRules.dice) : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerIcon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('setup.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {presets.map(preset => {
+          const isSelected = rules.presetId === preset.presetId;
+          return (
+            <TouchableOpacity
+              key={preset.presetId}
+              style={[styles.presetCard, isSelected && styles.presetCardSelected]}
+              onPress={() => selectRules(preset)}
+              activeOpacity={0.9}
+            >
+              <Text style={styles.presetIcon}>{PRESET_ICONS[preset.presetId]}</Text>
+              <View style={styles.presetTextContainer}>
+                <Text style={[styles.presetTitle, isSelected && styles.presetTitleSelected]}>
+                  {t(`rules.preset.${preset.presetId}`)}
+                </Text>
+                <Text style={styles.presetSubtitle}>{describeRules(t, preset)}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {rules.presetId === 'custom' && (
+          <View style={styles.customContainer}>
+            {CUSTOM_FIELDS.map(field => (
+              <View key={field} style={styles.customRow}>
+                <Text style={styles.customLabel}>{t(`setup.field.${field}`)}</Text>
+                <TextInput
+                  style={styles.customInput}
+                  keyboardType="number-pad"
+                  value={`${customRules[field]}`}
+                  onChangeText={text => handleCustomFieldChange(field, text)}
+                  maxLength={5}
+                />
+              </View>
+            ))}
+            <Text style={styles.customLabel}>{t('setup.field.operations')}</Text>
+            <View style={styles.operationChips}>
+              {OPERATIONS.map(operation => {
+                const isEnabled = customRules.operations.includes(operation);
+                return (
+                  <TouchableOpacity
+                    key={operation}
+                    style={[styles.operationChip, isEnabled && styles.operationChipSelected]}
+                    onPress={() => handleOperationToggle(operation)}
+                    accessibilityLabel={t(OPERATION_REGISTRY[operation].labelKey)}
+                    accessibilityState={{ selected: isEnabled }}
+                  >
+                    <Text style={[styles.operationChipText, isEnabled && styles.operationChipTextSelected]}>
+                      {OPERATION_REGISTRY[operation].symbol}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.customLabel}>{t('setup.field.diceCount')}</Text>
+            <View style={styles.operationChips}>
+              {DICE_COUNTS.map(count => {
+                const isSelected = customRules.dice.count === count;
+                return (
+                  <TouchableOpacity
+                    key={count}
+                    style={[styles.operationChip, isSelected && styles.operationChipSelected]}
+                    onPress={() => updateCustomDice({ ...customRules.dice, count })}
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text style={[styles.operationChipText, isSelected && styles.operationChipTextSelected]}>
+                      {count}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.customLabel}>{t('setup.field.die')}</Text>
+            <View style={styles.operationChips}>
+              {DIE_SIZES.map(sides => {
+                const isSelected = dieSize === sides;
+                return (
+                  <TouchableOpacity
+                    key={sides}
+                    style={[styles.dieChip, isSelected && styles.operationChipSelected]}
+                    onPress={() => handleDieSizePress(sides)}
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text style={[styles.dieChipText, isSelected && styles.operationChipTextSelected]}>
+                      d{sides}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.dieChip, dieSize === null && styles.operationChipSelected]}
+                onPress={handleCustomDiePress}
+                accessibilityState={{ selected: dieSize === null }}
+              >
+                <Text style={[styles.dieChipText, dieSize === null && styles.operationChipTextSelected]}>
+                  {t('setup.customDie')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {dieSize === null && (
+              <TextInput
+                style={[styles.customInput, styles.facesInput]}
+                keyboardType="numbers-and-punctuation"
+                value={customFaces ?? customRules.dice.faces.join(', ')}
+                onChangeText={handleCustomFacesChange}
+                placeholder={t('setup.facesPlaceholder')}
+                placeholderTextColor={theme.colors.textDisabled}
+                accessibilityLabel={t('setup.field.faces')}
+              />
+            )}
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>{t('setup.winCondition')}</Text>
+        <View style={styles.modeChips}>
+          {WIN_CONDITION_TYPES.map(type => {
+            const isSelected = winCondition.type === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.modeChip, isSelected && styles.modeChipSelected]}
+                onPress={() => setWinCondition(WIN_CONDITION_DEFAULTS[type])}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.modeChipText, isSelected && styles.modeChipTextSelected]}>
+                  {t(`winCondition.${type}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {(winCondition.type === 'closest' || winCondition.type === 'targets') && (
+          <View style={[styles.customContainer, styles.customRow]}>
+            <Text style={styles.customLabel}>
+              {t(winCondition.type === 'closest' ? 'setup.field.rounds' : 'setup.field.targets')}
+            </Text>
+            <TextInput
+              style={styles.customInput}
+              keyboardType="number-pad"
+              value={`${winCondition.type === 'closest' ? winCondition.rounds : winCondition.targets}`}
+              onChangeText={handleWinConditionCountChange}
+              maxLength={3}
+            />
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>{t('setup.playerCount')}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={[styles.stepperButton, playerCount <= rules.minPlayers && styles.stepperButtonDisabled]}
+            onPress={() => setPlayerCount(clampPlayerCount(rules, playerCount - 1))}
+            disabled={playerCount <= rules.minPlayers}
+          >
+            <Text style={styles.stepperButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{playerCount}</Text>
+          <TouchableOpacity
+            style={[styles.stepperButton, playerCount >= rules.maxPlayers && styles.stepperButtonDisabled]}
+            onPress={() => setPlayerCount(clampPlayerCount(rules, playerCount + 1))}
+            disabled={playerCount >= rules.maxPlayers}
+          >
+            <Text style={styles.stepperButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.stepperHint}>
+          {t('setup.playerRange', { min: rules.minPlayers, max: rules.maxPlayers })}
+        </Text>
+
+        <TouchableOpacity style={styles.startButton} onPress={handleStart}>
+          <Text style={styles.startButtonText}>{t('setup.continue')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    paddingBottom: 10,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 15,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  headerIcon: {
+    fontSize: 24,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+
+  // Presets
+  presetCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    borderWidth: 3,
+    borderColor: 'transparent',
+    padding: 16,
+    marginVertical: 6,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  presetCardSelected: {
+    borderColor: theme.colors.primary,
+  },
+  presetIcon: {
+    fontSize: 32,
+    marginRight: 16,
+  },
+  presetTextContainer: {
+    flex: 1,
+  },
+  presetTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  presetTitleSelected: {
+    color: theme.colors.primary,
+  },
+  presetSubtitle: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    fontWeight: '500',
+  },
+
+  // Custom values
+  customContainer: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginTop: 6,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 6,
+  },
+  customLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  customInput: {
+    width: 90,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: 12,
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    backgroundColor: theme.colors.surfaceMuted,
+    textAlign: 'center',
+  },
+  operationChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  operationChip: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  operationChipSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '20',
+  },
+  operationChipText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.textDisabled,
+  },
+  operationChipTextSelected: {
+    color: theme.colors.primary,
+  },
+  dieChip: {
+    minWidth: 44,
+    height: 44,
+    paddingHorizontal: 10,
+    borderRadius: 22,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dieChipText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.colors.textDisabled,
+  },
+  facesInput: {
+    width: '100%',
+    marginTop: 8,
+  },
+
+  // Win condition
+  modeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  modeChipSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '20',
+  },
+  modeChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  modeChipTextSelected: {
+    color: theme.colors.primary,
+  },
+
+  // Player count
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: 25,
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 25,
+  },
+  stepperButton: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: theme.colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 3,
+    borderColor: theme.colors.accent,
+  },
+  stepperButtonDisabled: {
+    opacity: 0.3,
+  },
+  stepperButtonText: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: theme.colors.accent,
+  },
+  stepperValue: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  stepperHint: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  startButton: {
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 15,
+    marginTop: 25,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  startButtonText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: theme.colors.onPrimary,
+    textAlign: 'center',
+    letterSpacing: 1,
+  },
+});
+
+export default SetupScreen;
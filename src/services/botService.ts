@@ -0,0 +1,228 @@
+import {
+  BotDifficulty,
+  DiceConfig,
+  DiceResults,
+  GameState,
+  Operation,
+  Player,
+  RandomSource,
+  TurnOutcome,
+} from '../types/gameTypes';
+import {
+  applyOperation,
+  canApplyOperation,
+  getCurrentPlayer,
+  getValidOperations,
+  listDiceChains,
+  listTurnOutcomes,
+} from './gameService';
+import { rollAllDice } from './diceService';
+import { createRandomStream, createSeededRandom, hashString } from './randomService';
+import { getTeamMembers } from './teamService';
+
+export const BOT_THINKING_DELAY = 1200;
+
+// The hard bot averages over at most this many next rolls: every roll of two
+// d6, and a fixed sample of them for bigger dice
+const LOOKAHEAD_ROLLS = 36;
+
+// Operations the hard bot may try per decision. Two d6 stay far below it; with
+// more dice and operations only the results closest to the target get the
+// lookahead, so a decision stays quick on the JS thread
+const LOOKAHEAD_BUDGET = 150_000;
+
+// Every ordered roll, or null once there are more than `limit`
+const listAllRolls = (dice: DiceConfig, limit: number): DiceResults[] | null => {
+  if (dice.faces.length ** dice.count > limit) return null;
+  let rolls: DiceResults[] = [[]];
+  for (let die = 0; die < dice.count; die++) {
+    rolls = rolls.flatMap(roll => dice.faces.map(face => [...roll, face]));
+  }
+  return rolls;
+};
+
+let cachedRolls: { key: string; rolls: DiceResults[] } | null = null;
+
+// The sample is seeded from the dice, so a bot plays the same way every time
+const getLookaheadRolls = (dice: DiceConfig): DiceResults[] => {
+  const key = `${dice.count}:${dice.faces.join(',')}`;
+  if (cachedRolls?.key !== key) {
+    const random = createSeededRandom(hashString(key));
+    const rolls =
+      listAllRolls(dice, LOOKAHEAD_ROLLS) ??
+      Array.from({ length: LOOKAHEAD_ROLLS }, () => rollAllDice(random, dice));
+    cachedRolls = { key, rolls };
+  }
+  return cachedRolls.rolls;
+};
+
+const distanceTo = (targetNumber: number, value: number): number => {
+  return Math.abs(targetNumber - value);
+};
+
+// Best distance the player can reach from currentNumber with a roll whose
+// dice chains can make diceValues
+const bestDistanceAfterRoll = (
+  currentNumber: number,
+  diceValues: number[],
+  targetNumber: number,
+  operations: Operation[],
+): number => {
+  let best: number | null = null;
+  diceValues.forEach(value => {
+    operations.forEach(operation => {
+      if (!canApplyOperation(currentNumber, value, operation)) return;
+      const distance = distanceTo(targetNumber, applyOperation(currentNumber, value, operation));
+      best = best === null ? distance : Math.min(best, distance);
+    });
+  });
+  return best ?? distanceTo(targetNumber, currentNumber);
+};
+
+// Average distance left after the next turn, over the lookahead rolls. What
+// the dice can make does not depend on the number, so it is worked out once.
+// `cost` is the number of operations one estimate tries.
+const createNextTurnEstimate = (gameState: GameState) => {
+  const { operations, dice } = gameState.rules;
+  const { targetNumber } = gameState;
+  const rollValues = getLookaheadRolls(dice).map(roll => [
+    ...new Set(listDiceChains(roll, operations).map(chain => chain.result)),
+  ]);
+  const cost = rollValues.reduce((sum, values) => sum + values.length, 0) * operations.length;
+  const estimate = (currentNumber: number): number => {
+    const total = rollValues.reduce(
+      (sum, values) => sum + bestDistanceAfterRoll(currentNumber, values, targetNumber, operations),
+      0,
+    );
+    return total / rollValues.length;
+  };
+  return { estimate, cost };
+};
+
+// The results the hard bot looks ahead from: all of them while they fit the
+// budget, otherwise the ones closest to the target
+const pickLookaheadResults = (
+  outcomes: TurnOutcome[],
+  targetNumber: number,
+  cost: number,
+): Set<number> => {
+  const results = [...new Set(outcomes.map(outcome => outcome.result))];
+  const limit = Math.max(1, Math.floor(LOOKAHEAD_BUDGET / Math.max(cost, 1)));
+  if (results.length <= limit) return new Set(results);
+  const nearest = results.sort(
+    (a, b) => distanceTo(targetNumber, a) - distanceTo(targetNumber, b),
+  );
+  return new Set(nearest.slice(0, limit));
+};
+
+const pickBest = (
+  outcomes: TurnOutcome[],
+  score: (outcome: TurnOutcome) => number,
+): TurnOutcome => {
+  return outcomes.reduce((best, outcome) => (score(outcome) < score(best) ? outcome : best));
+};
+
+// Lower is better. Medium only looks at this turn, hard also averages the
+// best reply over the rolls of the next turn. Neither goes bust by choice.
+const outcomeScorer = (
+  difficulty: BotDifficulty,
+  gameState: GameState,
+  outcomes: TurnOutcome[],
+) => {
+  const { targetNumber } = gameState;
+  const canBust = gameState.rules.winCondition.type === 'bust';
+  const isBust = (result: number) => canBust && result > targetNumber;
+  const nextTurn = difficulty === 'hard' ? createNextTurnEstimate(gameState) : null;
+  const lookahead = nextTurn
+    ? pickLookaheadResults(
+      outcomes.filter(outcome => !isBust(outcome.result)),
+      targetNumber,
+      nextTurn.cost,
+    )
+    : null;
+  // Several chains often land on the same number
+  const scores = new Map<number, number>();
+  return (outcome: TurnOutcome): number => {
+    if (outcome.result === targetNumber) return -1;
+    if (isBust(outcome.result)) return Infinity;
+    if (!nextTurn || !lookahead) {
+      return distanceTo(targetNumber, outcome.result);
+    }
+    // Past the budget: never worth more than a result that was looked at
+    if (!lookahead.has(outcome.result)) return Number.MAX_VALUE;
+    if (!scores.has(outcome.result)) {
+      scores.set(outcome.result, nextTurn.estimate(outcome.result));
+    }
+    return scores.get(outcome.result)!;
+  };
+};
+
+// Plans the whole turn for the rolled dice
+export const planBotTurn = (
+  gameState: GameState,
+  difficulty: BotDifficulty,
+  random: RandomSource = Math.random,
+): TurnOutcome | null => {
+  if (!gameState.diceResults) return null;
+
+  const { currentNumber } = getCurrentPlayer(gameState);
+  const outcomes = listTurnOutcomes(currentNumber, gameState.diceResults, gameState.rules.operations);
+  if (outcomes.length === 0) return null;
+
+  if (difficulty === 'easy') {
+    return outcomes[Math.floor(random() * outcomes.length)];
+  }
+  return pickBest(outcomes, outcomeScorer(difficulty, gameState, outcomes));
+};
+
+// Operation for the current phase. Easy bots pick at random per phase, the
+// same way the turn timer does.
+export const chooseBotOperation = (
+  gameState: GameState,
+  difficulty: BotDifficulty,
+  random: RandomSource = Math.random,
+): Operation | null => {
+  const validOperations = getValidOperations(gameState);
+  if (validOperations.length === 0 || !gameState.diceResults) return null;
+
+  if (difficulty === 'easy') {
+    return validOperations[Math.floor(random() * validOperations.length)];
+  }
+
+  // Only the outcomes that follow from the part of the dice chain already played
+  const chosen = gameState.diceOperations;
+  const { currentNumber } = getCurrentPlayer(gameState);
+  const outcomes = listTurnOutcomes(
+    currentNumber,
+    gameState.diceResults,
+    gameState.rules.operations,
+  ).filter(o => chosen.every((operation, index) => o.diceOperations[index] === operation));
+  if (outcomes.length === 0) return null;
+
+  const best = pickBest(outcomes, outcomeScorer(difficulty, gameState, outcomes));
+  return gameState.gamePhase === 'dice-operation'
+    ? best.diceOperations[chosen.length]
+    : best.finalOperation;
+};
+
+export interface TeammateSuggestion {
+  teammate: Player;
+  operation: Operation;
+}
+
+// Team games: what a bot teammate would pick for the human on turn in the
+// final-operation phase. It draws from a copy of the game's RNG, so the tip
+// stays the same however often the screen renders.
+export const suggestTeammateOperation = (gameState: GameState): TeammateSuggestion | null => {
+  const currentPlayer = getCurrentPlayer(gameState);
+  if (gameState.gamePhase !== 'final-operation' || currentPlayer.bot) return null;
+
+  const teammate = getTeamMembers(gameState.players, currentPlayer).find(
+    player => player.id !== currentPlayer.id && player.bot,
+  );
+  if (!teammate) return null;
+
+  const { random } = createRandomStream(gameState.rngState);
+  const operation = chooseBotOperation(gameState, teammate.bot!, random);
+  return operation ? { teammate, operation } : null;
+};
@@ -0,0 +1,110 @@
+import { GameState } from '../types/gameTypes';
+import {
+  ClientMessage,
+  HostMessage,
+  IntentAction,
+  PeerConnection,
+  RejectReason,
+  applyPatch,
+  encodeMessage,
+  parseHostMessage,
+} from './multiplayerProtocol';
+
+export interface ClientSessionOptions {
+  onStateChange?: (state: GameState) => void;
+  onRejected?: (reason: RejectReason) => void;
+}
+
+export interface ClientSession {
+  getState: () => GameState | null;
+  // Null until the host has given us a seat
+  getPlayerId: () => number | null;
+  isMyTurn: () => boolean;
+  sendIntent: (action: IntentAction) => void;
+  // Continue on a new connection after the old one dropped
+  reconnect: (connection: PeerConnection) => void;
+}
+
+// A client only mirrors the host's state; it never runs the engine itself
+export const createClientSession = (
+  initialConnection: PeerConnection,
+  options: ClientSessionOptions = {},
+): ClientSession => {
+  let connection = initialConnection;
+  let state: GameState | null = null;
+  let version = 0;
+  let token: string | null = null;
+  let playerId: number | null = null;
+
+  const send = (message: ClientMessage) => {
+    connection.send(encodeMessage(message));
+  };
+
+  const requestResync = () => {
+    if (token) {
+      send({ type: 'REJOIN', token, moveCount: state ? state.moves.length : 0 });
+    }
+  };
+
+  const handleMessage = (message: HostMessage) => {
+    switch (message.type) {
+      case 'WELCOME':
+        token = message.token;
+        playerId = message.playerId;
+        version = message.patch.version;
+        state = applyPatch(state, message.patch);
+        options.onStateChange?.(state);
+        break;
+      case 'PATCH':
+        // A gap means we missed an update; ask for everything since our last move
+        if (message.patch.version !== version + 1) {
+          requestResync();
+          return;
+        }
+        version = message.patch.version;
+        state = applyPatch(state, message.patch);
+        options.onStateChange?.(state);
+        break;
+      case 'REJECTED':
+        // The host gave our seat up after we were away too long; ask for any free one
+        if (message.reason === 'UNKNOWN_TOKEN') {
+          token = null;
+          playerId = null;
+          send({ type: 'JOIN' });
+        }
+        options.onRejected?.(message.reason);
+        break;
+    }
+  };
+
+  const attach = (nextConnection: PeerConnection) => {
+    connection = nextConnection;
+    nextConnection.onMessage(data => {
+      // Messages from a replaced connection are ignored
+      if (nextConnection !== connection) return;
+      const message = parseHostMessage(data);
+      if (message) {
+        handleMessage(message);
+      }
+    });
+  };
+
+  attach(initialConnection);
+  send({ type: 'JOIN' });
+
+  return {
+    getState: () => state,
+    getPlayerId: () => playerId,
+    isMyTurn: () =>
+      Boolean(state && playerId !== null && state.players[state.currentPlayerIndex].id === playerId),
+    sendIntent: action => send({ type: 'INTENT', action }),
+    reconnect: nextConnection => {
+      attach(nextConnection);
+      if (token) {
+        requestResync();
+      } else {
+        send({ type: 'JOIN' });
+      }
+    },
+  };
+};
@@ -0,0 +1,82 @@
+import { GameClock, GamePhase, GameRules, GameState } from '../types/gameTypes';
+
+// How often the screen reports elapsed time to the engine
+export const CLOCK_TICK_INTERVAL = 1000;
+
+// Budget for a phase in ms; rolling the dice is not timed
+export const getPhaseBudget = (
+  rules: Pick<GameRules, 'diceOperationTime' | 'finalOperationTime'>,
+  phase: GamePhase,
+): number => {
+  switch (phase) {
+    case 'dice-operation':
+      return rules.diceOperationTime * 1000;
+    case 'final-operation':
+      return rules.finalOperationTime * 1000;
+    default:
+      return 0;
+  }
+};
+
+export const createClock = (rules: GameRules, playerCount: number): GameClock => ({
+  phaseTimeLeft: 0,
+  bankTimeLeft: rules.timeBank > 0 ? Array(playerCount).fill(rules.timeBank * 1000) : null,
+  paused: false,
+});
+
+// Called whenever the game enters a new phase; the bank carries over
+export const startPhaseClock = (gameState: GameState, phase: GamePhase): GameClock => ({
+  ...gameState.clock,
+  phaseTimeLeft: getPhaseBudget(gameState.rules, phase),
+});
+
+export const isClockRunning = (gameState: GameState): boolean => {
+  return (
+    !gameState.winner &&
+    !gameState.clock.paused &&
+    gameState.gamePhase !== 'roll'
+  );
+};
+
+export const getBankTimeLeft = (gameState: GameState): number | null => {
+  return gameState.clock.bankTimeLeft?.[gameState.currentPlayerIndex] ?? null;
+};
+
+// The phase budget is spent first, then the current player's bank
+export const tickClock = (gameState: GameState, elapsed: number): GameState => {
+  if (!isClockRunning(gameState) || elapsed <= 0) {
+    return gameState;
+  }
+
+  const { clock, currentPlayerIndex } = gameState;
+  const overflow = Math.max(0, elapsed - clock.phaseTimeLeft);
+  const bankTimeLeft = clock.bankTimeLeft && overflow > 0
+    ? clock.bankTimeLeft.map((timeLeft, index) =>
+        index === currentPlayerIndex ? Math.max(0, timeLeft - overflow) : timeLeft,
+      )
+    : clock.bankTimeLeft;
+
+  return {
+    ...gameState,
+    clock: {
+      ...clock,
+      phaseTimeLeft: Math.max(0, clock.phaseTimeLeft - elapsed),
+      bankTimeLeft,
+    },
+  };
+};
+
+export const isTimeUp = (gameState: GameState): boolean => {
+  if (!isClockRunning(gameState)) {
+    return false;
+  }
+  const bankTimeLeft = getBankTimeLeft(gameState);
+  return gameState.clock.phaseTimeLeft <= 0 && (bankTimeLeft === null || bankTimeLeft <= 0);
+};
+
+export const setClockPaused = (gameState: GameState, paused: boolean): GameState => {
+  if (gameState.clock.paused === paused) {
+    return gameState;
+  }
+  return { ...gameState, clock: { ...gameState.clock, paused } };
+};
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DiceResults, GameState } from '../types/gameTypes';
+import { rollAllDice } from './diceService';
+import { initializeGame } from './gameService';
+import { isNumber, isRecord, readTable } from './jsonService';
+import { createRandomStream, hashString, normalizeSeed } from './randomService';
+import { DAILY_RULES } from './rulesService';
+import { findFewestTurns } from './solverService';
+import type { Translate } from '../i18n';
+
+const DAILY_HISTORY_KEY = '@numclash/dailyHistory';
+
+// Rolls the optimum is searched over, past the moves actually played
+export const DAILY_SEARCH_TURNS = 20;
+
+export interface DailyResult {
+  // Local calendar day, "2026-10-18"
+  date: string;
+  turns: number;
+  // Fewest turns anyone could have needed with the day's rolls; null when
+  // it is further away than DAILY_SEARCH_TURNS
+  optimalTurns: number | null;
+  // Per move: extra turns it cost against the best line from that point
+  turnsLost: (number | null)[];
+}
+
+// Only the first finished attempt of a day is kept
+export type DailyHistory = Record<string, DailyResult>;
+
+const pad = (value: number): string => `${value}`.padStart(2, '0');
+
+export const getDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const shiftDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getDateKey(new Date(year, month - 1, day + days));
+};
+
+export const getDailySeed = (dateKey: string): number => {
+  return normalizeSeed(hashString(`numclash-daily-${dateKey}`));
+};
+
+// Everyone gets the same target and the same rolls for the same day
+export const createDailyGame = (dateKey: string, playerName: string): GameState => {
+  return initializeGame(1, [playerName], {
+    seed: getDailySeed(dateKey),
+    rules: DAILY_RULES,
+    mode: 'competitive',
+  });
+};
+
+export const isDailyGame = (game: GameState): boolean => game.rules.presetId === 'daily';
+
+// A daily started just before midnight can be finished after it
+export const getDailyDateKey = (game: GameState, now: Date = new Date()): string | null => {
+  const today = getDateKey(now);
+  return [today, shiftDateKey(today, -1)].find(key => getDailySeed(key) === game.seed) ?? null;
+};
+
+// The day's rolls in order, read from the same stream the engine rolls from
+export const getDailyDice = (seed: number, turns: number): DiceResults[] => {
+  const { random } = createRandomStream(initializeGame(1, [], { seed, rules: DAILY_RULES }).rngState);
+  return Array.from({ length: turns }, () => rollAllDice(random, DAILY_RULES.dice));
+};
+
+export const createDailyResult = (game: GameState, dateKey: string): DailyResult => {
+  const { initialNumber, operations } = game.rules;
+  // The rolls actually played, then the ones the day would have dealt next
+  const { random } = createRandomStream(game.rngState);
+  const dice = [
+    ...game.moves.map(move => move.diceResults),
+    ...Array.from({ length: DAILY_SEARCH_TURNS }, () => rollAllDice(random, game.rules.dice)),
+  ];
+  const fewestFrom = (value: number, turn: number) =>
+    findFewestTurns(value, game.targetNumber, dice.slice(turn), operations);
+
+  return {
+    date: dateKey,
+    turns: game.moves.length,
+    optimalTurns: fewestFrom(initialNumber, 0),
+    turnsLost: game.moves.map((move, index) => {
+      const before = fewestFrom(move.previousNumber, index);
+      const after = fewestFrom(move.newNumber, index + 1);
+      return before === null || after === null ? null : after + 1 - before;
+    }),
+  };
+};
+
+// Days in a row with a finished daily, counting today only once it is played
+export const getDailyStreak = (history: DailyHistory, today: string): number => {
+  let day = history[today] ? today : shiftDateKey(today, -1);
+  let streak = 0;
+  while (history[day]) {
+    streak++;
+    day = shiftDateKey(day, -1);
+  }
+  return streak;
+};
+
+const getMoveEmoji = (turnsLost: number | null): string => {
+  if (turnsLost === 0) return '🟩';
+  if (turnsLost === 1) return '🟨';
+  return '🟥';
+};
+
+// Spoiler-free summary to paste anywhere, one square per move
+export const formatDailySummary = (t: Translate, result: DailyResult, streak: number): string => {
+  const best = result.optimalTurns ?? '–';
+  return [
+    t('daily.summaryTitle', { date: result.date }),
+    t('daily.summaryScore', { count: result.turns, best, streak }),
+    result.turnsLost.map(getMoveEmoji).join('') + '🎯',
+  ].join('\n');
+};
+
+const readDailyResult = (entry: unknown): DailyResult | null => {
+  if (!isRecord(entry)) return null;
+  const { date, turns, optimalTurns, turnsLost } = entry;
+  if (
+    typeof date !== 'string' ||
+    !isNumber(turns) ||
+    !(optimalTurns === null || isNumber(optimalTurns)) ||
+    !Array.isArray(turnsLost)
+  ) {
+    return null;
+  }
+  return {
+    date,
+    turns,
+    optimalTurns,
+    turnsLost: turnsLost.map(lost => (isNumber(lost) ? lost : null)),
+  };
+};
+
+export const loadDailyHistory = async (): Promise<DailyHistory> => {
+  try {
+    const raw = await AsyncStorage.getItem(DAILY_HISTORY_KEY);
+    return raw ? readTable(JSON.parse(raw), readDailyResult) : {};
+  } catch (error) {
+    console.error('Günlük geçmişi okunamadı:', error);
+    return {};
+  }
+};
+
+export const recordDailyResult = async (result: DailyResult): Promise<DailyHistory> => {
+  const history = await loadDailyHistory();
+  if (history[result.date]) return history;
+
+  const nextHistory = { ...history, [result.date]: result };
+  try {
+    await AsyncStorage.setItem(DAILY_HISTORY_KEY, JSON.stringify(nextHistory));
+  } catch (error) {
+    console.error('Günlük sonuç kaydedilemedi:', error);
+  }
+  return nextHistory;
+};
@@ -0,0 +1,81 @@
+import { DiceConfig, DiceResults, RandomSource } from '../types/gameTypes';
+
+export const MIN_DICE_COUNT = 2;
+export const MAX_DICE_COUNT = 4;
+
+// Standard sizes offered next to custom faces
+export const DIE_SIZES = [4, 6, 8, 10, 12, 20];
+
+// Custom dice stay within what a d20 could show, so numbers and the solver's
+// search stay the size they are with standard dice
+export const MIN_DIE_FACES = 2;
+export const MAX_DIE_FACES = 20;
+export const MAX_FACE_VALUE = 99;
+
+// 1 to sides, the faces of a standard die
+export const createDieFaces = (sides: number): number[] => {
+  return Array.from({ length: sides }, (_, index) => index + 1);
+};
+
+// Two d6, as the game was always played
+export const STANDARD_DICE: DiceConfig = { count: 2, faces: createDieFaces(6) };
+
+export const rollDie = (
+  random: RandomSource = Math.random,
+  faces: number[] = STANDARD_DICE.faces,
+): number => {
+  return faces[Math.floor(random() * faces.length)];
+};
+
+// One random number per die. For a standard die this is the same draw as
+// floor(random * N) + 1, so d6 games roll as they did before dice were configurable
+export const rollAllDice = (
+  random: RandomSource = Math.random,
+  dice: DiceConfig = STANDARD_DICE,
+): DiceResults => {
+  return Array.from({ length: dice.count }, () => rollDie(random, dice.faces));
+};
+
+// N for a standard dN, null for custom faces
+export const getDieSize = (dice: DiceConfig): number | null => {
+  const sides = dice.faces.length;
+  const isStandard = DIE_SIZES.includes(sides) && dice.faces.every((face, index) => face === index + 1);
+  return isStandard ? sides : null;
+};
+
+export const isValidDice = (dice: DiceConfig): boolean => {
+  const { count, faces } = dice;
+  return (
+    Number.isInteger(count) &&
+    count >= MIN_DICE_COUNT &&
+    count <= MAX_DICE_COUNT &&
+    Array.isArray(faces) &&
+    faces.length >= MIN_DIE_FACES &&
+    faces.length <= MAX_DIE_FACES &&
+    faces.every(face => Number.isInteger(face) && face >= 0 && face <= MAX_FACE_VALUE) &&
+    new Set(faces).size === faces.length
+  );
+};
+
+export const isDiceRoll = (value: unknown, dice: DiceConfig): value is DiceResults => {
+  return (
+    Array.isArray(value) &&
+    value.length === dice.count &&
+    value.every(face => dice.faces.includes(face))
+  );
+};
+
+// "2d6", or "3d{0,1,2,3,5,8}" for custom faces
+export const formatDice = (dice: DiceConfig): string => {
+  return `${dice.count}d${getDieSize(dice) ?? `{${dice.faces.join(',')}}`}`;
+};
+
+// Faces typed as "0, 1, 2, 3, 5, 8", sorted; anything that is not a whole
+// number is kept as NaN so validation refuses it instead of dropping it
+export const parseDieFaces = (text: string): number[] => {
+  return text
+    .split(/[\s,;]+/)
+    .filter(part => part.length > 0)
+    .map(part => (/^\d+$/.test(part) ? Number(part) : NaN))
+    .sort((a, b) => a - b);
+};
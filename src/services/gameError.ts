@@ -0,0 +1,28 @@
+// Engine errors carry a code; screens turn it into a message in the player's language
+export type GameErrorCode =
+  | 'DIVISION_BY_ZERO'
+  | 'INEXACT_DIVISION'
+  | 'NEGATIVE_OPERAND'
+  | 'RESULT_TOO_LARGE'
+  | 'INVALID_OPERATION'
+  | 'OPERATION_DISABLED'
+  | 'GAME_PAUSED'
+  | 'GAME_OVER'
+  | 'ALREADY_ROLLED'
+  | 'DICE_NOT_ROLLED'
+  | 'DICE_NOT_CALCULATED'
+  | 'NO_ROLLS_LEFT'
+  | 'INVALID_TEAMS'
+  | 'INVALID_SHARE_CODE'
+  | 'SHARE_CODE_VERSION'
+  | 'SHARE_CODE_TAMPERED';
+
+export class GameError extends Error {
+  readonly code: GameErrorCode;
+
+  constructor(code: GameErrorCode) {
+    super(code);
+    this.name = 'GameError';
+    this.code = code;
+  }
+}
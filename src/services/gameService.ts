@@ -1 +1,511 @@
- 
\ No newline at end of file
+import {
+  DiceResults,
+  GameAction,
+  GameMove,
+  GameOptions,
+  GameRules,
+  GameState,
+  Operation,
+  Player,
+  RandomSource,
+  TurnOutcome,
+} from '../types/gameTypes';
+import { GameError, GameErrorCode } from './gameError';
+import { OPERATION_REGISTRY, checkOperation, getOperationSymbol } from './operationService';
+import { createClock, isTimeUp, setClockPaused, startPhaseClock, tickClock } from './clockService';
+import { rollAllDice } from './diceService';
+import { createRandomStream, createSeed, normalizeSeed } from './randomService';
+import { CLASSIC_RULES } from './rulesService';
+import { evaluateMove, getNextPlayerIndex } from './winConditionService';
+import { TEAM_COLORS, TEAM_PLAYER_COUNT, getSeatTeam, isTeamGame, isTeammate } from './teamService';
+import { DEFAULT_LANGUAGE, createTranslator, getDefaultPlayerName } from '../i18n';
+
+export const PLAYER_COLORS = [
+  '#FF6B6B',
+  '#4ECDC4',
+  '#45B7D1',
+  '#96CEB4',
+  '#FFA94D',
+  '#B197FC',
+];
+
+export const generateTargetNumber = (
+  random: RandomSource = Math.random,
+  rules: GameRules = CLASSIC_RULES,
+): number => {
+  const { minTarget, maxTarget } = rules;
+  return Math.floor(random() * (maxTarget - minTarget + 1) + minTarget);
+};
+
+// Seats the caller left unnamed. Screens pass names in the chosen language,
+// see getDefaultPlayerName; this only covers tools and tests.
+const defaultTranslate = createTranslator(DEFAULT_LANGUAGE);
+
+export const initializeGame = (
+  playerCount: number,
+  customNames?: string[],
+  options: GameOptions = {},
+): GameState => {
+  if (options.teams && playerCount !== TEAM_PLAYER_COUNT) {
+    throw new GameError('INVALID_TEAMS');
+  }
+
+  const gameSeed = normalizeSeed(options.seed ?? createSeed());
+  const rules = options.rules ?? CLASSIC_RULES;
+  const { random, getState } = createRandomStream(gameSeed);
+  const targetNumber = generateTargetNumber(random, rules);
+  const startingPlayerIndex = Math.floor(random() * playerCount);
+
+  const players: Player[] = [];
+  for (let i = 0; i < playerCount; i++) {
+    const bot = options.bots?.[i] ?? undefined;
+    const defaultName = getDefaultPlayerName(defaultTranslate, i, bot);
+    const team = options.teams ? getSeatTeam(i) : undefined;
+    players.push({
+      id: i + 1,
+      name: customNames?.[i]?.trim() || defaultName,
+      currentNumber: rules.initialNumber,
+      color: team === undefined ? PLAYER_COLORS[i] : TEAM_COLORS[team],
+      ...(bot ? { bot } : {}),
+      ...(team === undefined ? {} : { team }),
+    });
+  }
+
+  return {
+    seed: gameSeed,
+    rngState: getState(),
+    mode: options.mode ?? 'casual',
+    rules,
+    players,
+    targetNumber,
+    currentPlayerIndex: startingPlayerIndex,
+    diceResults: null,
+    diceCalculationResult: null,
+    diceOperations: [],
+    turnForced: false,
+    winner: null,
+    winReason: null,
+    gameStarted: true,
+    gamePhase: 'roll',
+    clock: createClock(rules, playerCount),
+    moves: [],
+    ...(options.fixedDice ? { fixedDice: options.fixedDice } : {}),
+  };
+};
+
+// Same seats, names, bots and rules; a fresh seed
+export const createRematch = (gameState: GameState): GameState => {
+  return initializeGame(
+    gameState.players.length,
+    gameState.players.map(player => player.name),
+    {
+      mode: gameState.mode,
+      rules: gameState.rules,
+      bots: gameState.players.map(player => player.bot ?? null),
+      teams: isTeamGame(gameState),
+    },
+  );
+};
+
+export const canApplyOperation = (
+  number1: number,
+  number2: number,
+  operation: Operation,
+): boolean => {
+  return checkOperation(number1, number2, operation) === null;
+};
+
+export const applyOperation = (
+  number1: number,
+  number2: number,
+  operation: Operation,
+): number => {
+  const error = checkOperation(number1, number2, operation);
+  if (error) {
+    throw new GameError(error);
+  }
+  return OPERATION_REGISTRY[operation].apply(number1, number2);
+};
+
+export const isOperationEnabled = (gameState: GameState, operation: Operation): boolean => {
+  return gameState.rules.operations.includes(operation);
+};
+
+export const getCurrentPlayer = (gameState: GameState): Player => {
+  return gameState.players[gameState.currentPlayerIndex];
+};
+
+// The two numbers the next dice operation joins: the first die or the result
+// so far, and the next die in the chain
+export const getDiceOperands = (gameState: GameState): [number, number] | null => {
+  const { diceResults, diceOperations, diceCalculationResult } = gameState;
+  if (gameState.gamePhase !== 'dice-operation' || !diceResults) {
+    return null;
+  }
+  return [diceCalculationResult ?? diceResults[0], diceResults[diceOperations.length + 1]];
+};
+
+export const canUseDiceOperation = (
+  gameState: GameState,
+  operation: Operation,
+): boolean => {
+  const operands = getDiceOperands(gameState);
+  if (!operands) {
+    return false;
+  }
+  return isOperationEnabled(gameState, operation) && canApplyOperation(...operands, operation);
+};
+
+export const canUseFinalOperation = (
+  gameState: GameState,
+  operation: Operation,
+): boolean => {
+  if (
+    gameState.gamePhase !== 'final-operation' ||
+    gameState.diceCalculationResult === null
+  ) {
+    return false;
+  }
+  const currentPlayer = getCurrentPlayer(gameState);
+  return isOperationEnabled(gameState, operation) && canApplyOperation(
+    currentPlayer.currentNumber,
+    gameState.diceCalculationResult,
+    operation,
+  );
+};
+
+export const getValidOperations = (gameState: GameState): Operation[] => {
+  if (gameState.gamePhase === 'dice-operation') {
+    return gameState.rules.operations.filter(op => canUseDiceOperation(gameState, op));
+  }
+  if (gameState.gamePhase === 'final-operation') {
+    return gameState.rules.operations.filter(op => canUseFinalOperation(gameState, op));
+  }
+  return [];
+};
+
+export interface OperationPreview {
+  operation: Operation;
+  number1: number;
+  number2: number;
+  // Null when the operation cannot be played, error says why
+  result: number | null;
+  error: GameErrorCode | null;
+}
+
+// What each operation in the rules would give in the current phase, playable
+// or not, so the operation buttons can show it before anything is picked
+export const getOperationPreviews = (gameState: GameState): OperationPreview[] => {
+  let operands = getDiceOperands(gameState);
+  if (!operands && gameState.gamePhase === 'final-operation' && gameState.diceCalculationResult !== null) {
+    operands = [getCurrentPlayer(gameState).currentNumber, gameState.diceCalculationResult];
+  }
+  if (!operands) {
+    return [];
+  }
+
+  const [number1, number2] = operands;
+  return gameState.rules.operations.map(operation => {
+    const error = checkOperation(number1, number2, operation);
+    const result = error ? null : applyOperation(number1, number2, operation);
+    return { operation, number1, number2, result, error };
+  });
+};
+
+export interface DiceChain {
+  operations: Operation[];
+  result: number;
+}
+
+// Every legal way to join the dice left to right, one operation between each
+// pair. Two dice give at most one chain per operation.
+export const listDiceChains = (
+  diceResults: DiceResults,
+  operations: Operation[] = CLASSIC_RULES.operations,
+): DiceChain[] => {
+  let chains: DiceChain[] = [{ operations: [], result: diceResults[0] }];
+  diceResults.slice(1).forEach(die => {
+    chains = chains.flatMap(chain =>
+      operations
+        .filter(operation => canApplyOperation(chain.result, die, operation))
+        .map(operation => ({
+          operations: [...chain.operations, operation],
+          result: applyOperation(chain.result, die, operation),
+        })),
+    );
+  });
+  return chains;
+};
+
+// Every legal (dice chain, final operation) pair for one turn
+export const listTurnOutcomes = (
+  currentNumber: number,
+  diceResults: DiceResults,
+  operations: Operation[] = CLASSIC_RULES.operations,
+): TurnOutcome[] => {
+  const outcomes: TurnOutcome[] = [];
+
+  listDiceChains(diceResults, operations).forEach(chain => {
+    operations.forEach(finalOperation => {
+      if (!canApplyOperation(currentNumber, chain.result, finalOperation)) return;
+      outcomes.push({
+        diceOperations: chain.operations,
+        diceCalculationResult: chain.result,
+        finalOperation,
+        result: applyOperation(currentNumber, chain.result, finalOperation),
+      });
+    });
+  });
+
+  return outcomes;
+};
+
+const assertClockRunning = (gameState: GameState) => {
+  if (gameState.clock.paused) {
+    throw new GameError('GAME_PAUSED');
+  }
+};
+
+const assertOperationEnabled = (gameState: GameState, operation: Operation) => {
+  if (!isOperationEnabled(gameState, operation)) {
+    throw new GameError('OPERATION_DISABLED');
+  }
+};
+
+export const rollDiceForGame = (gameState: GameState): GameState => {
+  if (gameState.winner) {
+    throw new GameError('GAME_OVER');
+  }
+  if (gameState.gamePhase !== 'roll') {
+    throw new GameError('ALREADY_ROLLED');
+  }
+  assertClockRunning(gameState);
+
+  if (gameState.fixedDice) {
+    const diceResults = gameState.fixedDice[gameState.moves.length];
+    if (!diceResults) {
+      throw new GameError('NO_ROLLS_LEFT');
+    }
+    return {
+      ...gameState,
+      diceResults,
+      gamePhase: 'dice-operation',
+      clock: startPhaseClock(gameState, 'dice-operation'),
+    };
+  }
+
+  const { random, getState } = createRandomStream(gameState.rngState);
+  const diceResults = rollAllDice(random, gameState.rules.dice);
+
+  return {
+    ...gameState,
+    rngState: getState(),
+    diceResults,
+    gamePhase: 'dice-operation',
+    clock: startPhaseClock(gameState, 'dice-operation'),
+  };
+};
+
+export const applyDiceOperation = (
+  gameState: GameState,
+  operation: Operation,
+  forced = false,
+): GameState => {
+  const operands = getDiceOperands(gameState);
+  if (!operands || !gameState.diceResults) {
+    throw new GameError('DICE_NOT_ROLLED');
+  }
+  assertClockRunning(gameState);
+  assertOperationEnabled(gameState, operation);
+
+  const diceCalculationResult = applyOperation(...operands, operation);
+  const diceOperations = [...gameState.diceOperations, operation];
+  // Each link of the chain gets the full dice-operation time
+  const gamePhase =
+    diceOperations.length === gameState.diceResults.length - 1 ? 'final-operation' : 'dice-operation';
+
+  return {
+    ...gameState,
+    diceCalculationResult,
+    diceOperations,
+    turnForced: gameState.turnForced || forced,
+    gamePhase,
+    clock: startPhaseClock(gameState, gamePhase),
+  };
+};
+
+export const applyFinalMove = (
+  gameState: GameState,
+  operation: Operation,
+  forced = false,
+): GameState => {
+  if (
+    gameState.diceCalculationResult === null ||
+    gameState.diceResults === null ||
+    gameState.gamePhase !== 'final-operation'
+  ) {
+    throw new GameError('DICE_NOT_CALCULATED');
+  }
+  assertClockRunning(gameState);
+  assertOperationEnabled(gameState, operation);
+
+  return finishTurn(gameState, gameState.diceResults, gameState.diceCalculationResult, operation, forced);
+};
+
+// Records the move and passes the turn. A null operation leaves the number as
+// it is, for turns where nothing could be played (see applyTimeUp).
+const finishTurn = (
+  gameState: GameState,
+  diceResults: DiceResults,
+  diceCalculationResult: number,
+  operation: Operation | null,
+  forced: boolean,
+): GameState => {
+  const currentPlayer = getCurrentPlayer(gameState);
+  const newNumber =
+    operation === null
+      ? currentPlayer.currentNumber
+      : applyOperation(currentPlayer.currentNumber, diceCalculationResult, operation);
+
+  // Teammates share the number, so the whole team moves
+  const updatedPlayers = gameState.players.map(player =>
+    isTeammate(player, currentPlayer)
+      ? { ...player, currentNumber: newNumber }
+      : player,
+  );
+
+  const move: GameMove = {
+    turn: gameState.moves.length + 1,
+    playerId: currentPlayer.id,
+    targetNumber: gameState.targetNumber,
+    diceResults,
+    diceOperations: gameState.diceOperations,
+    diceCalculationResult,
+    finalOperation: operation,
+    previousNumber: currentPlayer.currentNumber,
+    newNumber,
+    forced: gameState.turnForced || forced,
+  };
+
+  const { players, winner, winReason, nextTarget } = evaluateMove({
+    gameState,
+    players: updatedPlayers,
+    move,
+  });
+
+  const nextPlayerIndex = winner
+    ? gameState.currentPlayerIndex
+    : getNextPlayerIndex(players, gameState.currentPlayerIndex);
+
+  // A new target is drawn from the game's RNG and everybody starts over
+  let { targetNumber, rngState } = gameState;
+  let nextPlayers = players;
+  if (nextTarget) {
+    const { random, getState } = createRandomStream(rngState);
+    targetNumber = generateTargetNumber(random, gameState.rules);
+    rngState = getState();
+    nextPlayers = players.map(player => ({ ...player, currentNumber: gameState.rules.initialNumber }));
+  }
+
+  return {
+    ...gameState,
+    rngState,
+    players: nextPlayers,
+    targetNumber,
+    currentPlayerIndex: nextPlayerIndex,
+    diceResults: null,
+    diceCalculationResult: null,
+    diceOperations: [],
+    turnForced: false,
+    winner,
+    winReason,
+    gamePhase: 'roll',
+    clock: startPhaseClock(gameState, 'roll'),
+    moves: [...gameState.moves, move],
+  };
+};
+
+// Picks a random valid operation for the current phase from the game's own RNG.
+// Returns the state unchanged unless the clock has really run out, so a late
+// duplicate TIME_UP can never play a second move. When no operation can take
+// the numbers, e.g. a number so large that every result would be unsafe, the
+// turn is skipped so the game cannot get stuck.
+export const applyTimeUp = (gameState: GameState): GameState => {
+  if (!isTimeUp(gameState) || !gameState.diceResults || gameState.gamePhase === 'roll') {
+    return gameState;
+  }
+
+  const validOperations = getValidOperations(gameState);
+  if (validOperations.length === 0) {
+    const { diceResults, diceCalculationResult } = gameState;
+    return finishTurn(gameState, diceResults, diceCalculationResult ?? diceResults[0], null, true);
+  }
+
+  const { random, getState } = createRandomStream(gameState.rngState);
+  const operation = validOperations[Math.floor(random() * validOperations.length)];
+  const nextState = { ...gameState, rngState: getState() };
+
+  return gameState.gamePhase === 'dice-operation'
+    ? applyDiceOperation(nextState, operation, true)
+    : applyFinalMove(nextState, operation, true);
+};
+
+// "3 × 4 = 12 → 17 + 12 = 29". Longer chains are worked left to right, so
+// they are bracketed that way: "(3 + 4) × 2 = 14 → …"
+export const formatDiceChain = (diceResults: DiceResults, diceOperations: Operation[]): string => {
+  return diceOperations.reduce((text, operation, index) => {
+    const joined = `${text} ${getOperationSymbol(operation)} ${diceResults[index + 1]}`;
+    return index < diceOperations.length - 1 ? `(${joined})` : joined;
+  }, `${diceResults[0]}`);
+};
+
+export const formatTurnEquation = (
+  diceResults: DiceResults,
+  previousNumber: number,
+  outcome: TurnOutcome,
+): string => {
+  const finalSymbol = getOperationSymbol(outcome.finalOperation);
+  return (
+    `${formatDiceChain(diceResults, outcome.diceOperations)} = ${outcome.diceCalculationResult} → ` +
+    `${previousNumber} ${finalSymbol} ${outcome.diceCalculationResult} = ${outcome.result}`
+  );
+};
+
+// Skipped turns end in "→ 17 ⏭", the number they were left on
+export const formatMoveEquation = (move: GameMove): string => {
+  if (move.finalOperation === null) {
+    const chain = formatDiceChain(move.diceResults, move.diceOperations);
+    const calculated = move.diceOperations.length > 0 ? ` = ${move.diceCalculationResult}` : '';
+    return `${chain}${calculated} → ${move.previousNumber} ⏭`;
+  }
+  return formatTurnEquation(move.diceResults, move.previousNumber, {
+    diceOperations: move.diceOperations,
+    diceCalculationResult: move.diceCalculationResult,
+    finalOperation: move.finalOperation,
+    result: move.newNumber,
+  });
+};
+
+export const dispatch = (
+  gameState: GameState,
+  action: GameAction,
+): GameState => {
+  switch (action.type) {
+    case 'ROLL_DICE':
+      return rollDiceForGame(gameState);
+    case 'SELECT_DICE_OPERATION':
+      return applyDiceOperation(gameState, action.operation, action.forced);
+    case 'SELECT_FINAL_OPERATION':
+      return applyFinalMove(gameState, action.operation, action.forced);
+    case 'TICK':
+      return tickClock(gameState, action.elapsed);
+    case 'TIME_UP':
+      return applyTimeUp(gameState);
+    case 'PAUSE_CLOCK':
+      return setClockPaused(gameState, true);
+    case 'RESUME_CLOCK':
+      return setClockPaused(gameState, false);
+    default:
+      return gameState;
+  }
+};
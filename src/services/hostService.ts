@@ -0,0 +1,190 @@
+import { GameAction, GameState } from '../types/gameTypes';
+import { dispatch } from './gameService';
+import { GameError } from './gameError';
+import {
+  HostMessage,
+  IntentAction,
+  PeerConnection,
+  RejectReason,
+  diffState,
+  encodeMessage,
+  parseClientMessage,
+} from './multiplayerProtocol';
+import { createSeed } from './randomService';
+
+// How long a dropped client keeps its seat. The rejoin token only lives in
+// the client's memory, so a client that restarted has to JOIN again.
+export const SEAT_RELEASE_DELAY = 60 * 1000;
+
+export interface HostSessionOptions {
+  // The seat played on the host device itself
+  hostSeat?: number;
+  onStateChange?: (state: GameState) => void;
+  // A client took or dropped a seat
+  onSeatsChange?: (connectedSeats: number[]) => void;
+}
+
+export interface HostSession {
+  getState: () => GameState;
+  // Attach a freshly opened client connection
+  addConnection: (connection: PeerConnection) => void;
+  // Host seat moves, bot moves and clock actions; engine errors are thrown as usual
+  dispatchLocal: (action: GameAction) => GameState;
+  getConnectedSeats: () => number[];
+  // Drops every client, e.g. when the host leaves the game
+  close: () => void;
+}
+
+interface RemoteSeat {
+  index: number;
+  token: string | null;
+  connection: PeerConnection | null;
+  // Running while the seat waits for its client to come back
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// The host owns the only real GameState. Clients send intents, the host checks
+// them against the engine and broadcasts what changed.
+export const createHostSession = (
+  initialState: GameState,
+  options: HostSessionOptions = {},
+): HostSession => {
+  const hostSeat = options.hostSeat ?? 0;
+  let state = initialState;
+  let version = 0;
+  let closed = false;
+
+  // Every human seat other than the host's can be claimed over the network
+  const seats: RemoteSeat[] = initialState.players
+    .map((player, index) => ({ player, index }))
+    .filter(({ player, index }) => index !== hostSeat && !player.bot)
+    .map(({ index }) => ({ index, token: null, connection: null, releaseTimer: null }));
+
+  const send = (connection: PeerConnection, message: HostMessage) => {
+    connection.send(encodeMessage(message));
+  };
+
+  const commit = (next: GameState): GameState => {
+    if (next === state) {
+      return state;
+    }
+    version += 1;
+    const patch = diffState(state, next, version);
+    state = next;
+
+    seats.forEach(seat => {
+      if (seat.connection) {
+        send(seat.connection, { type: 'PATCH', patch });
+      }
+    });
+    options.onStateChange?.(state);
+    return state;
+  };
+
+  const getConnectedSeats = () =>
+    seats.filter(seat => seat.connection !== null).map(seat => seat.index);
+
+  const stopRelease = (seat: RemoteSeat) => {
+    if (seat.releaseTimer) {
+      clearTimeout(seat.releaseTimer);
+      seat.releaseTimer = null;
+    }
+  };
+
+  const welcome = (seat: RemoteSeat, connection: PeerConnection, moveCount = 0) => {
+    stopRelease(seat);
+    seat.connection = connection;
+    options.onSeatsChange?.(getConnectedSeats());
+    send(connection, {
+      type: 'WELCOME',
+      token: seat.token!,
+      playerId: state.players[seat.index].id,
+      patch: diffState(null, state, version, moveCount),
+    });
+  };
+
+  const handleIntent = (seat: RemoteSeat, action: IntentAction): RejectReason | null => {
+    if (state.currentPlayerIndex !== seat.index) {
+      return 'NOT_YOUR_TURN';
+    }
+    try {
+      commit(dispatch(state, action));
+      return null;
+    } catch (error) {
+      return error instanceof GameError ? error.code : 'INVALID_MESSAGE';
+    }
+  };
+
+  const addConnection = (connection: PeerConnection) => {
+    let seat: RemoteSeat | null = null;
+
+    connection.onMessage(data => {
+      const message = parseClientMessage(data);
+      let rejection: RejectReason | null = null;
+
+      if (!message) {
+        rejection = 'INVALID_MESSAGE';
+      } else if (message.type === 'JOIN') {
+        // One connection plays one seat; a second JOIN would take another
+        const freeSeat = seats.find(candidate => candidate.token === null);
+        if (seat) {
+          rejection = 'ALREADY_SEATED';
+        } else if (freeSeat) {
+          freeSeat.token = `${createSeed().toString(36)}${freeSeat.index}`;
+          seat = freeSeat;
+          welcome(freeSeat, connection);
+        } else {
+          rejection = 'NO_FREE_SEAT';
+        }
+      } else if (message.type === 'REJOIN') {
+        // A dropped client keeps its seat and only receives the moves it missed
+        const knownSeat = seats.find(candidate => candidate.token === message.token);
+        if (knownSeat) {
+          if (knownSeat.connection && knownSeat.connection !== connection) {
+            knownSeat.connection.close();
+          }
+          seat = knownSeat;
+          welcome(knownSeat, connection, message.moveCount);
+        } else {
+          rejection = 'UNKNOWN_TOKEN';
+        }
+      } else if (!seat) {
+        rejection = 'NOT_YOUR_TURN';
+      } else {
+        rejection = handleIntent(seat, message.action);
+      }
+
+      if (rejection) {
+        send(connection, { type: 'REJECTED', reason: rejection });
+      }
+    });
+
+    connection.onClose(() => {
+      if (seat && seat.connection === connection) {
+        const droppedSeat = seat;
+        droppedSeat.connection = null;
+        if (!closed) {
+          droppedSeat.releaseTimer = setTimeout(() => {
+            droppedSeat.releaseTimer = null;
+            droppedSeat.token = null;
+          }, SEAT_RELEASE_DELAY);
+        }
+        options.onSeatsChange?.(getConnectedSeats());
+      }
+    });
+  };
+
+  return {
+    getState: () => state,
+    addConnection,
+    dispatchLocal: action => commit(dispatch(state, action)),
+    getConnectedSeats,
+    close: () => {
+      closed = true;
+      seats.forEach(seat => {
+        seat.connection?.close();
+        stopRelease(seat);
+      });
+    },
+  };
+};
@@ -0,0 +1,30 @@
+// Parsed JSON from storage, share codes or the network is untrusted; these
+// narrow it one field at a time instead of casting it to the expected type
+
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Objects as they are, anything else as an empty record
+export const asRecord = (value: unknown): JsonRecord => (isRecord(value) ? value : {});
+
+export const isNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+// A stored table with every entry `readEntry` turns down left out
+export const readTable = <T>(
+  value: unknown,
+  readEntry: (entry: unknown) => T | null,
+): Record<string, T> => {
+  const table: Record<string, T> = {};
+  Object.entries(asRecord(value)).forEach(([key, entry]) => {
+    const read = readEntry(entry);
+    if (read !== null) {
+      table[key] = read;
+    }
+  });
+  return table;
+};
@@ -0,0 +1,168 @@
+import { GameAction, GameMove, GameState } from '../types/gameTypes';
+import { GameErrorCode } from './gameError';
+import { isRecord } from './jsonService';
+import { isOperation } from './operationService';
+
+export const LAN_DEFAULT_PORT = 8787;
+
+// Clients may only ask for their own moves; forced moves and the clock belong to the host
+export type IntentAction = Extract<
+  GameAction,
+  { type: 'ROLL_DICE' | 'SELECT_DICE_OPERATION' | 'SELECT_FINAL_OPERATION' }
+>;
+
+// The move log only grows, so a patch carries the new moves instead of the whole array.
+// Every other top-level field is sent only when it changed.
+export interface StatePatch {
+  version: number;
+  moveOffset: number;
+  newMoves: GameMove[];
+  changes: Partial<Omit<GameState, 'moves'>>;
+}
+
+export type RejectReason =
+  | GameErrorCode
+  | 'NOT_YOUR_TURN'
+  | 'NO_FREE_SEAT'
+  | 'ALREADY_SEATED'
+  | 'UNKNOWN_TOKEN'
+  | 'INVALID_MESSAGE';
+
+export type ClientMessage =
+  | { type: 'JOIN' }
+  | { type: 'REJOIN'; token: string; moveCount: number }
+  | { type: 'INTENT'; action: IntentAction };
+
+export type HostMessage =
+  | { type: 'WELCOME'; token: string; playerId: number; patch: StatePatch }
+  | { type: 'PATCH'; patch: StatePatch }
+  | { type: 'REJECTED'; reason: RejectReason };
+
+// What the sessions need from a socket; see tcpConnection for the device adapter
+export interface PeerConnection {
+  send: (data: string) => void;
+  close: () => void;
+  onMessage: (handler: (data: string) => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+const INTENT_TYPES: IntentAction['type'][] = [
+  'ROLL_DICE',
+  'SELECT_DICE_OPERATION',
+  'SELECT_FINAL_OPERATION',
+];
+
+export const encodeMessage = (message: ClientMessage | HostMessage): string => {
+  return JSON.stringify(message);
+};
+
+const parseJson = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+const isIntentType = (value: unknown): value is IntentAction['type'] => {
+  return INTENT_TYPES.includes(value as IntentAction['type']);
+};
+
+// Anything a client sends is untrusted: unknown shapes become null
+export const parseClientMessage = (data: string): ClientMessage | null => {
+  const message = parseJson(data);
+  if (!isRecord(message)) {
+    return null;
+  }
+  switch (message.type) {
+    case 'JOIN':
+      return { type: 'JOIN' };
+    case 'REJOIN':
+      return typeof message.token === 'string' && Number.isInteger(message.moveCount)
+        ? { type: 'REJOIN', token: message.token, moveCount: Number(message.moveCount) }
+        : null;
+    case 'INTENT': {
+      const action = message.action;
+      if (!isRecord(action) || !isIntentType(action.type)) {
+        return null;
+      }
+      // A client never gets to mark its own move as forced
+      if (action.type === 'ROLL_DICE') {
+        return { type: 'INTENT', action: { type: 'ROLL_DICE' } };
+      }
+      return isOperation(action.operation)
+        ? { type: 'INTENT', action: { type: action.type, operation: action.operation } }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// The host is trusted with the game itself; only the envelope is checked
+const isStatePatch = (value: unknown): value is StatePatch => {
+  return (
+    isRecord(value) &&
+    Number.isInteger(value.version) &&
+    Number.isInteger(value.moveOffset) &&
+    Array.isArray(value.newMoves) &&
+    isRecord(value.changes)
+  );
+};
+
+export const parseHostMessage = (data: string): HostMessage | null => {
+  const message = parseJson(data);
+  if (!isRecord(message)) {
+    return null;
+  }
+  switch (message.type) {
+    case 'WELCOME':
+      return typeof message.token === 'string' &&
+        Number.isInteger(message.playerId) &&
+        isStatePatch(message.patch)
+        ? {
+            type: 'WELCOME',
+            token: message.token,
+            playerId: Number(message.playerId),
+            patch: message.patch,
+          }
+        : null;
+    case 'PATCH':
+      return isStatePatch(message.patch) ? { type: 'PATCH', patch: message.patch } : null;
+    case 'REJECTED':
+      return typeof message.reason === 'string'
+        ? { type: 'REJECTED', reason: message.reason as RejectReason }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// A patch against null (or from move 0) is a full snapshot
+export const diffState = (
+  previous: GameState | null,
+  next: GameState,
+  version: number,
+  moveOffset = previous ? previous.moves.length : 0,
+): StatePatch => {
+  const { moves, ...fields } = next;
+  const changes: Partial<Omit<GameState, 'moves'>> = {};
+
+  (Object.keys(fields) as (keyof typeof fields)[]).forEach(key => {
+    if (!previous || previous[key] !== fields[key]) {
+      Object.assign(changes, { [key]: fields[key] });
+    }
+  });
+
+  const offset = Math.min(moveOffset, moves.length);
+  return { version, moveOffset: offset, newMoves: moves.slice(offset), changes };
+};
+
+export const applyPatch = (state: GameState | null, patch: StatePatch): GameState => {
+  const moves = state ? state.moves.slice(0, patch.moveOffset) : [];
+  return {
+    ...(state as GameState),
+    ...patch.changes,
+    moves: [...moves, ...patch.newMoves],
+  } as GameState;
+};
@@ -0,0 +1,111 @@
+import { Operation } from '../types/gameTypes';
+import type { MessageKey } from '../i18n';
+import { GameErrorCode } from './gameError';
+
+export interface OperationDefinition {
+  id: Operation;
+  symbol: string;
+  labelKey: MessageKey;
+  // Why the operation cannot take these numbers, or null when it can. Left out
+  // by operations that work on any two whole numbers. Every result is also
+  // checked to be a safe integer, see checkOperation.
+  check?: (number1: number, number2: number) => GameErrorCode | null;
+  apply: (number1: number, number2: number) => number;
+}
+
+const checkSafe = (result: number): GameErrorCode | null => {
+  return Number.isSafeInteger(result) ? null : 'RESULT_TOO_LARGE';
+};
+
+const checkDivisor = (number1: number, number2: number): GameErrorCode | null => {
+  return number2 === 0 ? 'DIVISION_BY_ZERO' : null;
+};
+
+export const OPERATION_REGISTRY: Record<Operation, OperationDefinition> = {
+  '+': {
+    id: '+',
+    symbol: '+',
+    labelKey: 'operation.add',
+    apply: (number1, number2) => number1 + number2,
+  },
+  '-': {
+    id: '-',
+    symbol: '−',
+    labelKey: 'operation.subtract',
+    apply: (number1, number2) => number1 - number2,
+  },
+  '*': {
+    id: '*',
+    symbol: '×',
+    labelKey: 'operation.multiply',
+    apply: (number1, number2) => number1 * number2,
+  },
+  '/': {
+    id: '/',
+    symbol: '÷',
+    labelKey: 'operation.divide',
+    check: (number1, number2) =>
+      checkDivisor(number1, number2) ?? (number1 % number2 === 0 ? null : 'INEXACT_DIVISION'),
+    apply: (number1, number2) => number1 / number2,
+  },
+  '^': {
+    id: '^',
+    symbol: '^',
+    labelKey: 'operation.power',
+    check: (number1, number2) => (number2 < 0 ? 'NEGATIVE_OPERAND' : null),
+    apply: (number1, number2) => number1 ** number2,
+  },
+  '%': {
+    id: '%',
+    symbol: '%',
+    labelKey: 'operation.modulo',
+    check: checkDivisor,
+    // Same sign as number1, like the remainder of a division
+    apply: (number1, number2) => number1 % number2,
+  },
+  // 12 ‖ 5 = 125
+  '||': {
+    id: '||',
+    symbol: '‖',
+    labelKey: 'operation.concat',
+    check: (number1, number2) => (number1 < 0 || number2 < 0 ? 'NEGATIVE_OPERAND' : null),
+    apply: (number1, number2) => Number(`${number1}${number2}`),
+  },
+};
+
+// Display order, also used for buttons and statistics
+export const OPERATIONS = Object.keys(OPERATION_REGISTRY) as Operation[];
+
+export const BASIC_OPERATIONS: Operation[] = ['+', '-', '*', '/'];
+
+export const isOperation = (value: unknown): value is Operation => {
+  return (OPERATIONS as unknown[]).includes(value);
+};
+
+export const getOperationDefinition = (operation: Operation): OperationDefinition | null => {
+  return isOperation(operation) ? OPERATION_REGISTRY[operation] : null;
+};
+
+export const getOperationSymbol = (operation: Operation): string => {
+  return getOperationDefinition(operation)?.symbol ?? operation;
+};
+
+// Null when the numbers are fine for the operation. Results past
+// Number.MAX_SAFE_INTEGER are refused for every operation: once ^ or ‖ has made
+// a number large, + and × could otherwise round it
+export const checkOperation = (
+  number1: number,
+  number2: number,
+  operation: Operation,
+): GameErrorCode | null => {
+  const definition = getOperationDefinition(operation);
+  if (!definition) return 'INVALID_OPERATION';
+  return definition.check?.(number1, number2) ?? checkSafe(definition.apply(number1, number2));
+};
+
+// Operations that take any two whole numbers, so a turn on a dice roll is
+// never stuck; only the size of the result can stop them
+export const isAlwaysApplicable = (operation: Operation): boolean => {
+  const definition = getOperationDefinition(operation);
+  return Boolean(definition && !definition.check);
+};
@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DiceResults, GameRules, GameState, Operation, RandomSource } from '../types/gameTypes';
+import { STANDARD_DICE, isDiceRoll, rollAllDice } from './diceService';
+import { initializeGame, listTurnOutcomes } from './gameService';
+import { isNumber, isRecord, readTable } from './jsonService';
+import { BASIC_OPERATIONS, isOperation } from './operationService';
+import { createSeededRandom, hashString } from './randomService';
+import { CLASSIC_RULES, validateRules } from './rulesService';
+import { findFewestTurns } from './solverService';
+import { Language, isLanguage } from '../i18n';
+import basicsPack from '../data/puzzlePacks/basics.json';
+
+const PUZZLE_PROGRESS_KEY = '@numclash/puzzleProgress';
+
+export const MAX_STARS = 3;
+
+export interface PuzzleLevel {
+  id: string;
+  start: number;
+  target: number;
+  // One roll per turn; the level is lost when they run out
+  dice: DiceResults[];
+  operations: Operation[];
+  // Fewest turns the rolls allow, found by the solver
+  par: number;
+}
+
+export interface PuzzlePack {
+  id: string;
+  // Shown in the player's language, falling back to the id
+  name: Partial<Record<Language, string>>;
+  levels: PuzzleLevel[];
+}
+
+// Level id → best star count
+export type PuzzleProgress = Record<string, number>;
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+export const createPuzzleRules = (
+  level: Pick<PuzzleLevel, 'start' | 'target' | 'operations'>,
+): GameRules => ({
+  ...CLASSIC_RULES,
+  presetId: 'custom',
+  initialNumber: level.start,
+  minTarget: level.target,
+  maxTarget: level.target,
+  operations: level.operations,
+  minPlayers: 1,
+  maxPlayers: 1,
+});
+
+// A level from a pack file. The turn limit is the number of rolls; levels the
+// solver cannot finish inside it are refused, so every shipped level is
+// solvable. Returns null for anything malformed.
+export const parsePuzzleLevel = (data: unknown): PuzzleLevel | null => {
+  if (!isRecord(data)) return null;
+  const { id, start, target, dice } = data;
+  if (
+    typeof id !== 'string' ||
+    typeof start !== 'number' ||
+    !Number.isInteger(start) ||
+    typeof target !== 'number' ||
+    !Number.isInteger(target) ||
+    !Array.isArray(dice) ||
+    dice.length === 0 ||
+    !dice.every(roll => isDiceRoll(roll, STANDARD_DICE))
+  ) {
+    return null;
+  }
+
+  const operations = data.operations ?? BASIC_OPERATIONS;
+  if (!Array.isArray(operations) || !operations.every(isOperation)) return null;
+  if (validateRules(createPuzzleRules({ start, target, operations })) !== null) return null;
+
+  const par = findFewestTurns(start, target, dice, operations);
+  if (par === null) return null;
+
+  return { id, start, target, dice, operations, par };
+};
+
+// Pack names by language; other keys and non-text names are dropped
+const readPackName = (name: unknown): PuzzlePack['name'] => {
+  if (!isRecord(name)) return {};
+  return Object.fromEntries(
+    Object.entries(name).filter(([language, text]) => isLanguage(language) && typeof text === 'string'),
+  );
+};
+
+export const parsePuzzlePack = (data: unknown): PuzzlePack | null => {
+  if (!isRecord(data) || typeof data.id !== 'string' || !Array.isArray(data.levels)) {
+    return null;
+  }
+  const levels = data.levels.map(parsePuzzleLevel);
+  if (levels.length === 0 || !levels.every((level): level is PuzzleLevel => level !== null)) {
+    return null;
+  }
+  return { id: data.id, name: readPackName(data.name), levels };
+};
+
+// Packs that fail to parse are left out rather than shipping levels nobody can solve
+export const PUZZLE_PACKS: PuzzlePack[] = [basicsPack]
+  .map(parsePuzzlePack)
+  .filter((pack): pack is PuzzlePack => pack !== null);
+
+// How many generated levels the level select offers after the packs
+export const GENERATED_LEVEL_COUNT = 30;
+
+export interface GeneratorOptions {
+  turns: number;
+  // Extra rolls on top of the solver's best line
+  spareTurns?: number;
+  operations?: Operation[];
+  maxTarget?: number;
+}
+
+// Rolls random dice, then picks a target the solver needs exactly `turns`
+// turns for; retries with new dice in the rare case nothing fits
+export const generatePuzzleLevel = (
+  id: string,
+  random: RandomSource,
+  { turns, spareTurns = 2, operations = BASIC_OPERATIONS, maxTarget = 500 }: GeneratorOptions,
+): PuzzleLevel => {
+  for (;;) {
+    const start = 1 + Math.floor(random() * 9);
+    const dice = Array.from({ length: turns + spareTurns }, () => rollAllDice(random, STANDARD_DICE));
+
+    // Numbers first reached on the last turn cannot be hit any sooner
+    const seen = new Set([start]);
+    let reachable = new Set([start]);
+    let fresh: number[] = [];
+    for (let turn = 0; turn < turns; turn++) {
+      const next = new Set<number>();
+      reachable.forEach(value => {
+        listTurnOutcomes(value, dice[turn], operations).forEach(({ result }) => {
+          if (result >= 0 && result <= maxTarget * 6) next.add(result);
+        });
+      });
+      fresh = [...next].filter(value => !seen.has(value));
+      fresh.forEach(value => seen.add(value));
+      reachable = next;
+    }
+
+    const candidates = fresh.filter(value => value >= 10 && value <= maxTarget);
+    if (candidates.length === 0) continue;
+
+    const target = candidates[Math.floor(random() * candidates.length)];
+    const level = parsePuzzleLevel({ id, start, target, dice, operations });
+    if (level && level.par === turns) return level;
+  }
+};
+
+// Endless levels after the handcrafted packs. Level n is the same on every
+// device, and gets one turn longer every ten levels.
+export const getGeneratedLevel = (index: number): PuzzleLevel => {
+  const random = createSeededRandom(hashString(`numclash-puzzle-${index}`));
+  return generatePuzzleLevel(`generated-${index + 1}`, random, {
+    turns: 2 + Math.floor(index / 10),
+  });
+};
+
+export const createPuzzleGame = (level: PuzzleLevel, playerName: string): GameState => {
+  return initializeGame(1, [playerName], {
+    seed: hashString(level.id),
+    rules: createPuzzleRules(level),
+    fixedDice: level.dice,
+  });
+};
+
+export const getPuzzleStatus = (game: GameState, level: PuzzleLevel): PuzzleStatus => {
+  if (game.winner) return 'solved';
+  return game.moves.length >= level.dice.length ? 'failed' : 'playing';
+};
+
+// Three stars on par, one less for every turn over it
+export const getPuzzleStars = (turnsUsed: number, level: PuzzleLevel): number => {
+  return Math.max(1, MAX_STARS - (turnsUsed - level.par));
+};
+
+export const formatStars = (stars: number): string => {
+  return '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+};
+
+// A level opens once the one before it in the same list has a star
+export const isLevelUnlocked = (
+  levels: PuzzleLevel[],
+  index: number,
+  progress: PuzzleProgress,
+): boolean => {
+  return index === 0 || (progress[levels[index - 1].id] ?? 0) > 0;
+};
+
+export const loadPuzzleProgress = async (): Promise<PuzzleProgress> => {
+  try {
+    const raw = await AsyncStorage.getItem(PUZZLE_PROGRESS_KEY);
+    return raw ? readTable(JSON.parse(raw), stars => (isNumber(stars) ? stars : null)) : {};
+  } catch (error) {
+    console.error('Bulmaca ilerlemesi okunamadı:', error);
+    return {};
+  }
+};
+
+// Keeps the best result per level
+export const recordPuzzleResult = async (levelId: string, stars: number): Promise<PuzzleProgress> => {
+  const progress = await loadPuzzleProgress();
+  if ((progress[levelId] ?? 0) >= stars) return progress;
+
+  const nextProgress = { ...progress, [levelId]: stars };
+  try {
+    await AsyncStorage.setItem(PUZZLE_PROGRESS_KEY, JSON.stringify(nextProgress));
+  } catch (error) {
+    console.error('Bulmaca ilerlemesi kaydedilemedi:', error);
+  }
+  return nextProgress;
+};
@@ -0,0 +1,47 @@
+/* eslint-disable no-bitwise */
+import { RandomSource } from '../types/gameTypes';
+
+// mulberry32: small, fast and good enough for dice. The whole generator state
+// is a single 32-bit integer, so it can live inside GameState and be saved.
+export const nextRandom = (rngState: number): [number, number] => {
+  const nextState = (rngState + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextState];
+};
+
+export const normalizeSeed = (seed: number): number => {
+  return Math.floor(Math.abs(seed)) >>> 0;
+};
+
+export const createSeed = (): number => {
+  return normalizeSeed(Math.random() * 4294967296);
+};
+
+// Stateful RandomSource that starts from rngState; getState() returns where it
+// stopped so the caller can store it back.
+export const createRandomStream = (rngState: number) => {
+  let state = rngState;
+  const random: RandomSource = () => {
+    const [value, nextState] = nextRandom(state);
+    state = nextState;
+    return value;
+  };
+  return { random, getState: () => state };
+};
+
+// FNV-1a, for turning text such as a date into a seed or a checksum
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createSeededRandom = (seed: number): RandomSource => {
+  return createRandomStream(normalizeSeed(seed)).random;
+};
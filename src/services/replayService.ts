@@ -0,0 +1,68 @@
+import { GameMove, GameState, Player } from '../types/gameTypes';
+import { isTeammate } from './teamService';
+import { evaluateMove } from './winConditionService';
+
+// Time between two moves while a replay plays
+export const REPLAY_STEP_INTERVAL = 1200;
+
+export interface ReplayFrame {
+  // 0 is the start of the game, n is the state after move n
+  turn: number;
+  // The move that led here, null for the first frame
+  move: GameMove | null;
+  players: Player[];
+  targetNumber: number;
+}
+
+// Rebuilds the board after every move from the move log alone, running the
+// same win-condition strategy as the engine so knock-outs and new targets
+// show up where they happened.
+export const buildReplayFrames = (game: GameState): ReplayFrame[] => {
+  const { rules, moves } = game;
+  const startPlayers = game.players.map(player => ({
+    ...player,
+    currentNumber: rules.initialNumber,
+    eliminated: false,
+    targetsWon: 0,
+  }));
+  const frames: ReplayFrame[] = [
+    {
+      turn: 0,
+      move: null,
+      players: startPlayers,
+      targetNumber: moves[0]?.targetNumber ?? game.targetNumber,
+    },
+  ];
+
+  moves.forEach((move, index) => {
+    const previous = frames[frames.length - 1];
+    // Teammates share one number, so the whole team moves with the mover
+    const mover = previous.players.find(player => player.id === move.playerId);
+    const movedPlayers = previous.players.map(player =>
+      mover && isTeammate(player, mover) ? { ...player, currentNumber: move.newNumber } : player,
+    );
+    const check = evaluateMove({
+      gameState: { ...game, players: previous.players, moves: moves.slice(0, index) },
+      players: movedPlayers,
+      move,
+    });
+    const players = check.nextTarget
+      ? check.players.map(player => ({ ...player, currentNumber: rules.initialNumber }))
+      : check.players;
+
+    frames.push({
+      turn: move.turn,
+      move,
+      players,
+      targetNumber: moves[index + 1]?.targetNumber ?? game.targetNumber,
+    });
+  });
+
+  return frames;
+};
+
+// Every player's number after each frame, ready for a chart
+export const getNumberPaths = (frames: ReplayFrame[]): number[][] => {
+  if (frames.length === 0) return [];
+  return frames[0].players.map((_, seat) => frames.map(frame => frame.players[seat].currentNumber));
+};
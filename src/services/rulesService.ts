@@ -0,0 +1,148 @@
+import { GameRules, RulePresetId, WinCondition } from '../types/gameTypes';
+import { STANDARD_DICE, isValidDice } from './diceService';
+import { BASIC_OPERATIONS, OPERATIONS, isAlwaysApplicable, isOperation } from './operationService';
+import { DEFAULT_WIN_CONDITION, WIN_CONDITIONS } from './winConditionService';
+
+// No seat can exist without a colour, see PLAYER_COLORS
+export const MAX_SUPPORTED_PLAYERS = 6;
+
+export const CLASSIC_RULES: GameRules = {
+  presetId: 'classic',
+  initialNumber: 5,
+  minTarget: 50,
+  maxTarget: 500,
+  diceOperationTime: 5,
+  finalOperationTime: 5,
+  timeBank: 0,
+  operations: BASIC_OPERATIONS,
+  dice: STANDARD_DICE,
+  winCondition: DEFAULT_WIN_CONDITION,
+  minPlayers: 2,
+  maxPlayers: 4,
+};
+
+export const BLITZ_RULES: GameRules = {
+  presetId: 'blitz',
+  initialNumber: 5,
+  minTarget: 20,
+  maxTarget: 120,
+  diceOperationTime: 3,
+  finalOperationTime: 3,
+  timeBank: 0,
+  operations: BASIC_OPERATIONS,
+  dice: STANDARD_DICE,
+  winCondition: DEFAULT_WIN_CONDITION,
+  minPlayers: 2,
+  maxPlayers: 4,
+};
+
+export const MARATHON_RULES: GameRules = {
+  presetId: 'marathon',
+  initialNumber: 1,
+  minTarget: 300,
+  maxTarget: 1000,
+  diceOperationTime: 10,
+  finalOperationTime: 10,
+  timeBank: 0,
+  // Big targets are more fun with the big operations
+  operations: OPERATIONS,
+  dice: STANDARD_DICE,
+  winCondition: DEFAULT_WIN_CONDITION,
+  minPlayers: 2,
+  maxPlayers: MAX_SUPPORTED_PLAYERS,
+};
+
+// Solo, with time limits that should never run out: a timed-out phase draws
+// from the dice stream, and the rolls after it would differ from everyone else's
+export const DAILY_RULES: GameRules = {
+  ...CLASSIC_RULES,
+  presetId: 'daily',
+  diceOperationTime: 600,
+  finalOperationTime: 600,
+  minPlayers: 1,
+  maxPlayers: 1,
+};
+
+export const RULE_PRESETS: GameRules[] = [CLASSIC_RULES, BLITZ_RULES, MARATHON_RULES];
+
+export const getRulePreset = (presetId: RulePresetId): GameRules | null => {
+  return RULE_PRESETS.find(rules => rules.presetId === presetId) ?? null;
+};
+
+export type RuleErrorCode =
+  | 'NOT_INTEGER'
+  | 'NEGATIVE_START'
+  | 'INVALID_TARGET_RANGE'
+  | 'TIME_TOO_SHORT'
+  | 'NEGATIVE_TIME_BANK'
+  | 'INVALID_OPERATIONS'
+  | 'INVALID_DICE'
+  | 'INVALID_WIN_CONDITION'
+  | 'INVALID_PLAYER_COUNT';
+
+const isValidWinCondition = (winCondition: WinCondition): boolean => {
+  switch (winCondition.type) {
+    case 'closest':
+      return Number.isInteger(winCondition.rounds) && winCondition.rounds >= 1;
+    case 'targets':
+      return Number.isInteger(winCondition.targets) && winCondition.targets >= 1;
+    default:
+      // Strategies without settings only have to exist
+      return Object.keys(WIN_CONDITIONS).includes(winCondition.type);
+  }
+};
+
+// Returns the first broken rule, or null when the rules are playable
+export const validateRules = (rules: GameRules): RuleErrorCode | null => {
+  const values = [
+    rules.initialNumber,
+    rules.minTarget,
+    rules.maxTarget,
+    rules.diceOperationTime,
+    rules.finalOperationTime,
+    rules.timeBank,
+    rules.minPlayers,
+    rules.maxPlayers,
+  ];
+  if (values.some(value => !Number.isInteger(value))) {
+    return 'NOT_INTEGER';
+  }
+  if (rules.initialNumber < 0) {
+    return 'NEGATIVE_START';
+  }
+  if (rules.minTarget < 1 || rules.maxTarget < rules.minTarget) {
+    return 'INVALID_TARGET_RANGE';
+  }
+  if (rules.diceOperationTime < 1 || rules.finalOperationTime < 1) {
+    return 'TIME_TOO_SHORT';
+  }
+  if (rules.timeBank < 0) {
+    return 'NEGATIVE_TIME_BANK';
+  }
+  // At least one operation has to work on every roll, or a turn could get stuck
+  if (
+    !rules.operations.every(isOperation) ||
+    new Set(rules.operations).size !== rules.operations.length ||
+    !rules.operations.some(isAlwaysApplicable)
+  ) {
+    return 'INVALID_OPERATIONS';
+  }
+  if (!isValidDice(rules.dice)) {
+    return 'INVALID_DICE';
+  }
+  if (!isValidWinCondition(rules.winCondition)) {
+    return 'INVALID_WIN_CONDITION';
+  }
+  if (
+    rules.minPlayers < 1 ||
+    rules.maxPlayers < rules.minPlayers ||
+    rules.maxPlayers > MAX_SUPPORTED_PLAYERS
+  ) {
+    return 'INVALID_PLAYER_COUNT';
+  }
+  return null;
+};
+
+export const clampPlayerCount = (rules: GameRules, playerCount: number): number => {
+  return Math.min(rules.maxPlayers, Math.max(rules.minPlayers, playerCount));
+};
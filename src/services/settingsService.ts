@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_FEEDBACK_SETTINGS, FeedbackSettings, isFeedbackSettings } from '../feedback';
+import { Language, isLanguage } from '../i18n';
+import { ThemePreference, isThemePreference } from '../theme';
+
+const LANGUAGE_KEY = '@numclash/language';
+const COLOR_BLIND_KEY = '@numclash/colorBlind';
+const THEME_KEY = '@numclash/theme';
+const FEEDBACK_KEY = '@numclash/feedback';
+
+export const loadLanguage = async (): Promise<Language | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(LANGUAGE_KEY);
+    return isLanguage(saved) ? saved : null;
+  } catch (error) {
+    console.error('Dil ayarı okunamadı:', error);
+    return null;
+  }
+};
+
+export const saveLanguage = async (language: Language): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(LANGUAGE_KEY, language);
+  } catch (error) {
+    console.error('Dil ayarı kaydedilemedi:', error);
+  }
+};
+
+export const loadColorBlindMode = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(COLOR_BLIND_KEY)) === 'true';
+  } catch (error) {
+    console.error('Renk körü ayarı okunamadı:', error);
+    return false;
+  }
+};
+
+export const saveColorBlindMode = async (enabled: boolean): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(COLOR_BLIND_KEY, `${enabled}`);
+  } catch (error) {
+    console.error('Renk körü ayarı kaydedilemedi:', error);
+  }
+};
+
+export const loadThemePreference = async (): Promise<ThemePreference | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(THEME_KEY);
+    return isThemePreference(saved) ? saved : null;
+  } catch (error) {
+    console.error('Tema ayarı okunamadı:', error);
+    return null;
+  }
+};
+
+export const saveThemePreference = async (preference: ThemePreference): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(THEME_KEY, preference);
+  } catch (error) {
+    console.error('Tema ayarı kaydedilemedi:', error);
+  }
+};
+
+export const loadFeedbackSettings = async (): Promise<FeedbackSettings> => {
+  try {
+    const saved = await AsyncStorage.getItem(FEEDBACK_KEY);
+    const settings: unknown = saved ? JSON.parse(saved) : null;
+    return isFeedbackSettings(settings) ? settings : DEFAULT_FEEDBACK_SETTINGS;
+  } catch (error) {
+    console.error('Ses ayarları okunamadı:', error);
+    return DEFAULT_FEEDBACK_SETTINGS;
+  }
+};
+
+export const saveFeedbackSettings = async (settings: FeedbackSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(FEEDBACK_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Ses ayarları kaydedilemedi:', error);
+  }
+};
@@ -0,0 +1,467 @@
+import {
+  BotDifficulty,
+  DiceConfig,
+  DiceResults,
+  GameMode,
+  GameMove,
+  GameRules,
+  GameState,
+  Operation,
+  RulePresetId,
+  WinCondition,
+} from '../types/gameTypes';
+import { GameError } from './gameError';
+import { STANDARD_DICE } from './diceService';
+import { dispatch, initializeGame } from './gameService';
+import { isRecord } from './jsonService';
+import { isOperation } from './operationService';
+import { hashString } from './randomService';
+import { getRulePreset, validateRules } from './rulesService';
+import { TEAM_PLAYER_COUNT, isTeamGame } from './teamService';
+
+// Bump this whenever the payload or the move encoding changes; old codes are
+// then rejected instead of being replayed into a different game
+export const SHARE_CODE_VERSION = 1;
+
+const CODE_PREFIX = 'NC';
+
+// A share code looks like "NC1.<base64url payload>.<checksum>". Only the
+// inputs go into it: the seed rebuilds the target and every dice roll, and
+// the engine replays the moves. Clock times are not part of the code.
+interface SharePayload {
+  seed: number;
+  mode: GameMode;
+  // A preset id when the rules are an unchanged preset
+  rules: RulePresetId | GameRules;
+  players: [string, BotDifficulty | null][];
+  // Only present for 2v2 games, so older codes still read the same
+  teams?: true;
+  // One operation letter per die (the dice chain, then the final operation)
+  // per move, then how many phases the timer picked. A skipped turn ends in
+  // "x" after the dice operations played before it.
+  moves: string;
+  // The unfinished turn: "r" once the dice are rolled, then the dice
+  // operations played so far, each followed by "1" if the timer picked it
+  turn: string | null;
+}
+
+const OPERATION_CODES: Record<Operation, string> = {
+  '+': 'a',
+  '-': 'b',
+  '*': 'c',
+  '/': 'd',
+  '^': 'e',
+  '%': 'f',
+  '||': 'g',
+};
+
+const CODE_OPERATIONS = Object.fromEntries(
+  Object.entries(OPERATION_CODES).map(([operation, code]) => [code, operation]),
+) as Record<string, Operation>;
+
+// Stands for the phase a turn was skipped in, see applyTimeUp
+const SKIP_CODE = 'x';
+
+// A move is one letter per phase, and a turn has one phase per die
+const getMoveLetters = (diceCount: number): string => {
+  return `[a-g]{${diceCount}}|[a-g]{0,${diceCount - 1}}${SKIP_CODE}`;
+};
+const getMovePattern = (diceCount: number): RegExp => {
+  return new RegExp(`^(?:(?:${getMoveLetters(diceCount)})[1-${diceCount}]?)*$`);
+};
+const getMoveToken = (diceCount: number): RegExp => {
+  return new RegExp(`(${getMoveLetters(diceCount)})([1-${diceCount}]?)`, 'g');
+};
+const TURN_PATTERN = /^r(?:[a-g]1?)*$/;
+const TURN_TOKEN = /([a-g])(1?)/g;
+
+const MODES: GameMode[] = ['casual', 'competitive'];
+const PRESET_IDS: RulePresetId[] = ['classic', 'blitz', 'marathon', 'custom', 'daily'];
+const BOTS: (BotDifficulty | null)[] = ['easy', 'medium', 'hard', null];
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/* eslint-disable no-bitwise */
+const toBase64Url = (bytes: number[]): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const length = Math.min(3, bytes.length - i) + 1;
+    for (let j = 0; j < length; j++) {
+      output += BASE64_ALPHABET[(chunk >> (18 - j * 6)) & 63];
+    }
+  }
+  return output;
+};
+
+const fromBase64Url = (text: string): number[] => {
+  const values = [...text].map(char => BASE64_ALPHABET.indexOf(char));
+  if (values.includes(-1) || values.length % 4 === 1) {
+    throw new GameError('INVALID_SHARE_CODE');
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < values.length; i += 4) {
+    const group = values.slice(i, i + 4);
+    const chunk = group.reduce((sum, value, j) => sum | (value << (18 - j * 6)), 0);
+    for (let j = 0; j < group.length - 1; j++) {
+      bytes.push((chunk >> (16 - j * 8)) & 255);
+    }
+  }
+  return bytes;
+};
+/* eslint-enable no-bitwise */
+
+// Catches typos and hand edits, it is not meant to stop a forger
+const checksum = (text: string): string => hashString(text).toString(16).padStart(8, '0');
+
+// Player names can hold any character, so the JSON is UTF-8 encoded first
+const toUtf8 = (text: string): number[] => {
+  const escaped = encodeURIComponent(text);
+  const bytes: number[] = [];
+  for (let i = 0; i < escaped.length; i++) {
+    if (escaped[i] === '%') {
+      bytes.push(parseInt(escaped.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(escaped.charCodeAt(i));
+    }
+  }
+  return bytes;
+};
+
+const fromUtf8 = (bytes: number[]): string => {
+  return decodeURIComponent(bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+};
+
+const sameRules = (a: GameRules, b: GameRules): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const startGame = (payload: SharePayload, rules: GameRules): GameState => {
+  return initializeGame(
+    payload.players.length,
+    payload.players.map(([name]) => name),
+    {
+      seed: payload.seed,
+      mode: payload.mode,
+      rules,
+      bots: payload.players.map(([, bot]) => bot),
+      teams: payload.teams,
+    },
+  );
+};
+
+// Lets the timer pick for the current phase, the same way TIME_UP does in a
+// real game. Returns null when it would not have picked the expected
+// operation; null expects the turn to be skipped.
+const timeOut = (gameState: GameState, expected: Operation | null): GameState | null => {
+  const next = dispatch(
+    { ...gameState, clock: { ...gameState.clock, phaseTimeLeft: 0, bankTimeLeft: null, paused: false } },
+    { type: 'TIME_UP' },
+  );
+  const endedTurn = next.moves.length > gameState.moves.length;
+  const picked = endedTurn
+    ? next.moves[next.moves.length - 1].finalOperation
+    : next.diceOperations[gameState.diceOperations.length];
+  if (next === gameState || picked !== expected) return null;
+  return { ...next, clock: { ...next.clock, bankTimeLeft: gameState.clock.bankTimeLeft } };
+};
+
+// Plays the operation for the current phase, dice chain or final. Only the
+// timer skips a turn.
+const playPhase = (
+  gameState: GameState,
+  operation: Operation | null,
+  timed: boolean,
+): GameState | null => {
+  if (timed) {
+    return timeOut(gameState, operation);
+  }
+  if (operation === null) {
+    return null;
+  }
+  const type =
+    gameState.gamePhase === 'dice-operation' ? 'SELECT_DICE_OPERATION' : 'SELECT_FINAL_OPERATION';
+  return dispatch(gameState, { type, operation });
+};
+
+// Every way to pick `timed` of `phases` phases, earlier phases first
+const listTimedPhases = (phases: number, timed: number): boolean[][] => {
+  if (timed === 0) return [Array(phases).fill(false)];
+  if (timed === phases) return [Array(phases).fill(true)];
+  return [
+    ...listTimedPhases(phases - 1, timed - 1).map(rest => [true, ...rest]),
+    ...listTimedPhases(phases - 1, timed).map(rest => [false, ...rest]),
+  ];
+};
+
+// Plays one recorded move. When only some phases timed out any of them can be
+// the ones; each spends the same random number, so the first that fits is kept.
+const playMove = (
+  gameState: GameState,
+  diceOperations: Operation[],
+  finalOperation: Operation | null,
+  timedPhases: number,
+): GameState | null => {
+  const rolled = dispatch(gameState, { type: 'ROLL_DICE' });
+  const operations = [...diceOperations, finalOperation];
+
+  for (const timed of listTimedPhases(operations.length, timedPhases)) {
+    const played = operations.reduce<GameState | null>(
+      (state, operation, index) => state && playPhase(state, operation, timed[index]),
+      rolled,
+    );
+    if (played) return played;
+  }
+  return null;
+};
+
+const sameDice = (a: DiceResults, b: DiceResults): boolean => {
+  return a.length === b.length && a.every((die, index) => die === b[index]);
+};
+
+// A forced move does not say how many phases ran out. The next dice roll, or
+// the saved random state after the last move, tells them apart.
+const countTimedPhases = (gameState: GameState, game: GameState, index: number): number => {
+  const move = game.moves[index];
+  if (!move.forced) return 0;
+
+  const nextMove: GameMove | undefined = game.moves[index + 1];
+  const phases = move.diceOperations.length + 1;
+  for (let timedPhases = 1; timedPhases <= phases; timedPhases++) {
+    const played = playMove(gameState, move.diceOperations, move.finalOperation, timedPhases);
+    if (!played) continue;
+    if (nextMove || game.diceResults) {
+      const expected = nextMove ? nextMove.diceResults : game.diceResults!;
+      const { diceResults } = dispatch(played, { type: 'ROLL_DICE' });
+      if (sameDice(diceResults!, expected)) return timedPhases;
+    } else if (played.rngState === game.rngState) {
+      return timedPhases;
+    }
+  }
+  throw new GameError('INVALID_SHARE_CODE');
+};
+
+// The dice operations of the unfinished turn, marking the ones the timer
+// picked. The random state after them tells which those were.
+const encodeTurn = (gameState: GameState, game: GameState): string => {
+  const rolled = dispatch(gameState, { type: 'ROLL_DICE' });
+  const operations = game.diceOperations;
+  const candidates = game.turnForced && operations.length > 0
+    ? operations.flatMap((_, index) => listTimedPhases(operations.length, index + 1))
+    : [operations.map(() => false)];
+
+  const timed =
+    candidates.find(flags => {
+      const played = operations.reduce<GameState | null>(
+        (state, operation, index) => state && playPhase(state, operation, flags[index]),
+        rolled,
+      );
+      return played?.rngState === game.rngState;
+    }) ?? candidates[0];
+  const letters = operations.map(
+    (operation, index) => OPERATION_CODES[operation] + (timed[index] ? '1' : ''),
+  );
+  return `r${letters.join('')}`;
+};
+
+export const encodeGame = (game: GameState): string => {
+  const preset = getRulePreset(game.rules.presetId);
+  const payload: SharePayload = {
+    seed: game.seed,
+    mode: game.mode,
+    rules: preset && sameRules(preset, game.rules) ? preset.presetId : game.rules,
+    players: game.players.map(player => [player.name, player.bot ?? null]),
+    moves: '',
+    turn: null,
+    ...(isTeamGame(game) ? { teams: true as const } : {}),
+  };
+
+  let state = startGame(payload, game.rules);
+  game.moves.forEach((move, index) => {
+    const timedPhases = countTimedPhases(state, game, index);
+    const operations = [...move.diceOperations, move.finalOperation];
+    payload.moves +=
+      operations.map(operation => (operation ? OPERATION_CODES[operation] : SKIP_CODE)).join('') +
+      (timedPhases > 0 ? `${timedPhases}` : '');
+    state = playMove(state, move.diceOperations, move.finalOperation, timedPhases)!;
+  });
+
+  if (game.gamePhase !== 'roll') {
+    payload.turn = encodeTurn(state, game);
+  }
+
+  const body = `${CODE_PREFIX}${SHARE_CODE_VERSION}.${toBase64Url(toUtf8(JSON.stringify(payload)))}`;
+  return `${body}.${checksum(body)}`;
+};
+
+const isSharePlayer = (player: unknown): player is [string, BotDifficulty | null] =>
+  Array.isArray(player) &&
+  player.length === 2 &&
+  typeof player[0] === 'string' &&
+  BOTS.includes(player[1]);
+
+// A field that is not a number reads as NaN, which validateRules turns down
+const readNumber = (value: unknown): number => (typeof value === 'number' ? value : NaN);
+
+const readDice = (dice: unknown): DiceConfig | null => {
+  // Custom rules shared before dice were configurable always used two d6
+  if (dice === undefined) {
+    return STANDARD_DICE;
+  }
+  if (!isRecord(dice) || !Array.isArray(dice.faces)) {
+    return null;
+  }
+  return { count: readNumber(dice.count), faces: dice.faces.map(readNumber) };
+};
+
+const readWinCondition = (winCondition: unknown): WinCondition | null => {
+  if (!isRecord(winCondition)) {
+    return null;
+  }
+  switch (winCondition.type) {
+    case 'exact':
+    case 'bust':
+      return { type: winCondition.type };
+    case 'closest':
+      return { type: 'closest', rounds: readNumber(winCondition.rounds) };
+    case 'targets':
+      return { type: 'targets', targets: readNumber(winCondition.targets) };
+    default:
+      return null;
+  }
+};
+
+// Custom rules are whatever the code holds until validateRules has looked at them
+const readRules = (rules: unknown): GameRules | null => {
+  if (typeof rules === 'string') {
+    return getRulePreset(rules as RulePresetId);
+  }
+  if (!isRecord(rules)) {
+    return null;
+  }
+  const { presetId, operations } = rules;
+  const dice = readDice(rules.dice);
+  const winCondition = readWinCondition(rules.winCondition);
+  if (
+    !PRESET_IDS.includes(presetId as RulePresetId) ||
+    !Array.isArray(operations) ||
+    !operations.every(isOperation) ||
+    dice === null ||
+    winCondition === null
+  ) {
+    return null;
+  }
+  const read: GameRules = {
+    presetId: presetId as RulePresetId,
+    initialNumber: readNumber(rules.initialNumber),
+    minTarget: readNumber(rules.minTarget),
+    maxTarget: readNumber(rules.maxTarget),
+    diceOperationTime: readNumber(rules.diceOperationTime),
+    finalOperationTime: readNumber(rules.finalOperationTime),
+    timeBank: readNumber(rules.timeBank),
+    operations,
+    dice,
+    winCondition,
+    minPlayers: readNumber(rules.minPlayers),
+    maxPlayers: readNumber(rules.maxPlayers),
+  };
+  return validateRules(read) === null ? read : null;
+};
+
+const readPayload = (data: unknown): { payload: SharePayload; rules: GameRules } => {
+  if (!isRecord(data)) {
+    throw new GameError('INVALID_SHARE_CODE');
+  }
+  const rules = readRules(data.rules);
+  const { seed, mode, players, teams, moves, turn } = data;
+
+  if (
+    rules === null ||
+    typeof seed !== 'number' ||
+    !Number.isInteger(seed) ||
+    !MODES.includes(mode as GameMode) ||
+    !Array.isArray(players) ||
+    players.length < rules.minPlayers ||
+    players.length > rules.maxPlayers ||
+    !players.every(isSharePlayer) ||
+    !(teams === undefined || (teams === true && players.length === TEAM_PLAYER_COUNT)) ||
+    typeof moves !== 'string' ||
+    !getMovePattern(rules.dice.count).test(moves) ||
+    !(turn === null || (typeof turn === 'string' && TURN_PATTERN.test(turn)))
+  ) {
+    throw new GameError('INVALID_SHARE_CODE');
+  }
+  return {
+    payload: {
+      seed,
+      mode: mode as GameMode,
+      rules: typeof data.rules === 'string' ? (data.rules as RulePresetId) : rules,
+      players,
+      ...(teams ? { teams } : {}),
+      moves,
+      turn,
+    },
+    rules,
+  };
+};
+
+const replayPayload = (payload: SharePayload, rules: GameRules): GameState => {
+  let state = startGame(payload, rules);
+  for (const [, letters, timed] of payload.moves.matchAll(getMoveToken(rules.dice.count))) {
+    const skipped = letters.endsWith(SKIP_CODE);
+    const operations = [...letters.replace(SKIP_CODE, '')].map(letter => CODE_OPERATIONS[letter]);
+    const final = skipped ? null : operations.pop()!;
+    const played = playMove(state, operations, final, Number(timed || 0));
+    if (!played) {
+      throw new GameError('SHARE_CODE_TAMPERED');
+    }
+    state = played;
+  }
+
+  if (payload.turn) {
+    state = dispatch(state, { type: 'ROLL_DICE' });
+    for (const [, letter, timed] of payload.turn.matchAll(TURN_TOKEN)) {
+      const combined =
+        state.gamePhase === 'dice-operation'
+          ? playPhase(state, CODE_OPERATIONS[letter], timed === '1')
+          : null;
+      if (!combined) {
+        throw new GameError('SHARE_CODE_TAMPERED');
+      }
+      state = combined;
+    }
+  }
+  return state;
+};
+
+// Rebuilds the shared game by running its moves through the engine and marks
+// it imported. Throws a GameError for malformed codes, codes from another
+// version and edited codes.
+export const decodeGame = (code: string): GameState => {
+  const parts = code.trim().split('.');
+  const version = /^NC(\d+)$/.exec(parts[0] ?? '');
+  if (parts.length !== 3 || !version) {
+    throw new GameError('INVALID_SHARE_CODE');
+  }
+  if (Number(version[1]) !== SHARE_CODE_VERSION) {
+    throw new GameError('SHARE_CODE_VERSION');
+  }
+  if (checksum(`${parts[0]}.${parts[1]}`) !== parts[2]) {
+    throw new GameError('SHARE_CODE_TAMPERED');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fromUtf8(fromBase64Url(parts[1])));
+  } catch {
+    throw new GameError('INVALID_SHARE_CODE');
+  }
+  const { payload, rules } = readPayload(data);
+
+  try {
+    return { ...replayPayload(payload, rules), imported: true };
+  } catch (error) {
+    // A move the engine refuses can only come from an edited code; anything
+    // else is a code this version cannot read
+    throw new GameError(error instanceof GameError ? 'SHARE_CODE_TAMPERED' : 'INVALID_SHARE_CODE');
+  }
+};
@@ -0,0 +1,241 @@
+import { DiceConfig, DiceResults, GameMove, Operation, TurnOutcome } from '../types/gameTypes';
+import { STANDARD_DICE } from './diceService';
+import { applyOperation, canApplyOperation, listTurnOutcomes } from './gameService';
+import { CLASSIC_RULES } from './rulesService';
+
+// Turns further away than this are reported as null ("far")
+export const MAX_SEARCH_TURNS = 6;
+
+export interface TurnAnalysis extends TurnOutcome {
+  distance: number;
+  // Fewest turns still needed after this move, assuming the best roll every
+  // turn. It is a lower bound, not a promise.
+  turnsLeft: number | null;
+}
+
+export interface MoveRating {
+  move: GameMove;
+  chosenTurnsLeft: number | null;
+  bestTurnsLeft: number | null;
+  // 0 for an optimal move, otherwise how many extra turns it costs
+  turnsLost: number | null;
+}
+
+// Past this many (number, dice value) pairs the table would take too long to
+// build on a phone; estimates then report null and hints go by distance alone
+const MAX_TABLE_SIZE = 2_000_000;
+
+interface DistanceTable {
+  targetNumber: number;
+  // Operations and dice joined into one string, the cache key next to the target
+  operationKey: string;
+  minValue: number;
+  maxValue: number;
+  // Indexed by value - minValue
+  turns: Int8Array;
+}
+
+let cachedTable: DistanceTable | null = null;
+
+// Numbers far from the target are rarely worth passing through, so the
+// search stays inside [-limit, limit]. Minus keeps its sign, so a line can
+// dip below zero and come back.
+const searchLimit = (targetNumber: number): number => {
+  return Math.max(Math.abs(targetNumber) * 3, 100) + 36;
+};
+
+// Every value the dice chain can produce, whatever the roll, built one die at
+// a time. A value more than twice the search limit away from zero cannot
+// bring a number inside the limit back inside it, so such values are dropped.
+// With three or more dice that also drops a few chains that would have come
+// back down, which only makes estimates a little cautious.
+const listDiceValues = (operations: Operation[], dice: DiceConfig, limit: number): number[] => {
+  let values = new Set(dice.faces);
+  for (let die = 1; die < dice.count; die++) {
+    const next = new Set<number>();
+    values.forEach(value => {
+      dice.faces.forEach(face => {
+        operations.forEach(operation => {
+          if (!canApplyOperation(value, face, operation)) return;
+          const result = applyOperation(value, face, operation);
+          if (Math.abs(result) <= limit * 2) next.add(result);
+        });
+      });
+    });
+    values = next;
+  }
+  return [...values].sort((a, b) => a - b);
+};
+
+const getTableKey = (operations: Operation[], dice: DiceConfig): string => {
+  return `${operations.join(' ')} ${dice.count}:${dice.faces.join(',')}`;
+};
+
+// turns[v - minValue] = fewest turns from v to the target (-1 when more than
+// MAX_SEARCH_TURNS). Built backwards one turn at a time.
+const buildDistanceTable = (
+  targetNumber: number,
+  operations: Operation[],
+  dice: DiceConfig,
+): DistanceTable => {
+  const maxValue = searchLimit(targetNumber);
+  const minValue = -maxValue;
+  const diceValues = listDiceValues(operations, dice, maxValue);
+  const turns = new Int8Array(maxValue - minValue + 1).fill(-1);
+  const operationKey = getTableKey(operations, dice);
+  if (diceValues.length * turns.length > MAX_TABLE_SIZE) {
+    return { targetNumber, operationKey, minValue, maxValue, turns };
+  }
+  const inRange = (value: number) => value >= minValue && value <= maxValue;
+  if (inRange(targetNumber)) {
+    turns[targetNumber - minValue] = 0;
+  }
+
+  for (let turn = 1; turn <= MAX_SEARCH_TURNS; turn++) {
+    let changed = false;
+    for (let value = minValue; value <= maxValue; value++) {
+      if (turns[value - minValue] !== -1) continue;
+
+      const reachesFrontier = diceValues.some(diceValue =>
+        operations.some(operation => {
+          if (!canApplyOperation(value, diceValue, operation)) return false;
+          const next = applyOperation(value, diceValue, operation);
+          return inRange(next) && turns[next - minValue] === turn - 1;
+        }),
+      );
+      if (reachesFrontier) {
+        turns[value - minValue] = turn;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return { targetNumber, operationKey, minValue, maxValue, turns };
+};
+
+const getDistanceTable = (
+  targetNumber: number,
+  operations: Operation[],
+  dice: DiceConfig,
+): DistanceTable => {
+  if (
+    !cachedTable ||
+    cachedTable.targetNumber !== targetNumber ||
+    cachedTable.operationKey !== getTableKey(operations, dice)
+  ) {
+    cachedTable = buildDistanceTable(targetNumber, operations, dice);
+  }
+  return cachedTable;
+};
+
+export const estimateTurnsToTarget = (
+  value: number,
+  targetNumber: number,
+  operations: Operation[] = CLASSIC_RULES.operations,
+  dice: DiceConfig = STANDARD_DICE,
+): number | null => {
+  if (value === targetNumber) return 0;
+
+  const table = getDistanceTable(targetNumber, operations, dice);
+  if (value < table.minValue || value > table.maxValue) {
+    return null;
+  }
+  const turns = table.turns[value - table.minValue];
+  return turns === -1 ? null : turns;
+};
+
+// null sorts after every number
+const compareTurns = (a: number | null, b: number | null): number => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+// Every legal move for the roll, best first
+export const analyzeTurn = (
+  currentNumber: number,
+  diceResults: DiceResults,
+  targetNumber: number,
+  operations: Operation[] = CLASSIC_RULES.operations,
+  dice: DiceConfig = STANDARD_DICE,
+): TurnAnalysis[] => {
+  return listTurnOutcomes(currentNumber, diceResults, operations)
+    .map(outcome => ({
+      ...outcome,
+      distance: Math.abs(targetNumber - outcome.result),
+      turnsLeft: estimateTurnsToTarget(outcome.result, targetNumber, operations, dice),
+    }))
+    .sort((a, b) => compareTurns(a.turnsLeft, b.turnsLeft) || a.distance - b.distance);
+};
+
+// The best move that keeps the dice operations already played this turn
+export const findBestMove = (
+  currentNumber: number,
+  diceResults: DiceResults,
+  targetNumber: number,
+  chosenDiceOperations: Operation[] = [],
+  operations: Operation[] = CLASSIC_RULES.operations,
+  dice: DiceConfig = STANDARD_DICE,
+): TurnAnalysis | null => {
+  const analysis = analyzeTurn(currentNumber, diceResults, targetNumber, operations, dice);
+  const candidates = analysis.filter(a =>
+    chosenDiceOperations.every((operation, index) => a.diceOperations[index] === operation),
+  );
+  return candidates[0] ?? null;
+};
+
+// Each move is rated against the target it was played for
+export const rateMove = (
+  move: GameMove,
+  operations: Operation[] = CLASSIC_RULES.operations,
+  dice: DiceConfig = STANDARD_DICE,
+): MoveRating => {
+  const { targetNumber } = move;
+  const best = findBestMove(move.previousNumber, move.diceResults, targetNumber, [], operations, dice);
+  const chosenTurnsLeft = estimateTurnsToTarget(move.newNumber, targetNumber, operations, dice);
+  const bestTurnsLeft = best ? best.turnsLeft : null;
+
+  let turnsLost: number | null = 0;
+  if (compareTurns(chosenTurnsLeft, bestTurnsLeft) > 0) {
+    turnsLost =
+      chosenTurnsLeft === null || bestTurnsLeft === null ? null : chosenTurnsLeft - bestTurnsLeft;
+  }
+
+  return { move, chosenTurnsLeft, bestTurnsLeft, turnsLost };
+};
+
+export const rateMoves = (
+  moves: GameMove[],
+  operations: Operation[] = CLASSIC_RULES.operations,
+  dice: DiceConfig = STANDARD_DICE,
+): MoveRating[] => {
+  return moves.map(move => rateMove(move, operations, dice));
+};
+
+// Fewest turns to hit the target when every roll is known in advance, as in
+// the daily challenge. A plain breadth-first search over the numbers reachable
+// after each roll; null when the rolls run out first.
+export const findFewestTurns = (
+  startNumber: number,
+  targetNumber: number,
+  diceSequence: DiceResults[],
+  operations: Operation[] = CLASSIC_RULES.operations,
+): number | null => {
+  if (startNumber === targetNumber) return 0;
+
+  const limit = searchLimit(targetNumber);
+  let reachable = new Set([startNumber]);
+  for (let turn = 0; turn < diceSequence.length; turn++) {
+    const next = new Set<number>();
+    reachable.forEach(value => {
+      listTurnOutcomes(value, diceSequence[turn], operations).forEach(({ result }) => {
+        if (Math.abs(result) <= limit) next.add(result);
+      });
+    });
+    if (next.has(targetNumber)) return turn + 1;
+    reachable = next;
+  }
+  return null;
+};
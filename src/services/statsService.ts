@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GameState, Operation } from '../types/gameTypes';
+import { asRecord, isNumber, isRecord, readTable } from './jsonService';
+import { OPERATIONS } from './operationService';
+import { isTeammate } from './teamService';
+
+const PLAYER_STATS_KEY = '@numclash/playerStats';
+
+export interface PlayerStats {
+  name: string;
+  gamesPlayed: number;
+  wins: number;
+  // Sum of the winner's own turns over all won games
+  turnsToWinTotal: number;
+  totalMoves: number;
+  forcedMoves: number;
+  operationCounts: Record<Operation, number>;
+}
+
+// Stats are keyed by a normalized player name
+export type PlayerStatsTable = Record<string, PlayerStats>;
+
+export type LeaderboardMetric =
+  | 'wins'
+  | 'gamesPlayed'
+  | 'winRate'
+  | 'averageTurnsToWin'
+  | 'forcedMoves'
+  | Operation;
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = [
+  'wins',
+  'gamesPlayed',
+  'winRate',
+  'averageTurnsToWin',
+  'forcedMoves',
+  ...OPERATIONS,
+];
+
+const getPlayerKey = (name: string): string => {
+  return name.trim().toLocaleLowerCase('tr-TR');
+};
+
+const createPlayerStats = (name: string): PlayerStats => ({
+  name,
+  gamesPlayed: 0,
+  wins: 0,
+  turnsToWinTotal: 0,
+  totalMoves: 0,
+  forcedMoves: 0,
+  operationCounts: OPERATIONS.reduce(
+    (counts, operation) => ({ ...counts, [operation]: 0 }),
+    {} as Record<Operation, number>,
+  ),
+});
+
+export const getWinRate = (stats: PlayerStats): number => {
+  return stats.gamesPlayed === 0 ? 0 : stats.wins / stats.gamesPlayed;
+};
+
+export const getAverageTurnsToWin = (stats: PlayerStats): number | null => {
+  return stats.wins === 0 ? null : stats.turnsToWinTotal / stats.wins;
+};
+
+export const getMetricValue = (stats: PlayerStats, metric: LeaderboardMetric): number | null => {
+  switch (metric) {
+    case 'wins':
+    case 'gamesPlayed':
+    case 'forcedMoves':
+      return stats[metric];
+    case 'winRate':
+      return getWinRate(stats);
+    case 'averageTurnsToWin':
+      return getAverageTurnsToWin(stats);
+    default:
+      return stats.operationCounts[metric] ?? 0;
+  }
+};
+
+// Fewer turns to win is better; for everything else more is better.
+// Players without a value go last.
+export const sortLeaderboard = (
+  table: PlayerStatsTable,
+  metric: LeaderboardMetric,
+): PlayerStats[] => {
+  const ascending = metric === 'averageTurnsToWin';
+  return Object.values(table).sort((a, b) => {
+    const valueA = getMetricValue(a, metric);
+    const valueB = getMetricValue(b, metric);
+    if (valueA === valueB) return a.name.localeCompare(b.name, 'tr-TR');
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    return ascending ? valueA - valueB : valueB - valueA;
+  });
+};
+
+// Pure merge of one finished game into the table
+export const addGameToStats = (table: PlayerStatsTable, game: GameState): PlayerStatsTable => {
+  const nextTable = { ...table };
+
+  game.players.forEach(player => {
+    const key = getPlayerKey(player.name);
+    const previous = nextTable[key] ?? createPlayerStats(player.name);
+    const playerMoves = game.moves.filter(move => move.playerId === player.id);
+    // In team games both members of the winning team get the win
+    const isWinner = game.winner ? isTeammate(player, game.winner) : false;
+
+    const operationCounts = { ...previous.operationCounts };
+    playerMoves.forEach(move => {
+      // A skipped turn has no final operation
+      const operations = move.finalOperation
+        ? [...move.diceOperations, move.finalOperation]
+        : move.diceOperations;
+      operations.forEach(operation => {
+        operationCounts[operation] = (operationCounts[operation] ?? 0) + 1;
+      });
+    });
+
+    nextTable[key] = {
+      ...previous,
+      name: player.name,
+      gamesPlayed: previous.gamesPlayed + 1,
+      wins: previous.wins + (isWinner ? 1 : 0),
+      turnsToWinTotal: previous.turnsToWinTotal + (isWinner ? playerMoves.length : 0),
+      totalMoves: previous.totalMoves + playerMoves.length,
+      forcedMoves: previous.forcedMoves + playerMoves.filter(move => move.forced).length,
+      operationCounts,
+    };
+  });
+
+  return nextTable;
+};
+
+// Counts missing from older tables start at 0
+const readPlayerStats = (entry: unknown): PlayerStats | null => {
+  if (!isRecord(entry) || typeof entry.name !== 'string') return null;
+  const { gamesPlayed, wins, turnsToWinTotal, totalMoves, forcedMoves } = entry;
+  const stats = createPlayerStats(entry.name);
+  const storedCounts = asRecord(entry.operationCounts);
+  OPERATIONS.forEach(operation => {
+    const count = storedCounts[operation];
+    stats.operationCounts[operation] = isNumber(count) ? count : 0;
+  });
+  return {
+    ...stats,
+    gamesPlayed: isNumber(gamesPlayed) ? gamesPlayed : 0,
+    wins: isNumber(wins) ? wins : 0,
+    turnsToWinTotal: isNumber(turnsToWinTotal) ? turnsToWinTotal : 0,
+    totalMoves: isNumber(totalMoves) ? totalMoves : 0,
+    forcedMoves: isNumber(forcedMoves) ? forcedMoves : 0,
+  };
+};
+
+export const loadPlayerStats = async (): Promise<PlayerStatsTable> => {
+  try {
+    const raw = await AsyncStorage.getItem(PLAYER_STATS_KEY);
+    return raw ? readTable(JSON.parse(raw), readPlayerStats) : {};
+  } catch (error) {
+    console.error('İstatistikler okunamadı:', error);
+    return {};
+  }
+};
+
+export const recordFinishedGame = async (game: GameState): Promise<void> => {
+  // Games opened from a share code were played by someone else
+  if (!game.winner || game.imported) return;
+
+  try {
+    const table = await loadPlayerStats();
+    await AsyncStorage.setItem(PLAYER_STATS_KEY, JSON.stringify(addGameToStats(table, game)));
+  } catch (error) {
+    console.error('İstatistikler kaydedilemedi:', error);
+  }
+};
+
+export const clearPlayerStats = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(PLAYER_STATS_KEY);
+  } catch (error) {
+    console.error('İstatistikler silinemedi:', error);
+  }
+};
@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GamePhase, GameState } from '../types/gameTypes';
+import { getPhaseBudget } from './clockService';
+import { STANDARD_DICE } from './diceService';
+import { JsonRecord, asRecord, isRecord } from './jsonService';
+import { BASIC_OPERATIONS } from './operationService';
+import { CLASSIC_RULES } from './rulesService';
+import { DEFAULT_WIN_CONDITION } from './winConditionService';
+
+const SAVED_GAME_KEY = '@numclash/savedGame';
+
+// Bump this and add a step to SAVE_MIGRATIONS whenever GameState changes shape
+export const SAVE_SCHEMA_VERSION = 6;
+
+export interface SavedGame {
+  version: number;
+  savedAt: string;
+  state: GameState;
+}
+
+// A save as read from storage, before it is known to match GameState
+interface RawSave extends JsonRecord {
+  version: number;
+  state: JsonRecord;
+}
+
+type SaveMigration = (data: RawSave) => RawSave;
+
+// SAVE_MIGRATIONS[n] upgrades a version n save to version n + 1
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v2: rule sets; every older game was played with the classic rules
+  1: data => ({ ...data, state: { ...data.state, rules: CLASSIC_RULES } }),
+  // v3: phase clock; the interrupted phase starts over with a full budget
+  2: data => {
+    const rules: JsonRecord = { ...asRecord(data.state.rules), timeBank: 0 };
+    const phase = data.state.gamePhase;
+    const timings = {
+      diceOperationTime: Number(rules.diceOperationTime),
+      finalOperationTime: Number(rules.finalOperationTime),
+    };
+    const clock = {
+      phaseTimeLeft:
+        phase === 'dice-operation' || phase === 'final-operation'
+          ? getPhaseBudget(timings, phase)
+          : 0,
+      bankTimeLeft: null,
+      paused: false,
+    };
+    return { ...data, state: { ...data.state, rules, clock } };
+  },
+  // v4: operations per rule set; older games only knew the basic four
+  3: data => ({
+    ...data,
+    state: { ...data.state, rules: { ...asRecord(data.state.rules), operations: BASIC_OPERATIONS } },
+  }),
+  // v5: win conditions; every older game was won by an exact hit on one target
+  4: data => ({
+    ...data,
+    state: {
+      ...data.state,
+      rules: { ...asRecord(data.state.rules), winCondition: DEFAULT_WIN_CONDITION },
+      winReason: data.state.winner ? 'exact' : null,
+      moves: Array.isArray(data.state.moves)
+        ? data.state.moves.map(move => ({ ...asRecord(move), targetNumber: data.state.targetNumber }))
+        : [],
+    },
+  }),
+  // v6: dice chains; older games rolled two d6 joined by a single operation
+  5: data => {
+    const { diceOperation, ...state } = data.state;
+    const toChain = (operation: unknown) => (operation ? [operation] : []);
+    return {
+      ...data,
+      state: {
+        ...state,
+        rules: { ...asRecord(state.rules), dice: STANDARD_DICE },
+        diceOperations: toChain(diceOperation),
+        moves: Array.isArray(state.moves)
+          ? state.moves.map(move => {
+              const { diceOperation: moveOperation, ...rest } = asRecord(move);
+              return { ...rest, diceOperations: toChain(moveOperation) };
+            })
+          : [],
+      },
+    };
+  },
+};
+
+const GAME_PHASES: GamePhase[] = ['roll', 'dice-operation', 'final-operation'];
+
+// The fields a broken save would crash the game screen on first
+const hasGameShape = (state: JsonRecord): state is JsonRecord & GameState => {
+  const { players, rules, gamePhase, clock, moves } = state;
+  return (
+    Array.isArray(players) &&
+    players.length > 0 &&
+    players.every(isRecord) &&
+    isRecord(rules) &&
+    isRecord(rules.dice) &&
+    Array.isArray(rules.operations) &&
+    GAME_PHASES.includes(gamePhase as GamePhase) &&
+    isRecord(clock) &&
+    typeof clock.phaseTimeLeft === 'number' &&
+    Array.isArray(moves)
+  );
+};
+
+export const migrateSavedGame = (data: unknown): SavedGame | null => {
+  if (!isRecord(data) || typeof data.version !== 'number' || !isRecord(data.state)) {
+    return null;
+  }
+
+  let migrated: RawSave = { ...data, version: data.version, state: data.state };
+  while (migrated.version < SAVE_SCHEMA_VERSION) {
+    const migration = SAVE_MIGRATIONS[migrated.version];
+    if (!migration) {
+      return null;
+    }
+    migrated = { ...migration(migrated), version: migrated.version + 1 };
+  }
+
+  // Saves from a newer app version cannot be read safely
+  if (migrated.version !== SAVE_SCHEMA_VERSION) {
+    return null;
+  }
+  const { savedAt, state } = migrated;
+  if (!hasGameShape(state)) {
+    return null;
+  }
+  return { version: migrated.version, savedAt: typeof savedAt === 'string' ? savedAt : '', state };
+};
+
+export const saveGame = async (state: GameState): Promise<void> => {
+  const savedGame: SavedGame = {
+    version: SAVE_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+  };
+  try {
+    await AsyncStorage.setItem(SAVED_GAME_KEY, JSON.stringify(savedGame));
+  } catch (error) {
+    console.error('Oyun kaydedilemedi:', error);
+  }
+};
+
+export const loadSavedGame = async (): Promise<GameState | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(SAVED_GAME_KEY);
+    if (!raw) {
+      return null;
+    }
+    const savedGame = migrateSavedGame(JSON.parse(raw));
+    if (!savedGame || savedGame.state.winner) {
+      return null;
+    }
+    return savedGame.state;
+  } catch (error) {
+    console.error('Kayıtlı oyun okunamadı:', error);
+    return null;
+  }
+};
+
+export const clearSavedGame = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(SAVED_GAME_KEY);
+  } catch (error) {
+    console.error('Kayıtlı oyun silinemedi:', error);
+  }
+};
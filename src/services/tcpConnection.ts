@@ -0,0 +1,123 @@
+import NetInfo from '@react-native-community/netinfo';
+import TcpSocket from 'react-native-tcp-socket';
+import { isRecord } from './jsonService';
+import { LAN_DEFAULT_PORT, PeerConnection } from './multiplayerProtocol';
+
+// Phones cannot run a WebSocket server, so devices talk over plain TCP with one
+// JSON message per line. JSON.stringify never writes a raw newline.
+const MESSAGE_SEPARATOR = '\n';
+
+// The part of a TCP socket shared by react-native-tcp-socket and Node's `net`
+export interface TcpSocketLike {
+  write: (data: string) => unknown;
+  destroy: () => unknown;
+  setEncoding: (encoding: 'utf8') => unknown;
+  on: (event: 'connect' | 'data' | 'close' | 'error', listener: (data?: unknown) => void) => unknown;
+}
+
+export interface TcpServerLike {
+  listen: (options: { port: number; host: string }, callback: () => void) => unknown;
+  address: () => unknown;
+  close: () => unknown;
+  on: (event: 'error', listener: (error: Error) => void) => unknown;
+}
+
+export type CreateTcpServer = (onSocket: (socket: TcpSocketLike) => void) => TcpServerLike;
+
+export type ConnectTcpSocket = (options: { host: string; port: number }) => TcpSocketLike;
+
+const createDeviceServer: CreateTcpServer = onSocket => TcpSocket.createServer(onSocket);
+
+const connectDeviceSocket: ConnectTcpSocket = options => TcpSocket.createConnection(options, () => {});
+
+// Messages sent before a client socket connects are queued instead of lost
+export const wrapTcpSocket = (socket: TcpSocketLike, connected = true): PeerConnection => {
+  const messageHandlers: ((data: string) => void)[] = [];
+  const closeHandlers: (() => void)[] = [];
+  const pending: string[] = [];
+  let isConnected = connected;
+  let buffer = '';
+
+  const write = (data: string) => {
+    socket.write(data + MESSAGE_SEPARATOR);
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('connect', () => {
+    isConnected = true;
+    pending.splice(0).forEach(write);
+  });
+  // A message can arrive split over several chunks, or several in one chunk
+  socket.on('data', chunk => {
+    const lines = (buffer + String(chunk)).split(MESSAGE_SEPARATOR);
+    buffer = lines.pop() ?? '';
+    lines
+      .filter(line => line.length > 0)
+      .forEach(line => messageHandlers.forEach(handler => handler(line)));
+  });
+  socket.on('close', () => {
+    closeHandlers.forEach(handler => handler());
+  });
+  // A failed socket also closes; without a listener the error would be thrown
+  socket.on('error', () => {});
+
+  return {
+    send: data => {
+      if (isConnected) {
+        write(data);
+      } else {
+        pending.push(data);
+      }
+    },
+    close: () => {
+      socket.destroy();
+    },
+    onMessage: handler => {
+      messageHandlers.push(handler);
+    },
+    onClose: handler => {
+      closeHandlers.push(handler);
+    },
+  };
+};
+
+export interface LanServer {
+  port: number;
+  close: () => void;
+}
+
+// Resolves once the server listens on every interface; rejects if the port is taken
+export const startLanServer = (
+  onConnection: (connection: PeerConnection) => void,
+  port = LAN_DEFAULT_PORT,
+  createServer: CreateTcpServer = createDeviceServer,
+): Promise<LanServer> => {
+  return new Promise((resolve, reject) => {
+    const server = createServer(socket => onConnection(wrapTcpSocket(socket)));
+    server.on('error', reject);
+    server.listen({ port, host: '0.0.0.0' }, () => {
+      const address = server.address();
+      resolve({
+        port: isRecord(address) && typeof address.port === 'number' ? address.port : port,
+        close: () => {
+          server.close();
+        },
+      });
+    });
+  });
+};
+
+export const connectToLanHost = (
+  host: string,
+  port = LAN_DEFAULT_PORT,
+  connect: ConnectTcpSocket = connectDeviceSocket,
+): PeerConnection => {
+  return wrapTcpSocket(connect({ host, port }), false);
+};
+
+// The address other devices type in to join; null when not on Wi-Fi or Ethernet
+export const getLanAddress = async (): Promise<string | null> => {
+  const state = await NetInfo.fetch();
+  const details = state.details;
+  return isRecord(details) && typeof details.ipAddress === 'string' ? details.ipAddress : null;
+};
@@ -0,0 +1,41 @@
+import { GameState, Player } from '../types/gameTypes';
+
+// 2v2 is the only team layout for now
+export const TEAM_COUNT = 2;
+export const TEAM_PLAYER_COUNT = 4;
+
+// One color per team; teammates' cards share it
+export const TEAM_COLORS = ['#FF6B6B', '#45B7D1'];
+
+// Seats alternate between teams, so plain turn order already goes
+// team A, team B, then the other member of each
+export const getSeatTeam = (seatIndex: number): number => seatIndex % TEAM_COUNT;
+
+export const isTeamGame = (gameState: GameState): boolean => {
+  return gameState.players.some(player => player.team !== undefined);
+};
+
+// Outside team games every player is only on their own side
+export const isTeammate = (player: Player, other: Player): boolean => {
+  return player.id === other.id || (player.team !== undefined && player.team === other.team);
+};
+
+export const getTeamMembers = (players: Player[], player: Player): Player[] => {
+  return players.filter(other => isTeammate(other, player));
+};
+
+// "Ada & Can" for a team, the player's own name otherwise
+export const getSideName = (players: Player[], player: Player): string => {
+  return getTeamMembers(players, player).map(member => member.name).join(' & ');
+};
+
+// Seat indices for the player cards: one group per team, or a single group
+// with everybody when playing without teams
+export const groupSeatsByTeam = (players: Player[]): number[][] => {
+  const seats = players.map((_, index) => index);
+  if (!players.some(player => player.team !== undefined)) return [seats];
+
+  return Array.from({ length: TEAM_COUNT }, (_, team) =>
+    seats.filter(index => players[index].team === team),
+  );
+};
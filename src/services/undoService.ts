@@ -0,0 +1,77 @@
+import { GameState } from '../types/gameTypes';
+import { getCurrentPlayer } from './gameService';
+
+export interface UndoHistory {
+  past: GameState[];
+  present: GameState;
+  future: GameState[];
+}
+
+export const createUndoHistory = (gameState: GameState): UndoHistory => ({
+  past: [],
+  present: gameState,
+  future: [],
+});
+
+// Only the acting player's open phases can be taken back. The final
+// operation hands the turn on and a new roll starts one, so whatever came
+// before either is locked in. Finished games and bot moves are locked as well.
+const isCommitPoint = (previous: GameState, next: GameState): boolean => {
+  const rolled = previous.gamePhase === 'roll' && next.gamePhase === 'dice-operation';
+  const turnEnded = next.moves.length > previous.moves.length;
+  return rolled || turnEnded || next.winner !== null || Boolean(getCurrentPlayer(previous).bot);
+};
+
+export const pushState = (history: UndoHistory, next: GameState): UndoHistory => {
+  if (next === history.present) {
+    return history;
+  }
+  if (history.present.mode !== 'casual' || isCommitPoint(history.present, next)) {
+    return createUndoHistory(next);
+  }
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future: [],
+  };
+};
+
+// Clock updates refresh the current snapshot without adding an undo step
+export const replacePresent = (history: UndoHistory, next: GameState): UndoHistory => {
+  if (next === history.present) {
+    return history;
+  }
+  return { ...history, present: next };
+};
+
+export const canUndo = (history: UndoHistory): boolean => {
+  return history.present.mode === 'casual' && history.past.length > 0;
+};
+
+export const canRedo = (history: UndoHistory): boolean => {
+  return history.present.mode === 'casual' && history.future.length > 0;
+};
+
+export const undo = (history: UndoHistory): UndoHistory => {
+  if (!canUndo(history)) {
+    return history;
+  }
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redo = (history: UndoHistory): UndoHistory => {
+  if (!canRedo(history)) {
+    return history;
+  }
+  const [next, ...future] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+  };
+};
@@ -0,0 +1,156 @@
+import {
+  GameMove,
+  GameState,
+  Player,
+  WinCondition,
+  WinConditionType,
+  WinReason,
+} from '../types/gameTypes';
+import { isTeammate } from './teamService';
+
+export const WIN_CONDITION_TYPES: WinConditionType[] = ['exact', 'closest', 'bust', 'targets'];
+
+export const DEFAULT_WIN_CONDITION: WinCondition = { type: 'exact' };
+
+// Starting values when a mode is picked on the setup screen
+export const WIN_CONDITION_DEFAULTS: Record<WinConditionType, WinCondition> = {
+  exact: DEFAULT_WIN_CONDITION,
+  closest: { type: 'closest', rounds: 10 },
+  bust: { type: 'bust' },
+  targets: { type: 'targets', targets: 3 },
+};
+
+export interface MoveContext {
+  // The state before the move
+  gameState: GameState;
+  // Every player, with the new number already applied to the mover and any teammate
+  players: Player[];
+  move: GameMove;
+}
+
+export interface WinCheck {
+  players: Player[];
+  winner: Player | null;
+  winReason: WinReason | null;
+  // The target was hit without ending the game: numbers reset and a new
+  // target is drawn
+  nextTarget: boolean;
+}
+
+export type WinConditionStrategy = (context: MoveContext) => WinCheck;
+
+const keepPlaying = (players: Player[], nextTarget = false): WinCheck => ({
+  players,
+  winner: null,
+  winReason: null,
+  nextTarget,
+});
+
+const declareWinner = (players: Player[], playerId: number, winReason: WinReason): WinCheck => ({
+  players,
+  winner: players.find(player => player.id === playerId) ?? null,
+  winReason,
+  nextTarget: false,
+});
+
+const isExactHit = (move: GameMove): boolean => move.newNumber === move.targetNumber;
+
+const exactStrategy: WinConditionStrategy = ({ players, move }) => {
+  return isExactHit(move) ? declareWinner(players, move.playerId, 'exact') : keepPlaying(players);
+};
+
+// Ties go to whoever moves earlier in a round
+const closestStrategy: WinConditionStrategy = ({ gameState, players, move }) => {
+  if (isExactHit(move)) return declareWinner(players, move.playerId, 'exact');
+
+  const { winCondition } = gameState.rules;
+  const rounds = winCondition.type === 'closest' ? winCondition.rounds : 0;
+  if (move.turn < rounds * players.length) return keepPlaying(players);
+
+  const firstPlayerId = gameState.moves[0]?.playerId ?? move.playerId;
+  const start = players.findIndex(player => player.id === firstPlayerId);
+  const roundOrder = players.map((_, offset) => players[(start + offset) % players.length]);
+  const distance = (player: Player) => Math.abs(move.targetNumber - player.currentNumber);
+  const nearest = roundOrder.reduce((best, player) =>
+    distance(player) < distance(best) ? player : best,
+  );
+  return declareWinner(players, nearest.id, 'closest');
+};
+
+// A player alone at the table cannot be knocked out, there would be nobody left.
+// Teams go out together since they share the number.
+const bustStrategy: WinConditionStrategy = ({ players, move }) => {
+  if (isExactHit(move)) return declareWinner(players, move.playerId, 'exact');
+  if (move.newNumber <= move.targetNumber || players.length < 2) return keepPlaying(players);
+
+  const mover = players.find(player => player.id === move.playerId)!;
+  const nextPlayers = players.map(player =>
+    isTeammate(player, mover) ? { ...player, eliminated: true } : player,
+  );
+  const standing = nextPlayers.filter(player => !player.eliminated);
+  return standing.every(player => isTeammate(player, standing[0]))
+    ? declareWinner(nextPlayers, standing[0].id, 'lastStanding')
+    : keepPlaying(nextPlayers);
+};
+
+const targetsStrategy: WinConditionStrategy = ({ gameState, players, move }) => {
+  if (!isExactHit(move)) return keepPlaying(players);
+
+  const { winCondition } = gameState.rules;
+  const targets = winCondition.type === 'targets' ? winCondition.targets : 1;
+  const scorer = players.find(player => player.id === move.playerId)!;
+  const nextPlayers = players.map(player =>
+    isTeammate(player, scorer) ? { ...player, targetsWon: (player.targetsWon ?? 0) + 1 } : player,
+  );
+  const targetsWon = (scorer.targetsWon ?? 0) + 1;
+  return targetsWon >= targets
+    ? declareWinner(nextPlayers, scorer.id, 'targets')
+    : keepPlaying(nextPlayers, true);
+};
+
+export const WIN_CONDITIONS: Record<WinConditionType, WinConditionStrategy> = {
+  exact: exactStrategy,
+  closest: closestStrategy,
+  bust: bustStrategy,
+  targets: targetsStrategy,
+};
+
+// Called by the engine after every completed move
+export const evaluateMove = (context: MoveContext): WinCheck => {
+  return WIN_CONDITIONS[context.gameState.rules.winCondition.type](context);
+};
+
+export const isPlayerActive = (player: Player): boolean => !player.eliminated;
+
+// Next seat in turn order that is still in the game
+export const getNextPlayerIndex = (players: Player[], currentIndex: number): number => {
+  for (let offset = 1; offset <= players.length; offset++) {
+    const index = (currentIndex + offset) % players.length;
+    if (isPlayerActive(players[index])) return index;
+  }
+  return currentIndex;
+};
+
+// Final order: the winner and their teammate, then players still in the game
+// by targets hit and by distance to the target; seat order breaks ties
+export const getStandings = (gameState: GameState): Player[] => {
+  const { winner } = gameState;
+  const distance = (player: Player) => Math.abs(gameState.targetNumber - player.currentNumber);
+  const rank = (player: Player): number[] => [
+    winner && isTeammate(player, winner) ? 0 : 1,
+    player.eliminated ? 1 : 0,
+    -(player.targetsWon ?? 0),
+    distance(player),
+  ];
+  return [...gameState.players].sort((a, b) => {
+    const rankA = rank(a);
+    const rankB = rank(b);
+    const index = rankA.findIndex((value, i) => value !== rankB[i]);
+    return index === -1 ? 0 : rankA[index] - rankB[index];
+  });
+};
+
+// 1-based; only meaningful while nobody has been knocked out
+export const getCurrentRound = (gameState: GameState): number => {
+  return Math.floor(gameState.moves.length / gameState.players.length) + 1;
+};
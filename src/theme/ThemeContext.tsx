@@ -0,0 +1,51 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useColorScheme } from 'react-native';
+import { loadThemePreference, saveThemePreference } from '../services/settingsService';
+import { LIGHT_THEME, Theme, ThemePreference, resolveTheme } from './index';
+
+interface ThemeContextValue {
+  theme: Theme;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+// Without a provider everything renders in the light theme
+const ThemeContext = createContext<ThemeContextValue>({
+  theme: LIGHT_THEME,
+  preference: 'system',
+  setPreference: () => {},
+});
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+
+  useEffect(() => {
+    loadThemePreference().then(saved => {
+      if (saved) {
+        setPreferenceState(saved);
+      }
+    });
+  }, []);
+
+  const setPreference = useCallback((nextPreference: ThemePreference) => {
+    setPreferenceState(nextPreference);
+    saveThemePreference(nextPreference);
+  }, []);
+
+  const value = useMemo(
+    () => ({ theme: resolveTheme(preference, systemScheme), preference, setPreference }),
+    [preference, systemScheme, setPreference],
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): ThemeContextValue => useContext(ThemeContext);
+
+// Style sheets are built per theme; pass a module-level factory so the
+// sheet is only rebuilt when the theme changes
+export const useThemedStyles = <T,>(createStyles: (theme: Theme) => T): T => {
+  const { theme } = useTheme();
+  return useMemo(() => createStyles(theme), [createStyles, theme]);
+};
@@ -0,0 +1,132 @@
+import { StatusBarStyle } from 'react-native';
+
+export type ThemeName = 'light' | 'dark' | 'highContrast';
+
+// 'system' follows the phone's light/dark setting
+export type ThemePreference = ThemeName | 'system';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'highContrast'];
+
+export interface ThemeColors {
+  background: string;
+  // Cards, modals, buttons
+  surface: string;
+  // Chips, inputs and other insets on a surface
+  surfaceMuted: string;
+  border: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  // Disabled buttons and placeholders
+  textDisabled: string;
+  primary: string;
+  accent: string;
+  warning: string;
+  danger: string;
+  // Text on primary, accent and player colors
+  onPrimary: string;
+  overlay: string;
+  shadow: string;
+  // Hint and notice boxes
+  highlight: string;
+  highlightText: string;
+}
+
+export interface Theme {
+  name: ThemeName;
+  statusBar: StatusBarStyle;
+  colors: ThemeColors;
+}
+
+export const LIGHT_THEME: Theme = {
+  name: 'light',
+  statusBar: 'dark-content',
+  colors: {
+    background: '#f8f9fa',
+    surface: '#fff',
+    surfaceMuted: '#f1f3f5',
+    border: '#e9ecef',
+    text: '#2c3e50',
+    textSecondary: '#495057',
+    textMuted: '#7f8c8d',
+    textDisabled: '#adb5bd',
+    primary: '#4CAF50',
+    accent: '#45B7D1',
+    warning: '#FFA94D',
+    danger: '#e74c3c',
+    onPrimary: '#fff',
+    overlay: 'rgba(0, 0, 0, 0.5)',
+    shadow: '#000',
+    highlight: '#fff9db',
+    highlightText: '#e67700',
+  },
+};
+
+export const DARK_THEME: Theme = {
+  name: 'dark',
+  statusBar: 'light-content',
+  colors: {
+    background: '#121417',
+    surface: '#1e2227',
+    surfaceMuted: '#2a2f36',
+    border: '#343a40',
+    text: '#f1f3f5',
+    textSecondary: '#ced4da',
+    textMuted: '#9aa4ad',
+    textDisabled: '#5c636a',
+    primary: '#66BB6A',
+    accent: '#4FC3F7',
+    warning: '#FFB86B',
+    danger: '#ff6b6b',
+    onPrimary: '#fff',
+    overlay: 'rgba(0, 0, 0, 0.7)',
+    shadow: '#000',
+    highlight: '#3d3520',
+    highlightText: '#ffc078',
+  },
+};
+
+// Pure black and white with saturated accents; borders carry the layout
+// where the other themes rely on shadows
+export const HIGH_CONTRAST_THEME: Theme = {
+  name: 'highContrast',
+  statusBar: 'light-content',
+  colors: {
+    background: '#000',
+    surface: '#000',
+    surfaceMuted: '#1a1a1a',
+    border: '#fff',
+    text: '#fff',
+    textSecondary: '#fff',
+    textMuted: '#e0e0e0',
+    textDisabled: '#8c8c8c',
+    primary: '#00e676',
+    accent: '#00e5ff',
+    warning: '#ffd600',
+    danger: '#ff5252',
+    onPrimary: '#000',
+    overlay: 'rgba(0, 0, 0, 0.85)',
+    shadow: '#000',
+    highlight: '#332b00',
+    highlightText: '#ffd600',
+  },
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  highContrast: HIGH_CONTRAST_THEME,
+};
+
+export const isThemePreference = (value: unknown): value is ThemePreference => {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+};
+
+// A manual choice wins; otherwise the system scheme, light when it is unknown
+export const resolveTheme = (
+  preference: ThemePreference,
+  systemScheme: string | null | undefined,
+): Theme => {
+  if (preference !== 'system') return THEMES[preference];
+  return systemScheme === 'dark' ? DARK_THEME : LIGHT_THEME;
+};
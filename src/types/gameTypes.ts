@@ -1 +1,152 @@
- 
\ No newline at end of file
+// '||' writes the two numbers side by side, see OPERATION_REGISTRY
+export type Operation = '+' | '-' | '*' | '/' | '^' | '%' | '||';
+
+export type GamePhase = 'roll' | 'dice-operation' | 'final-operation';
+
+// One value per die, in the order the dice-operation chain combines them
+export type DiceResults = number[];
+
+// Every die in a game is the same: a standard dN has the faces 1 to N
+export interface DiceConfig {
+  count: number;
+  faces: number[];
+}
+
+// Casual games allow undo, competitive games do not
+export type GameMode = 'casual' | 'competitive';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+// Returns a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export interface Player {
+  id: number;
+  name: string;
+  currentNumber: number;
+  color: string;
+  // Set when the seat is played by the computer
+  bot?: BotDifficulty;
+  // Bust games: out after going over the target
+  eliminated?: boolean;
+  // Multi-target games: targets hit so far
+  targetsWon?: number;
+  // Team games: 0 or 1. Teammates always hold the same currentNumber
+  team?: number;
+}
+
+// 'daily' is only used by the daily challenge and never offered on the setup screen
+export type RulePresetId = 'classic' | 'blitz' | 'marathon' | 'custom' | 'daily';
+
+export type WinCondition =
+  // First to hit the target exactly
+  | { type: 'exact' }
+  // Exact hit, or whoever is nearest once the rounds are played
+  | { type: 'closest'; rounds: number }
+  // Exact hit; going over the target knocks a player out
+  | { type: 'bust' }
+  // First to hit this many targets, a new target after every hit
+  | { type: 'targets'; targets: number };
+
+export type WinConditionType = WinCondition['type'];
+
+export type WinReason = 'exact' | 'closest' | 'lastStanding' | 'targets';
+
+export interface GameRules {
+  presetId: RulePresetId;
+  initialNumber: number;
+  minTarget: number;
+  maxTarget: number;
+  // Seconds per phase
+  diceOperationTime: number;
+  finalOperationTime: number;
+  // Chess-style total seconds per player, spent once a phase runs out; 0 disables it
+  timeBank: number;
+  // Operations players may pick, in button order
+  operations: Operation[];
+  dice: DiceConfig;
+  winCondition: WinCondition;
+  minPlayers: number;
+  maxPlayers: number;
+}
+
+export interface GameOptions {
+  seed?: number;
+  rules?: GameRules;
+  mode?: GameMode;
+  // One entry per seat, null for human seats
+  bots?: (BotDifficulty | null)[];
+  // 2v2: four seats, alternating between two teams
+  teams?: boolean;
+  // Rolls to use in order instead of random dice, see GameState.fixedDice
+  fixedDice?: DiceResults[];
+}
+
+// All times are in milliseconds
+export interface GameClock {
+  // Left in the current phase budget
+  phaseTimeLeft: number;
+  // One entry per seat, null when the rules have no time bank
+  bankTimeLeft: number[] | null;
+  paused: boolean;
+}
+
+export interface GameState {
+  seed: number;
+  rngState: number;
+  mode: GameMode;
+  rules: GameRules;
+  players: Player[];
+  targetNumber: number;
+  currentPlayerIndex: number;
+  diceResults: DiceResults | null;
+  // The dice chain so far: diceOperations[i] joins the running result with
+  // die i + 1, and the final phase starts once every die is in
+  diceCalculationResult: number | null;
+  diceOperations: Operation[];
+  // True once the timer has picked an operation in the current turn
+  turnForced: boolean;
+  winner: Player | null;
+  winReason: WinReason | null;
+  gameStarted: boolean;
+  gamePhase: GamePhase;
+  clock: GameClock;
+  moves: GameMove[];
+  // Puzzle levels: move n rolls fixedDice[n], and nothing can be rolled once
+  // the list runs out
+  fixedDice?: DiceResults[];
+  // Rebuilt from someone else's share code; kept out of your own records
+  imported?: true;
+}
+
+export interface TurnOutcome {
+  diceOperations: Operation[];
+  diceCalculationResult: number;
+  finalOperation: Operation;
+  result: number;
+}
+
+export interface GameMove {
+  turn: number;
+  playerId: number;
+  // The target at the time of the move; multi-target games change it
+  targetNumber: number;
+  diceResults: DiceResults;
+  diceOperations: Operation[];
+  diceCalculationResult: number;
+  // Null when the clock ran out with no operation able to take the numbers;
+  // the turn was skipped and the number stayed the same
+  finalOperation: Operation | null;
+  previousNumber: number;
+  newNumber: number;
+  forced: boolean;
+}
+
+export type GameAction =
+  | { type: 'ROLL_DICE' }
+  | { type: 'SELECT_DICE_OPERATION'; operation: Operation; forced?: boolean }
+  | { type: 'SELECT_FINAL_OPERATION'; operation: Operation; forced?: boolean }
+  | { type: 'TICK'; elapsed: number }
+  | { type: 'TIME_UP' }
+  | { type: 'PAUSE_CLOCK' }
+  | { type: 'RESUME_CLOCK' };